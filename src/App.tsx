@@ -1,17 +1,38 @@
-import { useState, useEffect, useRef } from 'react';
-import { ProcessedDetection } from './types';
-import { 
-  loadDetectionData, 
-  getUniqueSpecies,
-  getUniqueRegions,
-  getUniqueArrayNames,
-  getHourlyActivity,
-  getMonthlyActivity,
-  exportToCSV,
-  getSpeciesDetectionCounts,
-  getSpeciesFrequency,
-  getArraySpeciesTable
-} from './utils/dataLoader';
+import { useState, useEffect, useRef, useMemo, RefObject } from 'react';
+import {
+  AccumulationAxis,
+  AccumulationCurve,
+  BasemapSource,
+  BoundaryFilter,
+  BoundaryLayer,
+  CooccurrenceMatrix,
+  DataQualityIssue,
+  SpatialShape,
+  DetectionFilters,
+  DetectionQuery,
+  DetectionSummary,
+  FigureOptions,
+  MapDrawMode,
+  MapLayerMode,
+  SiteDetail,
+  TimeBasis,
+  TrendPeriod,
+  ValidationReport
+} from './types';
+import { exportToCSV } from './utils/dataLoader';
+import {
+  DatasetUpdate,
+  loadDataset,
+  onWorkerError,
+  resetDataset,
+  queryDetections,
+  queryAccumulation,
+  queryCooccurrence,
+  queryDataQuality,
+  queryRows,
+  querySiteDetail,
+  setWorkerBoundaryLayers
+} from './workers/detectionWorkerClient';
 import { 
   LineChart, 
   Line,
@@ -22,64 +43,258 @@ import {
   CartesianGrid, 
   Tooltip, 
   Legend, 
+  ReferenceLine,
   ResponsiveContainer
 } from 'recharts';
+import {
+  DateDomain,
+  DateResolution,
+  getDateSteps,
+  findDateStep,
+  getSliderMarks,
+  getDateWindow,
+  getDateRangeLabel
+} from './utils/dateRange';
+import {
+  DashboardUrlState,
+  MapViewport,
+  readUrlState,
+  writeUrlState,
+  serializeUrlState,
+  formatDateParam,
+  parseDateParam
+} from './utils/urlState';
 import { MapView } from './components/MapView';
+import { MultiSelectFilter } from './components/MultiSelectFilter';
+import { DataImport } from './components/DataImport';
+import { DataQualityPanel } from './components/DataQualityPanel';
+import { ActivityOverlapPanel } from './components/ActivityOverlapPanel';
+import { TrendPanel } from './components/TrendPanel';
+import { OccupancyExport } from './components/OccupancyExport';
+import { CommunitySummaryTable } from './components/CommunitySummaryTable';
+import { AccumulationChart } from './components/AccumulationChart';
+import { CooccurrenceHeatmap } from './components/CooccurrenceHeatmap';
+import { COOCCURRENCE_WINDOWS } from './utils/cooccurrence';
+import { PlaybackControls } from './components/PlaybackControls';
+import { SpatialFilterControls } from './components/SpatialFilterControls';
+import { BoundaryLayersPanel } from './components/BoundaryLayersPanel';
+import { BUILT_IN_BASEMAPS, loadBasemapConfig } from './utils/basemaps';
+import { SiteDetailDrawer } from './components/SiteDetailDrawer';
+import { isAtLocation } from './utils/siteDetail';
+import { DEFAULT_SEQUENCE_URL_TEMPLATE } from './utils/sequenceLinks';
+import { PhotoGallery } from './components/PhotoGallery';
+import { ImageSource, getDefaultImageSource } from './utils/imageSources';
+import { ComparisonTable } from './components/ComparisonTable';
+import { CompareValues } from './components/CompareValues';
+import { FigureExportDialog } from './components/FigureExportDialog';
+import { DEFAULT_FIGURE_OPTIONS, exportFigure, getFigureCaption, getFigureFooter } from './utils/figureExport';
+import {
+  COMPARE_COLORS,
+  COMPARE_SETS,
+  CompareSet,
+  describeFilterSet,
+  getComparisonActivity,
+  getSpeciesComparison,
+  getSpeciesValues,
+  getSummaryComparison
+} from './utils/comparison';
+import { getDefaultAttribute } from './utils/boundaries';
+import { isFilterActive } from './utils/detectionQuery';
+import { createGifEncoder, GifEncoder } from './utils/gif';
+import { createZipWriter } from './utils/zip';
+import { getCommunitySummaryExport } from './utils/diversity';
 import Slider from 'rc-slider';
 import html2canvas from 'html2canvas';
 import Papa from 'papaparse';
 import 'rc-slider/assets/index.css';
 import './App.css';
 
+// Map playback exports step through at most this many windows
+const MAX_PLAYBACK_FRAMES = 120;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Outline colours for loaded boundary layers, in load order
+const BOUNDARY_COLORS = ['#7B3F00', '#5B2C83', '#00577A', '#8A6D00', '#A61E4D'];
+
 function App() {
-  const [allData, setAllData] = useState<ProcessedDetection[]>([]);
-  const [filteredData, setFilteredData] = useState<ProcessedDetection[]>([]);
+  const [dateDomain, setDateDomain] = useState<DateDomain | null>(null);
+  const [datasetVersion, setDatasetVersion] = useState(0);
+  const [isImportedData, setIsImportedData] = useState(false);
+  const [datasetReports, setDatasetReports] = useState<ValidationReport[]>([]);
+  const [summary, setSummary] = useState<DetectionSummary | null>(null);
+  const [showDataImport, setShowDataImport] = useState(false);
+  const [showDataQuality, setShowDataQuality] = useState(false);
+  const [showOccupancyExport, setShowOccupancyExport] = useState(false);
+  const [dataQualityIssues, setDataQualityIssues] = useState<DataQualityIssue[]>([]);
   const [species, setSpecies] = useState<string[]>([]);
   const [selectedSpecies, setSelectedSpecies] = useState<string[]>(['All']);
-  const [speciesSearch, setSpeciesSearch] = useState<string>('');
-  const [regionSearch, setRegionSearch] = useState<string>('');
-  const [arrayNameSearch, setArrayNameSearch] = useState<string>('');
   const [regions, setRegions] = useState<string[]>([]);
   const [selectedRegions, setSelectedRegions] = useState<string[]>(['All']);
   const [arrayNames, setArrayNames] = useState<string[]>([]);
   const [selectedArrayNames, setSelectedArrayNames] = useState<string[]>(['All']);
-  const [dateRange, setDateRange] = useState<[number, number]>([0, 101]); // Jan 2017 to Jun 2025
+  const [orders, setOrders] = useState<string[]>([]);
+  const [selectedOrders, setSelectedOrders] = useState<string[]>(['All']);
+  const [families, setFamilies] = useState<string[]>([]);
+  const [selectedFamilies, setSelectedFamilies] = useState<string[]>(['All']);
+  const [genera, setGenera] = useState<string[]>([]);
+  const [selectedGenera, setSelectedGenera] = useState<string[]>(['All']);
+  const [ageClasses, setAgeClasses] = useState<string[]>([]);
+  const [selectedAgeClasses, setSelectedAgeClasses] = useState<string[]>(['All']);
+  const [sexes, setSexes] = useState<string[]>([]);
+  const [selectedSexes, setSelectedSexes] = useState<string[]>(['All']);
+  const [dateResolution, setDateResolution] = useState<DateResolution>('month');
+  const [dateRange, setDateRange] = useState<[number, number]>([0, 0]); // indices into dateSteps
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string>('');
-  const [activityView, setActivityView] = useState<'hour' | 'month'>('hour');
+  const [activityView, setActivityView] = useState<'hour' | 'month' | 'diel'>('hour');
+  const [timeBasis, setTimeBasis] = useState<TimeBasis>('clock');
+  const [activityScale, setActivityScale] = useState<'count' | 'proportion'>('count');
   const [speciesView, setSpeciesView] = useState<'frequency' | 'cameras'>('frequency');
+  const [trendPeriod, setTrendPeriod] = useState<TrendPeriod>('year');
+  const [trendByRegion, setTrendByRegion] = useState(false);
+  const [communityGrouping, setCommunityGrouping] = useState<'arrayName' | 'region' | `boundary:${string}`>('arrayName');
+  const [accumulationAxis, setAccumulationAxis] = useState<AccumulationAxis>('cameras');
+  const [accumulation, setAccumulation] = useState<{ datasetVersion: number; curves: AccumulationCurve[] } | null>(null);
+  const [cooccurrenceMetric, setCooccurrenceMetric] = useState<'jaccard' | 'veech'>('veech');
+  const [cooccurrenceWindow, setCooccurrenceWindow] = useState<number | null>(null);
+  const [cooccurrenceTopN, setCooccurrenceTopN] = useState(15);
+  const [cooccurrence, setCooccurrence] = useState<{ datasetVersion: number; matrix: CooccurrenceMatrix } | null>(null);
+  const [countMode, setCountMode] = useState<'raw' | 'events'>('raw');
+  const [eventThreshold, setEventThreshold] = useState<number>(30); // minutes
+  const [abundanceMetric, setAbundanceMetric] = useState<'count' | 'rai'>('count');
+  const [mapViewport, setMapViewport] = useState<MapViewport | null>(null);
+  const [mapLayer, setMapLayer] = useState<MapLayerMode>('markers');
+  const [basemaps, setBasemaps] = useState<BasemapSource[]>(BUILT_IN_BASEMAPS);
+  const [basemapId, setBasemapId] = useState('osm');
+  const [clusterMarkers, setClusterMarkers] = useState(false);
+  const [mapArea, setMapArea] = useState<SpatialShape[]>([]);
+  const [drawMode, setDrawMode] = useState<MapDrawMode | null>(null);
+  const [boundaryLayers, setBoundaryLayers] = useState<BoundaryLayer[]>([]);
+  const [boundaryFilters, setBoundaryFilters] = useState<BoundaryFilter[]>([]); // one per layer, ['All'] when unfiltered
+  const [hiddenBoundaryLayers, setHiddenBoundaryLayers] = useState<string[]>([]);
+  const [selectedSite, setSelectedSite] = useState<{ lat: number; lng: number } | null>(null);
+  const [siteDetail, setSiteDetail] = useState<SiteDetail | null>(null);
+  const [sequenceUrlTemplate, setSequenceUrlTemplate] = useState(DEFAULT_SEQUENCE_URL_TEMPLATE);
+  const [showGallery, setShowGallery] = useState(false);
+  const [imageSource, setImageSource] = useState<ImageSource | null>(null);
+  const [galleryCamera, setGalleryCamera] = useState<{ lat: number; lng: number } | null>(null);
+  const [compareMode, setCompareMode] = useState(false);
+  const [editingSet, setEditingSet] = useState<CompareSet>('B');
+  const [parkedFilters, setParkedFilters] = useState<DetectionFilters | null>(null); // the compared set not in the sidebar
+  const [parkedSummary, setParkedSummary] = useState<DetectionSummary | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [playbackWindow, setPlaybackWindow] = useState(1); // date steps
+  const [playbackInterval, setPlaybackInterval] = useState(1000); // ms per frame
+  const [playbackExport, setPlaybackExport] = useState<{ frame: number; total: number } | null>(null);
+  const [playbackExportError, setPlaybackExportError] = useState('');
+  const [figureOptions, setFigureOptions] = useState<FigureOptions>(DEFAULT_FIGURE_OPTIONS);
+  const [figureExport, setFigureExport] = useState<{
+    title: string;
+    filename: string;
+    ref: RefObject<HTMLDivElement>;
+    compared: boolean;
+    relayout: boolean;
+  } | null>(null);
   
   const chartRef = useRef<HTMLDivElement>(null);
   const speciesChartRef = useRef<HTMLDivElement>(null);
+  const dielPeriodChartRef = useRef<HTMLDivElement>(null);
+  const trendChartRef = useRef<HTMLDivElement>(null);
+  const trendComparisonChartRef = useRef<HTMLDivElement>(null);
+  const accumulationChartRef = useRef<HTMLDivElement>(null);
+  const cooccurrenceChartRef = useRef<HTMLDivElement>(null);
+  const mapContainerRef = useRef<HTMLDivElement>(null);
+  const galleryRef = useRef<HTMLElement>(null);
+  const summaryQueryRef = useRef<DetectionQuery | null>(null); // query behind the latest summary
+  const playbackActive = playing || playbackExport !== null;
+  const urlStateWrittenRef = useRef(false);
 
-  const minDate = 0; // January 2017
-  const maxDate = 101; // June 2025 (8 years * 12 + 6 months = 102 months, indexed 0-101)
-  
-  // Generate date labels from Jan 2017 to Jun 2025
-  const dateLabels: string[] = [];
-  const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-  for (let year = 2017; year <= 2024; year++) {
-    for (let month = 0; month < 12; month++) {
-      dateLabels.push(`${months[month]} ${year}`);
+  // Slider steps (months, seasons or days) spanning the loaded data
+  const dateSteps = useMemo(() => getDateSteps(dateDomain, dateResolution), [dateDomain, dateResolution]);
+  const dateRangeLabel = getDateRangeLabel(dateSteps, dateRange);
+
+  const handleDateResolutionChange = (resolution: DateResolution) => {
+    const currentWindow = getDateWindow(dateSteps, dateRange);
+    const nextSteps = getDateSteps(dateDomain, resolution);
+    setDateResolution(resolution);
+    if (currentWindow) {
+      setDateRange([
+        findDateStep(nextSteps, currentWindow.start),
+        findDateStep(nextSteps, new Date(currentWindow.end.getTime() - 1))
+      ]);
     }
-  }
-  // Add first 6 months of 2025
-  for (let month = 0; month < 6; month++) {
-    dateLabels.push(`${months[month]} 2025`);
-  }
+  };
+
+  // Restore every filter and view toggle from a (possibly shared) URL state
+  const applyUrlState = (state: DashboardUrlState, domain: DateDomain | null) => {
+    setSelectedSpecies(state.species);
+    setSelectedRegions(state.regions);
+    setSelectedArrayNames(state.arrayNames);
+    setSelectedOrders(state.orders);
+    setSelectedFamilies(state.families);
+    setSelectedGenera(state.genera);
+    setSelectedAgeClasses(state.ageClasses);
+    setSelectedSexes(state.sexes);
+    setActivityView(state.activityView);
+    setTimeBasis(state.timeBasis);
+    setActivityScale(state.activityScale);
+    setSpeciesView(state.speciesView);
+    setTrendPeriod(state.trendPeriod);
+    setTrendByRegion(state.trendByRegion);
+    setCommunityGrouping(state.communityGrouping);
+    setAccumulationAxis(state.accumulationAxis);
+    setCooccurrenceMetric(state.cooccurrenceMetric);
+    setCooccurrenceWindow(state.cooccurrenceWindow);
+    setCountMode(state.countMode);
+    setEventThreshold(state.eventThreshold);
+    setAbundanceMetric(state.abundanceMetric);
+    setMapViewport(state.mapViewport);
+    setMapLayer(state.mapLayer);
+    setBasemapId(state.basemap);
+    setClusterMarkers(state.clusterMarkers);
+    setMapArea(state.area);
+
+    const steps = getDateSteps(domain, state.dateResolution);
+    const from = state.dateFrom ? parseDateParam(state.dateFrom) : null;
+    const to = state.dateTo ? parseDateParam(state.dateTo) : null;
+    setDateResolution(state.dateResolution);
+    setDateRange([
+      from ? findDateStep(steps, from) : 0,
+      to ? findDateStep(steps, to) : Math.max(0, steps.length - 1)
+    ]);
+  };
+
+  // Make the worker's dataset the working dataset and rebuild everything derived from it
+  const setDataset = (update: DatasetUpdate) => {
+    const { options } = update;
+    setDateDomain(update.dateDomain);
+    setDatasetVersion(update.datasetVersion);
+    setDatasetReports(update.reports);
+    setSpecies(['All', ...options.species]);
+    console.log('Unique regions:', options.regions);
+    setRegions(['All', ...options.regions]);
+    console.log('Unique array names:', options.arrayNames);
+    setArrayNames(['All', ...options.arrayNames]);
+    setOrders(['All', ...options.orders]);
+    setFamilies(['All', ...options.families]);
+    setGenera(['All', ...options.genera]);
+    setAgeClasses(['All', ...options.ageClasses]);
+    setSexes(['All', ...options.sexes]);
+  };
+
+  // Imported or restored data can cover different dates, so reset the range
+  const handleDatasetChange = (update: DatasetUpdate, imported: boolean) => {
+    setDataset(update);
+    setIsImportedData(imported);
+    setDateRange([0, Math.max(0, getDateSteps(update.dateDomain, dateResolution).length - 1)]);
+  };
 
   useEffect(() => {
-    loadDetectionData()
-      .then(data => {
-        setAllData(data);
-        const uniqueSpecies = getUniqueSpecies(data);
-        setSpecies(['All', ...uniqueSpecies]);
-        const uniqueRegions = getUniqueRegions(data);
-        console.log('Unique regions:', uniqueRegions);
-        setRegions(['All', ...uniqueRegions]);
-        const uniqueArrayNames = getUniqueArrayNames(data);
-        console.log('Unique array names:', uniqueArrayNames);
-        setArrayNames(['All', ...uniqueArrayNames]);
+    loadDataset()
+      .then(update => {
+        setDataset(update);
+        applyUrlState(readUrlState(), update.dateDomain);
         setLoading(false);
       })
       .catch(err => {
@@ -88,84 +303,663 @@ function App() {
       });
   }, []);
 
+  // Every query runs in the worker, so the dashboard can't go on without it
+  useEffect(() => onWorkerError(err => {
+    setError('The data worker stopped: ' + err.message);
+    setLoading(false);
+  }), []);
+
+  // Extra basemaps (local tile directories or MBTiles) from basemaps.json
   useEffect(() => {
-    let data = allData;
-    // Filter by species (handle multiple selections)
-    if (selectedSpecies.length > 0 && !selectedSpecies.includes('All')) {
-      data = data.filter(d => selectedSpecies.includes(d.commonName));
-    }
-    // Filter by region
-    if (selectedRegions.length > 0 && !selectedRegions.includes('All')) {
-      data = data.filter(d => selectedRegions.includes(d.region));
-    }
-    // Filter by array name
-    if (selectedArrayNames.length > 0 && !selectedArrayNames.includes('All')) {
-      data = data.filter(d => selectedArrayNames.includes(d.arrayName));
-    }
-    // Filter by month range (0-101 = Jan 2017 to Jun 2025)
-    data = data.filter(d => {
-      if (!d.startTime) return false;
-      const date = new Date(d.startTime);
-      if (isNaN(date.getTime())) return false; // Invalid date
-      const year = date.getFullYear();
-      const month = date.getMonth(); // 0-11
-      const monthIndex = (year - 2017) * 12 + month; // Convert to 0-101 range
-      return monthIndex >= dateRange[0] && monthIndex <= dateRange[1];
+    loadBasemapConfig().then(sources => {
+      if (sources.length > 0) setBasemaps([...BUILT_IN_BASEMAPS, ...sources]);
     });
-    setFilteredData(data);
-  }, [allData, selectedSpecies, selectedRegions, selectedArrayNames, dateRange]);
+  }, []);
+
+  // Image source configured at build time, if any
+  useEffect(() => {
+    getDefaultImageSource()
+      .then(source => {
+        if (source) setImageSource(source);
+      })
+      .catch(err => console.error('Error loading image manifest:', err));
+  }, []);
+
+  // A basemap id from a link is kept even before basemaps.json has loaded
+  const basemap = basemaps.find(source => source.id === basemapId) || basemaps[0];
+
+  // Browser back/forward steps through previously pushed filter states
+  useEffect(() => {
+    const handlePopState = () => applyUrlState(readUrlState(), dateDomain);
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [dateDomain]);
+
+  // Open-ended ends are left out of the URL so a link keeps covering the
+  // newest data after the next release
+  const urlDateWindow = getDateWindow(dateSteps, dateRange);
+  const urlState: DashboardUrlState = {
+    species: selectedSpecies,
+    regions: selectedRegions,
+    arrayNames: selectedArrayNames,
+    orders: selectedOrders,
+    families: selectedFamilies,
+    genera: selectedGenera,
+    ageClasses: selectedAgeClasses,
+    sexes: selectedSexes,
+    dateResolution,
+    dateFrom: urlDateWindow && dateRange[0] > 0 ? formatDateParam(urlDateWindow.start) : null,
+    dateTo: urlDateWindow && dateRange[1] < dateSteps.length - 1
+      ? formatDateParam(new Date(urlDateWindow.end.getTime() - 1))
+      : null,
+    activityView,
+    timeBasis,
+    activityScale,
+    speciesView,
+    trendPeriod,
+    trendByRegion,
+    communityGrouping: communityGrouping === 'region' ? 'region' : 'arrayName', // boundary layers are not in the URL
+    accumulationAxis,
+    cooccurrenceMetric,
+    cooccurrenceWindow,
+    mapLayer,
+    basemap: basemapId,
+    clusterMarkers,
+    area: mapArea,
+    countMode,
+    eventThreshold,
+    abundanceMetric,
+    mapViewport
+  };
+  const urlHash = serializeUrlState(urlState);
+
+  // Debounced so dragging the slider or panning the map adds one history
+  // entry rather than one per frame, and held while the map plays back
+  useEffect(() => {
+    if (loading || playbackActive) return;
+    const timer = setTimeout(() => {
+      writeUrlState(urlState, !urlStateWrittenRef.current);
+      urlStateWrittenRef.current = true;
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [loading, playbackActive, urlHash]);
+
+  // Filtering and aggregation happen in the worker; stale responses from
+  // superseded queries are dropped
+  const queryWindow = getDateWindow(dateSteps, dateRange);
+  const queryStart = queryWindow ? queryWindow.start.getTime() : null;
+  const queryEnd = queryWindow ? queryWindow.end.getTime() : null;
+  const activeBoundaryFilters = useMemo(() => boundaryFilters.filter(f => isFilterActive(f.values)), [boundaryFilters]);
+  const communityBoundary = communityGrouping.startsWith('boundary:')
+    ? boundaryFilters.find(f => `boundary:${f.layerId}` === communityGrouping) || null
+    : null;
+  const communityBoundaryLayer = communityBoundary?.layerId ?? null;
+  const communityBoundaryAttribute = communityBoundary?.attribute ?? null;
+  const detectionQuery = useMemo<DetectionQuery>(() => ({
+    filters: {
+      species: selectedSpecies,
+      regions: selectedRegions,
+      arrayNames: selectedArrayNames,
+      orders: selectedOrders,
+      families: selectedFamilies,
+      genera: selectedGenera,
+      ageClasses: selectedAgeClasses,
+      sexes: selectedSexes,
+      dateStart: queryStart === null ? null : new Date(queryStart),
+      dateEnd: queryEnd === null ? null : new Date(queryEnd),
+      area: mapArea,
+      boundaries: activeBoundaryFilters
+    },
+    communityBoundary: communityBoundaryLayer && communityBoundaryAttribute !== null
+      ? { layerId: communityBoundaryLayer, attribute: communityBoundaryAttribute }
+      : null,
+    countMode,
+    eventThreshold,
+    timeBasis
+  }), [
+    selectedSpecies,
+    selectedRegions,
+    selectedArrayNames,
+    selectedOrders,
+    selectedFamilies,
+    selectedGenera,
+    selectedAgeClasses,
+    selectedSexes,
+    queryStart,
+    queryEnd,
+    mapArea,
+    activeBoundaryFilters,
+    communityBoundaryLayer,
+    communityBoundaryAttribute,
+    countMode,
+    eventThreshold,
+    timeBasis
+  ]);
+
+  // The worker joins cameras to the loaded boundary layers. Declared before
+  // the query effect so the worker has the layers before any query using them.
+  useEffect(() => {
+    setWorkerBoundaryLayers(boundaryLayers).catch(err => console.error('Error loading boundary layers:', err));
+  }, [boundaryLayers]);
+
+  useEffect(() => {
+    if (loading) return;
+    let cancelled = false;
+    queryDetections(detectionQuery)
+      .then(result => {
+        if (cancelled) return;
+        summaryQueryRef.current = detectionQuery;
+        setSummary(result);
+      })
+      .catch(err => console.error('Error querying detections:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [loading, datasetVersion, detectionQuery]);
+
+  // Compare mode: the sidebar edits one set while the other waits in
+  // parkedFilters; switching sets swaps them. Boundary filters are kept per
+  // layer, including unfiltered ones, so either set restores cleanly.
+  const sidebarFilters: DetectionFilters = { ...detectionQuery.filters, boundaries: boundaryFilters };
+
+  const getFilterDateRange = (filters: DetectionFilters): [number, number] => [
+    filters.dateStart ? findDateStep(dateSteps, filters.dateStart) : 0,
+    filters.dateEnd ? findDateStep(dateSteps, new Date(filters.dateEnd.getTime() - 1)) : Math.max(0, dateSteps.length - 1)
+  ];
+
+  const restoreSidebarFilters = (filters: DetectionFilters) => {
+    setSelectedSpecies(filters.species);
+    setSelectedRegions(filters.regions);
+    setSelectedArrayNames(filters.arrayNames);
+    setSelectedOrders(filters.orders);
+    setSelectedFamilies(filters.families);
+    setSelectedGenera(filters.genera);
+    setSelectedAgeClasses(filters.ageClasses);
+    setSelectedSexes(filters.sexes);
+    setMapArea(filters.area);
+    setBoundaryFilters(boundaryFilters.map(f =>
+      filters.boundaries.find(saved => saved.layerId === f.layerId) || { ...f, values: ['All'] }
+    ));
+    setDateRange(getFilterDateRange(filters));
+  };
+
+  // Both sets start as the current filters, with set B in the sidebar
+  const handleCompareToggle = () => {
+    setParkedFilters(compareMode ? null : sidebarFilters);
+    setParkedSummary(null);
+    setEditingSet('B');
+    setCompareMode(!compareMode);
+  };
+
+  const handleEditingSetChange = (set: CompareSet) => {
+    if (set === editingSet || !parkedFilters) return;
+    restoreSidebarFilters(parkedFilters);
+    setParkedFilters(sidebarFilters);
+    // Each summary already matches the other set, until the queries catch up
+    setParkedSummary(summary);
+    if (parkedSummary) setSummary(parkedSummary);
+    setEditingSet(set);
+  };
+
+  const parkedQuery = useMemo<DetectionQuery | null>(() => parkedFilters && {
+    filters: {
+      ...parkedFilters,
+      boundaries: parkedFilters.boundaries.filter(f =>
+        isFilterActive(f.values) && boundaryLayers.some(layer => layer.id === f.layerId)
+      )
+    },
+    communityBoundary: null,
+    countMode,
+    eventThreshold,
+    timeBasis
+  }, [parkedFilters, boundaryLayers, countMode, eventThreshold, timeBasis]);
+
+  useEffect(() => {
+    if (loading || !parkedQuery) return;
+    let cancelled = false;
+    queryDetections(parkedQuery)
+      .then(result => {
+        if (!cancelled) setParkedSummary(result);
+      })
+      .catch(err => console.error('Error querying compared detections:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [loading, datasetVersion, parkedQuery]);
+
+  // Map playback slides the date window one step per interval until it
+  // reaches the end of the data
+  useEffect(() => {
+    if (!playing) return;
+    const timer = setTimeout(() => {
+      if (dateRange[1] >= dateSteps.length - 1) {
+        setPlaying(false);
+        return;
+      }
+      setDateRange([dateRange[0] + 1, dateRange[1] + 1]);
+    }, playbackInterval);
+    return () => clearTimeout(timer);
+  }, [playing, dateRange, dateSteps.length, playbackInterval]);
+
+  // Randomizing sampling order is slower than the main summary, so it runs as
+  // its own worker request, and is skipped while the map is playing
+  useEffect(() => {
+    if (loading || playbackActive) return;
+    let cancelled = false;
+    const version = datasetVersion;
+    queryAccumulation(detectionQuery, accumulationAxis)
+      .then(curves => {
+        if (!cancelled) setAccumulation({ datasetVersion: version, curves });
+      })
+      .catch(err => console.error('Error computing accumulation curves:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [loading, playbackActive, datasetVersion, detectionQuery, accumulationAxis]);
+
+  useEffect(() => {
+    if (loading || playbackActive) return;
+    let cancelled = false;
+    const version = datasetVersion;
+    queryCooccurrence(detectionQuery, cooccurrenceTopN, cooccurrenceWindow)
+      .then(matrix => {
+        if (!cancelled) setCooccurrence({ datasetVersion: version, matrix });
+      })
+      .catch(err => console.error('Error computing species co-occurrence:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [loading, playbackActive, datasetVersion, detectionQuery, cooccurrenceTopN, cooccurrenceWindow]);
 
-  const hourlyData = getHourlyActivity(filteredData);
-  const monthlyData = getMonthlyActivity(filteredData);
+  // Ignore a summary that predates the latest import or reset
+  const currentSummary = summary && summary.datasetVersion === datasetVersion ? summary : null;
+
+  // Sets A and B in order, once both summaries are in
+  const currentParkedSummary = parkedSummary && parkedSummary.datasetVersion === datasetVersion ? parkedSummary : null;
+  const comparedSummaries = useMemo<[DetectionSummary, DetectionSummary] | null>(() => {
+    if (!compareMode || !currentSummary || !currentParkedSummary) return null;
+    return editingSet === 'A' ? [currentSummary, currentParkedSummary] : [currentParkedSummary, currentSummary];
+  }, [compareMode, currentSummary, currentParkedSummary, editingSet]);
+  const comparedFilters: [DetectionFilters, DetectionFilters] | null = compareMode && parkedFilters
+    ? (editingSet === 'A' ? [sidebarFilters, parkedFilters] : [parkedFilters, sidebarFilters])
+    : null;
+  const comparedSpeciesTotals = useMemo(
+    () => comparedSummaries
+      ? comparedSummaries.map(summary => new Map(summary.speciesTotals.map(({ species, ...totals }) => [species, totals])))
+      : null,
+    [comparedSummaries]
+  );
+
+  // The camera location open in the detail drawer, under the current filters
+  useEffect(() => {
+    if (loading || !selectedSite) return;
+    let cancelled = false;
+    querySiteDetail(detectionQuery, selectedSite.lat, selectedSite.lng)
+      .then(detail => {
+        if (!cancelled) setSiteDetail(detail);
+      })
+      .catch(err => console.error('Error summarizing camera location:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [loading, datasetVersion, detectionQuery, selectedSite]);
+
+  // Until the worker answers, a newly opened location shows nothing rather
+  // than the previous one
+  const openSiteDetail = siteDetail && selectedSite && isAtLocation(siteDetail, selectedSite.lat, selectedSite.lng)
+    ? siteDetail
+    : null;
+
+  const handleDownloadSiteRecords = () => {
+    if (!selectedSite) return;
+    const { lat, lng } = selectedSite;
+    queryRows(detectionQuery.filters, selectedSite)
+      .then(rows => exportToCSV(rows, `camera_${lat.toFixed(5)}_${lng.toFixed(5)}_${new Date().toISOString().split('T')[0]}.csv`))
+      .catch(err => console.error('Error exporting camera records:', err));
+  };
+
+  // The drawer's camera, in the gallery
+  const handleViewSitePhotos = () => {
+    if (!selectedSite) return;
+    setGalleryCamera(selectedSite);
+    setShowGallery(true);
+    setSelectedSite(null);
+    setTimeout(() => galleryRef.current?.scrollIntoView({ behavior: 'smooth' }));
+  };
+
+  const countLabel = countMode === 'events' ? 'Independent Events' : 'Detections';
+  const showRAI = abundanceMetric === 'rai';
+  const raiLabel = `${countLabel} per 100 Camera-Nights`;
+
+  const hourlyData = currentSummary?.hourly || [];
+  const monthlyData = currentSummary?.monthly || [];
+  const dielCurves = currentSummary?.dielActivity || [];
+
+  // Density curves share one evenly spaced grid around the clock
+  const formatTimeOfDay = (hours: number) => {
+    const minutes = Math.round(hours * 60);
+    return `${Math.floor(minutes / 60)}:${String(minutes % 60).padStart(2, '0')}`;
+  };
+  const dielChartData = dielCurves.length > 0
+    ? dielCurves[0].density.map((_, i) => {
+        const row: Record<string, number | string> = { label: formatTimeOfDay((i * 24) / dielCurves[0].density.length) };
+        dielCurves.forEach(curve => {
+          row[curve.species] = curve.density[i];
+        });
+        return row;
+      })
+    : [];
+
+  // With species selected, the hour and month views draw one line per
+  // species, optionally scaled to each species' own total
+  const activitySeries = activityView === 'hour'
+    ? currentSummary?.hourlyBySpecies || []
+    : activityView === 'month' ? currentSummary?.monthlyBySpecies || [] : [];
+  const showActivityProportion = activityScale === 'proportion';
+  const scaleActivity = (count: number, total: number) => {
+    return showActivityProportion ? (total > 0 ? count / total : 0) : count;
+  };
+  const pooledActivityTotal = (activityView === 'hour' ? hourlyData : monthlyData).reduce((sum, d) => sum + d.count, 0);
+  const withSpeciesActivity = <T extends object>(row: T, bin: number) => {
+    const values: Record<string, number> = {};
+    activitySeries.forEach(series => {
+      values[series.species] = scaleActivity(series.counts[bin], series.total);
+    });
+    return { ...row, ...values };
+  };
 
   // Prepare data for smooth line charts with proper labels
-  const chartData = activityView === 'hour'
-    ? hourlyData.map(d => ({
+  const chartData = activityView === 'diel'
+    ? dielChartData
+    : activityView === 'hour'
+    ? hourlyData.map(d => withSpeciesActivity({
         label: `${d.hour}:00`,
         hour: d.hour,
-        count: d.count
-      }))
-    : monthlyData.map(d => ({
+        count: scaleActivity(d.count, pooledActivityTotal)
+      }, d.hour))
+    : monthlyData.map(d => withSpeciesActivity({
         label: d.monthName,
         month: d.month,
-        count: d.count
-      }));
+        count: scaleActivity(d.count, pooledActivityTotal)
+      }, d.month));
+  const activityAxisLabel = activityView === 'diel'
+    ? 'Share of Activity per Hour'
+    : showActivityProportion ? `Proportion of ${countLabel}` : countLabel;
+  const activitySeriesNote = [
+    activitySeries.length > 0 ? 'Each selected species has its own line.' : '',
+    showActivityProportion ? 'Values are proportions of each line\'s total, so abundant and rare species can be compared on one axis.' : ''
+  ].filter(Boolean).join(' ');
+  const timeBasisLabel = timeBasis === 'solar'
+    ? 'solar time'
+    : timeBasis === 'sun' ? 'sun time, where sunrise is 6:00 and sunset 18:00 every day' : 'clock time';
+  const dielPeriodData = (currentSummary?.dielPeriods || []).map(d => ({
+    species: d.species,
+    diurnal: Number((d.diurnal * 100).toFixed(1)),
+    crepuscular: Number((d.crepuscular * 100).toFixed(1)),
+    nocturnal: Number((d.nocturnal * 100).toFixed(1))
+  }));
 
   const handleDownload = () => {
-    const filename = `Michigan_Mammal_${selectedSpecies.join('_').replace(/\s+/g, '_')}_${dateLabels[dateRange[0]]}-${dateLabels[dateRange[1]]}.csv`.replace(/\s+/g, '_');
-    exportToCSV(filteredData, filename);
+    const filename = `Michigan_Mammal_${selectedSpecies.join('_').replace(/\s+/g, '_')}_${dateRangeLabel.replace(' - ', '-')}.csv`.replace(/\s+/g, '_');
+    queryRows(detectionQuery.filters)
+      .then(rows => exportToCSV(rows, filename))
+      .catch(err => console.error('Error exporting records:', err));
   };
 
-  const handleDownloadChart = async () => {
-    if (!chartRef.current) return;
+  // Chart downloads open the figure export dialog. Compared charts caption
+  // both filter sets; the map is exported as shown rather than redrawn.
+  const openFigureExport = (
+    title: string,
+    filename: string,
+    ref: RefObject<HTMLDivElement>,
+    compared: boolean,
+    relayout = true
+  ) => setFigureExport({ title, filename: `${filename}-${new Date().toISOString().split('T')[0]}`, ref, compared, relayout });
 
-    try {
-      const canvas = await html2canvas(chartRef.current);
-      const url = canvas.toDataURL('image/png');
-      const link = document.createElement('a');
-      link.download = `activity-chart-${activityView}-${new Date().toISOString().split('T')[0]}.png`;
-      link.href = url;
-      link.click();
-    } catch (error) {
-      console.error('Error downloading chart:', error);
+  const handleDownloadChart = () => openFigureExport(
+    `Animal activity by ${activityView === 'hour' ? 'hour of day' : activityView === 'month' ? 'month' : 'time of day (diel density)'}`,
+    `activity-chart-${activityView}`,
+    chartRef,
+    true
+  );
+
+  const handleDownloadSpeciesChart = () => openFigureExport(
+    speciesView === 'frequency' ? 'Most frequently detected species' : 'Species by camera coverage',
+    `species-chart-${speciesView}`,
+    speciesChartRef,
+    true
+  );
+
+  const handleDownloadTrendChart = () =>
+    openFigureExport(`Multi-year trends by ${trendPeriod}`, `trend-chart-${trendPeriod}`, trendChartRef, false);
+
+  const handleDownloadTrendComparisonChart = (yearA: string, yearB: string) =>
+    openFigureExport(`Year comparison: ${yearA} vs ${yearB}`, `trend-comparison-${yearA}-${yearB}`, trendComparisonChartRef, false);
+
+  const accumulationCurves = accumulation && accumulation.datasetVersion === datasetVersion ? accumulation.curves : [];
+
+  const handleDownloadAccumulationChart = () => openFigureExport(
+    `Species accumulation by ${accumulationAxis === 'cameras' ? 'cameras' : 'camera-days'}`,
+    `species-accumulation-${accumulationAxis}`,
+    accumulationChartRef,
+    false
+  );
+
+  const handleDownloadAccumulationCSV = () => {
+    const rows = accumulationCurves.flatMap(curve => curve.points.map(p => ({
+      group: curve.group,
+      [accumulationAxis === 'cameras' ? 'cameras' : 'cameraDays']: p.effort,
+      meanSpecies: p.mean,
+      lower95: p.lower,
+      upper95: p.upper
+    })));
+    exportToCSV(rows, `species-accumulation-${accumulationAxis}-${new Date().toISOString().split('T')[0]}.csv`);
+  };
+
+  // Play from the current window when it has the chosen size and isn't at the
+  // end of the data, otherwise from the start
+  const handlePlayToggle = () => {
+    if (playing) {
+      setPlaying(false);
+      return;
     }
+    const size = Math.min(playbackWindow, dateSteps.length);
+    const resume = dateRange[1] - dateRange[0] + 1 === size && dateRange[1] < dateSteps.length - 1;
+    if (!resume) setDateRange([0, size - 1]);
+    setPlaying(true);
+  };
+
+  const handlePlaybackWindowChange = (steps: number) => {
+    setPlaybackWindow(steps);
+    if (playing) setDateRange([dateRange[0], Math.min(dateSteps.length - 1, dateRange[0] + steps - 1)]);
   };
 
-  const handleDownloadSpeciesChart = async () => {
-    if (!speciesChartRef.current) return;
+  const handleExportPlayback = async (format: 'png' | 'gif') => {
+    if (!mapContainerRef.current || playbackExport || dateSteps.length === 0) return;
+    setPlaying(false);
+    setPlaybackExportError('');
+
+    const size = Math.min(playbackWindow, dateSteps.length);
+    const lastStart = dateSteps.length - size;
+    const stride = Math.ceil((lastStart + 1) / MAX_PLAYBACK_FRAMES);
+    const starts = Array.from({ length: Math.floor(lastStart / stride) + 1 }, (_, i) => i * stride);
+    const originalRange = dateRange;
+    // Each frame is encoded as soon as it is captured, so only one canvas is
+    // held at a time
+    const zip = format === 'png' ? createZipWriter() : null;
+    let gif: GifEncoder | null = null;
 
     try {
-      const canvas = await html2canvas(speciesChartRef.current);
-      const url = canvas.toDataURL('image/png');
+      for (let i = 0; i < starts.length; i++) {
+        setPlaybackExport({ frame: i, total: starts.length });
+        const range: [number, number] = [starts[i], starts[i] + size - 1];
+        setDateRange(range);
+
+        // Wait for the worker to summarize this window, then for the map to
+        // redraw. A frame captured without it would show the previous window.
+        const start = dateSteps[range[0]].start.getTime();
+        const end = dateSteps[range[1]].end.getTime();
+        const isSummarized = () => summaryQueryRef.current?.filters.dateStart?.getTime() === start
+          && summaryQueryRef.current?.filters.dateEnd?.getTime() === end;
+        const deadline = Date.now() + 10000;
+        while (!isSummarized()) {
+          if (Date.now() >= deadline) {
+            throw new Error(`the map for ${getDateRangeLabel(dateSteps, range)} did not update within 10 seconds`);
+          }
+          await delay(50);
+        }
+        await delay(300);
+
+        const canvas = await html2canvas(mapContainerRef.current!, { useCORS: true, scale: 1 });
+        if (zip) {
+          const png = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+          if (!png) throw new Error('Could not draw the map frame');
+          const label = getDateRangeLabel(dateSteps, range).replace(/\s+/g, '_');
+          zip.addFile(`detection-map-${String(i + 1).padStart(3, '0')}-${label}.png`, new Uint8Array(await png.arrayBuffer()));
+        } else {
+          gif ??= createGifEncoder(canvas.width, canvas.height, playbackInterval);
+          gif.addFrame(canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height));
+        }
+      }
+
+      setPlaybackExport({ frame: starts.length, total: starts.length });
+      await delay(50);
+      const date = new Date().toISOString().split('T')[0];
+      const blob = zip ? zip.finish() : gif?.finish();
+      if (!blob) return;
+      const url = URL.createObjectURL(blob);
       const link = document.createElement('a');
-      link.download = `species-chart-${speciesView}-${new Date().toISOString().split('T')[0]}.png`;
+      link.download = zip ? `detection-map-frames-${date}.zip` : `detection-map-animation-${date}.gif`;
       link.href = url;
       link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
     } catch (error) {
-      console.error('Error downloading species chart:', error);
+      setPlaybackExportError(`Could not export the animation: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setPlaybackExport(null);
+      setDateRange(originalRange);
+    }
+  };
+
+  const cooccurrenceMatrix = cooccurrence && cooccurrence.datasetVersion === datasetVersion ? cooccurrence.matrix : null;
+  const cooccurrenceWindowLabel = cooccurrenceWindow === null
+    ? 'at any time'
+    : cooccurrenceWindow === 168 ? 'within a week of each other' : `within ${cooccurrenceWindow} hour${cooccurrenceWindow === 1 ? '' : 's'} of each other`;
+
+  // The heatmap is an HTML table, so it is exported as laid out on screen
+  const handleDownloadCooccurrenceChart = () => openFigureExport(
+    `Species co-occurrence (${cooccurrenceMetric === 'veech' ? 'Veech score' : 'Jaccard index'})`,
+    `species-cooccurrence-${cooccurrenceMetric}`,
+    cooccurrenceChartRef,
+    false,
+    false
+  );
+
+  const handleDownloadCooccurrenceCSV = () => {
+    if (!cooccurrenceMatrix) return;
+    const rows = cooccurrenceMatrix.pairs.map(pair => ({
+      speciesA: pair.speciesA,
+      speciesB: pair.speciesB,
+      locationsA: pair.sitesA,
+      locationsB: pair.sitesB,
+      locationsTotal: cooccurrenceMatrix.sites,
+      cooccurrences: pair.cooccurrences,
+      expected: Number(pair.expected.toFixed(2)),
+      jaccard: Number(pair.jaccard.toFixed(3)),
+      effect: Number(pair.effect.toFixed(3)),
+      pLower: Number(pair.pLower.toPrecision(3)),
+      pUpper: Number(pair.pUpper.toPrecision(3))
+    }));
+    exportToCSV(rows, `species-cooccurrence-${new Date().toISOString().split('T')[0]}.csv`);
+  };
+
+  // Selecting a pair shows just those two species in the sidebar, map and charts
+  const handleCooccurrencePairSelect = (speciesA: string, speciesB: string) => {
+    setSelectedSpecies([speciesA, speciesB]);
+  };
+
+  const handleDownloadDielPeriodChart = () =>
+    openFigureExport('Day, twilight and night activity', 'nocturnal-activity-chart', dielPeriodChartRef, false);
+
+  const handleExportMap = () => openFigureExport(
+    compareMode
+      ? 'Detection map of filter sets A and B'
+      : `Detection map (${mapLayer === 'markers' ? 'camera locations' : mapLayer === 'heatmap' ? 'heatmap' : 'hexagonal bins'})`,
+    'detection-map',
+    mapContainerRef,
+    true,
+    false
+  );
+
+  // The checks scan every row, so they only run while the report is open
+  useEffect(() => {
+    if (loading || !showDataQuality) return;
+    let cancelled = false;
+    queryDataQuality(datasetReports)
+      .then(issues => {
+        if (!cancelled) setDataQualityIssues(issues);
+      })
+      .catch(err => console.error('Error checking data quality:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [loading, showDataQuality, datasetVersion, datasetReports]);
+
+  const handleDownloadQualityReport = () => {
+    exportToCSV(dataQualityIssues, `data-quality-report-${new Date().toISOString().split('T')[0]}.csv`);
+  };
+
+  const boundaryColors = Object.fromEntries(
+    boundaryLayers.map((layer, i) => [layer.id, BOUNDARY_COLORS[i % BOUNDARY_COLORS.length]])
+  );
+
+  const handleBoundaryLayersAdd = (layers: BoundaryLayer[]) => {
+    setBoundaryLayers([...boundaryLayers, ...layers]);
+    setBoundaryFilters([
+      ...boundaryFilters,
+      ...layers.map(layer => ({ layerId: layer.id, attribute: getDefaultAttribute(layer), values: ['All'] }))
+    ]);
+  };
+
+  const handleBoundaryLayerRemove = (layerId: string) => {
+    setBoundaryLayers(boundaryLayers.filter(layer => layer.id !== layerId));
+    setBoundaryFilters(boundaryFilters.filter(f => f.layerId !== layerId));
+    setHiddenBoundaryLayers(hiddenBoundaryLayers.filter(id => id !== layerId));
+    if (communityGrouping === `boundary:${layerId}`) setCommunityGrouping('arrayName');
+  };
+
+  const handleBoundaryFilterChange = (filter: BoundaryFilter) => {
+    setBoundaryFilters(boundaryFilters.map(f => f.layerId === filter.layerId ? filter : f));
+  };
+
+  const communityLayer = boundaryLayers.find(layer => layer.id === communityBoundaryLayer);
+  const communityRows = (communityBoundary
+    ? currentSummary?.communityByBoundary
+    : communityGrouping === 'arrayName' ? currentSummary?.communityByArray : currentSummary?.communityByRegion) || [];
+  const communityGroupLabel = communityLayer
+    ? `${communityLayer.name} ${communityBoundaryAttribute}`
+    : communityGrouping === 'region' ? 'Region' : 'Array';
+
+  // Clicking a community row filters the dashboard to that array, region or
+  // polygon value; clicking it again clears the filter
+  const handleCommunityRowSelect = (group: string) => {
+    const toggle = (selected: string[]) => selected.length === 1 && selected[0] === group ? ['All'] : [group];
+    if (communityBoundary) {
+      handleBoundaryFilterChange({ ...communityBoundary, values: toggle(communityBoundary.values) });
+    } else if (communityGrouping === 'region') {
+      setSelectedRegions(toggle(selectedRegions));
+    } else {
+      setSelectedArrayNames(toggle(selectedArrayNames));
     }
   };
 
+  const handleDownloadCommunityTable = () => {
+    exportToCSV(
+      getCommunitySummaryExport(communityRows, communityGroupLabel.toLowerCase()),
+      `community-summary-by-${communityGroupLabel.toLowerCase().replace(/\s+/g, '-')}-${new Date().toISOString().split('T')[0]}.csv`
+    );
+  };
+
   const handleDownloadArrayTable = () => {
     if (arraySpeciesTable.length === 0) return;
     
@@ -197,29 +991,9 @@ function App() {
   // Check if we should show species-specific colors
   const showSpeciesColors = selectedSpecies.length > 0 && !selectedSpecies.includes('All');
 
-  // Get unique locations for map
-  const locations = filteredData
-    .filter(d => d.latitude && d.longitude)
-    .reduce((acc, d) => {
-      const key = `${d.latitude},${d.longitude}`;
-      if (!acc.has(key)) {
-        acc.set(key, { 
-          lat: d.latitude, 
-          lng: d.longitude, 
-          species: new Map<string, number>(),
-          totalCount: 0 
-        });
-      }
-      const location = acc.get(key)!;
-      const currentCount = location.species.get(d.commonName) || 0;
-      location.species.set(d.commonName, currentCount + (d.groupSize || 1));
-      location.totalCount += (d.groupSize || 1);
-      return acc;
-    }, new Map());
-
-  const mapPoints = Array.from(locations.values()).map(loc => {
+  const mapPoints = (currentSummary?.locations || []).map(loc => {
     const speciesList: { species: string; count: number; color: string; }[] = showSpeciesColors 
-      ? Array.from(loc.species.entries() as IterableIterator<[string, number]>).map(([species, count]) => ({
+      ? loc.species.map(({ species, count }) => ({
           species,
           count,
           color: getSpeciesColor(species)
@@ -235,64 +1009,78 @@ function App() {
       lng: loc.lng,
       species: speciesList,
       totalCount: loc.totalCount,
+      cameraNights: loc.cameraNights,
       showColors: showSpeciesColors
     };
   });
 
-  // Calculate total camera locations (filtered by region/array but not species)
-  const totalCameraLocations = (() => {
-    let data = allData.filter(d => d.latitude && d.longitude);
-    // Filter by region
-    if (selectedRegions.length > 0 && !selectedRegions.includes('All')) {
-      data = data.filter(d => selectedRegions.includes(d.region));
-    }
-    // Filter by array name
-    if (selectedArrayNames.length > 0 && !selectedArrayNames.includes('All')) {
-      data = data.filter(d => selectedArrayNames.includes(d.arrayName));
-    }
-    return new Set(data.map(d => `${d.latitude},${d.longitude}`)).size;
-  })();
-
-  // Calculate distinct cameras with detections (based on lat/lng in filtered data)
-  const distinctCamerasWithDetections = new Set(
-    filteredData
-      .filter(d => d.latitude && d.longitude)
-      .map(d => `${d.latitude},${d.longitude}`)
-  ).size;
-
-  // Calculate species detection counts and frequency
-  const speciesCameraCounts = getSpeciesDetectionCounts(filteredData);
-  const speciesFrequencyCounts = getSpeciesFrequency(filteredData);
+  // Camera locations count ignores species-level filters; cameras with
+  // detections and the species charts follow every filter
+  const totalCameraLocations = currentSummary?.totalCameraLocations || 0;
+  const distinctCamerasWithDetections = currentSummary?.distinctCameras || 0;
+  const totalCameraNights = currentSummary?.totalCameraNights || 0;
+  const speciesCameraCounts = currentSummary?.speciesCameraCounts || [];
+  const speciesFrequencyCounts = currentSummary?.speciesFrequency || [];
   
   // Data for species chart based on current view
-  const speciesChartData = speciesView === 'frequency' ? speciesFrequencyCounts : speciesCameraCounts;
+  const speciesChartData = speciesView === 'frequency'
+    ? (showRAI ? currentSummary?.speciesRAI || [] : speciesFrequencyCounts)
+    : speciesCameraCounts;
   
-  // Calculate array species table if an array is selected
-  // For the table, we need data filtered by array/region/date but NOT by species
+  // Compare mode versions of the cards, activity and species charts, map and
+  // comparison table
+  const comparedDateLabels = comparedFilters?.map(filters => getDateRangeLabel(dateSteps, getFilterDateRange(filters)));
+  const comparedActivity = comparedSummaries
+    ? getComparisonActivity(
+        COMPARE_SETS.map((set, i) => ({ set, summary: comparedSummaries[i] })),
+        activityView,
+        showActivityProportion,
+        chartData.map(row => String(row.label))
+      )
+    : null;
+  const speciesChartMetric = speciesView === 'cameras' ? 'cameras' : abundanceMetric;
+  const comparedSpeciesChartData = comparedSummaries && comparedSpeciesTotals
+    ? getSpeciesComparison(
+        getSpeciesValues(comparedSpeciesTotals[0], comparedSummaries[0].totalCameraNights, speciesChartMetric),
+        getSpeciesValues(comparedSpeciesTotals[1], comparedSummaries[1].totalCameraNights, speciesChartMetric)
+      ).slice(0, 15).map(row => ({ species: row.label, A: row.a, B: row.b }))
+    : [];
+  const comparisonSummaryRows = comparedSummaries ? getSummaryComparison(comparedSummaries[0], comparedSummaries[1], countLabel) : [];
+  const comparisonSpeciesRows = comparedSummaries && comparedSpeciesTotals
+    ? getSpeciesComparison(
+        getSpeciesValues(comparedSpeciesTotals[0], comparedSummaries[0].totalCameraNights, abundanceMetric),
+        getSpeciesValues(comparedSpeciesTotals[1], comparedSummaries[1].totalCameraNights, abundanceMetric)
+      )
+    : [];
+  const mapComparison = comparedSummaries
+    ? COMPARE_SETS.map((set, i) => ({
+        name: `Set ${set}`,
+        color: COMPARE_COLORS[set],
+        points: comparedSummaries[i].locations.map(loc => ({
+          lat: loc.lat,
+          lng: loc.lng,
+          species: [],
+          totalCount: loc.totalCount,
+          cameraNights: loc.cameraNights
+        }))
+      }))
+    : null;
+
+  const handleDownloadComparison = () => {
+    const rows = [...comparisonSummaryRows, ...comparisonSpeciesRows].map(row => ({
+      measure: row.label,
+      setA: row.a,
+      setB: row.b,
+      difference: Number(row.difference.toFixed(2)),
+      ratio: row.ratio === null ? '' : Number(row.ratio.toFixed(3))
+    }));
+    exportToCSV(rows, `filter-set-comparison-${new Date().toISOString().split('T')[0]}.csv`);
+  };
+
+  // Array table is computed when an array is selected, from data filtered
+  // by array/region/date but NOT by species
   const showArrayTable = !selectedArrayNames.includes('All') && selectedArrayNames.length > 0;
-  const arrayFilteredData = showArrayTable ? (() => {
-    let data = [...allData];
-    // Filter by region
-    if (selectedRegions.length > 0 && !selectedRegions.includes('All')) {
-      data = data.filter(d => selectedRegions.includes(d.region));
-    }
-    // Filter by array name
-    if (selectedArrayNames.length > 0 && !selectedArrayNames.includes('All')) {
-      data = data.filter(d => selectedArrayNames.includes(d.arrayName));
-    }
-    // Filter by date range
-    data = data.filter(d => {
-      if (!d.startTime) return false;
-      const date = new Date(d.startTime);
-      if (isNaN(date.getTime())) return false;
-      const year = date.getFullYear();
-      const month = date.getMonth();
-      const monthIndex = (year - 2017) * 12 + month;
-      return monthIndex >= dateRange[0] && monthIndex <= dateRange[1];
-    });
-    return data;
-  })() : [];
-  const arraySpeciesTable = showArrayTable ? getArraySpeciesTable(arrayFilteredData) : [];
+  const arraySpeciesTable = showArrayTable ? currentSummary?.arraySpeciesTable || [] : [];
 
   if (loading) {
     return (
@@ -350,28 +1138,62 @@ function App() {
       <div className="summary-cards">
         <div className="summary-card">
           <div className="summary-card-icon">📊</div>
-          <div className="summary-card-label">Total Detections</div>
-          <div className="summary-card-value">{filteredData.reduce((sum, d) => sum + (d.groupSize || 1), 0).toLocaleString()}</div>
+          <div className="summary-card-label">Total {countLabel}</div>
+          <div className="summary-card-value">
+            {comparedSummaries
+              ? <CompareValues values={[comparedSummaries[0].totalCount.toLocaleString(), comparedSummaries[1].totalCount.toLocaleString()]} />
+              : (currentSummary?.totalCount || 0).toLocaleString()}
+          </div>
         </div>
         <div className="summary-card">
           <div className="summary-card-icon">🦌</div>
           <div className="summary-card-label">Species Selected</div>
-          <div className="summary-card-value">{selectedSpecies.join(', ')}</div>
+          <div className="summary-card-value">
+            {comparedFilters
+              ? <CompareValues values={[comparedFilters[0].species.join(', '), comparedFilters[1].species.join(', ')]} />
+              : selectedSpecies.join(', ')}
+          </div>
         </div>
         <div className="summary-card">
           <div className="summary-card-icon">📅</div>
           <div className="summary-card-label">Date Range</div>
-          <div className="summary-card-value">{dateLabels[dateRange[0]]} - {dateLabels[dateRange[1]]}</div>
+          <div className="summary-card-value">
+            {comparedDateLabels ? <CompareValues values={[comparedDateLabels[0], comparedDateLabels[1]]} /> : dateRangeLabel}
+          </div>
         </div>
         <div className="summary-card">
           <div className="summary-card-icon">📷</div>
           <div className="summary-card-label">Camera Locations</div>
-          <div className="summary-card-value">{totalCameraLocations}</div>
+          <div className="summary-card-value">
+            {comparedSummaries
+              ? <CompareValues values={[String(comparedSummaries[0].totalCameraLocations), String(comparedSummaries[1].totalCameraLocations)]} />
+              : totalCameraLocations}
+          </div>
+        </div>
+        <div className="summary-card">
+          <div className="summary-card-icon">🌙</div>
+          <div className="summary-card-label">Camera-Nights</div>
+          <div className="summary-card-value">
+            {comparedSummaries
+              ? (
+                <CompareValues
+                  values={[
+                    Math.round(comparedSummaries[0].totalCameraNights).toLocaleString(),
+                    Math.round(comparedSummaries[1].totalCameraNights).toLocaleString()
+                  ]}
+                />
+              )
+              : Math.round(totalCameraNights).toLocaleString()}
+          </div>
         </div>
         <div className="summary-card">
           <div className="summary-card-icon">📹</div>
           <div className="summary-card-label">Cameras with Detections</div>
-          <div className="summary-card-value">{distinctCamerasWithDetections}</div>
+          <div className="summary-card-value">
+            {comparedSummaries
+              ? <CompareValues values={[String(comparedSummaries[0].distinctCameras), String(comparedSummaries[1].distinctCameras)]} />
+              : distinctCamerasWithDetections}
+          </div>
         </div>
       </div>
 
@@ -380,163 +1202,256 @@ function App() {
         <aside className="sidebar">
           <div className="sidebar-panel">
             <h2 className="sidebar-title">Filters</h2>
-            
-            <div className="filter-section">
-              <label className="filter-label" htmlFor="species-search">
-                Species of Interest
-              </label>
-              <input
-                id="species-search"
-                type="text"
-                className="species-search-input"
-                placeholder="Search species..."
-                value={speciesSearch}
-                onChange={(e) => setSpeciesSearch(e.target.value)}
-              />
-              <div className="species-select-container">
-                <select
-                  id="species-select"
-                  className="filter-select species-multiselect"
-                  multiple
-                  size={10}
-                  value={selectedSpecies}
-                  onChange={(e) => {
-                    const options = Array.from(e.target.selectedOptions, option => option.value);
-                    setSelectedSpecies(options.length > 0 ? options : ['All']);
-                  }}
-                >
-                  {species
-                    .filter(sp => sp.toLowerCase().includes(speciesSearch.toLowerCase()))
-                    .map((sp) => (
-                      <option key={sp} value={sp}>
-                        {sp}
-                      </option>
-                    ))}
-                </select>
-              </div>
-              <button 
-                className="clear-species-btn"
-                onClick={() => {
-                  setSelectedSpecies(['All']);
-                  setSpeciesSearch('');
-                }}
-              >
-                Clear Selection
+
+            <div className="filter-section compare-controls">
+              <button className="clear-species-btn" onClick={handleCompareToggle}>
+                {compareMode ? 'Stop Comparing' : 'Compare Two Filter Sets'}
               </button>
-              <p className="filter-hint">Hold Ctrl/Cmd to select multiple</p>
+              {compareMode && (
+                <>
+                  <div className="activity-toggle">
+                    {COMPARE_SETS.map(set => (
+                      <button
+                        key={set}
+                        className={`toggle-btn ${editingSet === set ? 'active' : ''}`}
+                        onClick={() => handleEditingSetChange(set)}
+                      >
+                        <span className="comparison-swatch" style={{ background: COMPARE_COLORS[set] }} />
+                        Edit Set {set}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="filter-hint">
+                    The filters below are set {editingSet}. Sections that don't compare the two sets follow set {editingSet}.
+                  </p>
+                </>
+              )}
             </div>
 
+            <MultiSelectFilter
+              id="species"
+              label="Species of Interest"
+              options={species}
+              selected={selectedSpecies}
+              onChange={setSelectedSpecies}
+              size={10}
+              searchPlaceholder="Search species..."
+            />
+
+            <MultiSelectFilter
+              id="region"
+              label="Region"
+              options={regions}
+              selected={selectedRegions}
+              onChange={setSelectedRegions}
+              searchPlaceholder="Search regions..."
+            />
+
+            <MultiSelectFilter
+              id="array"
+              label="Array Name"
+              options={arrayNames}
+              selected={selectedArrayNames}
+              onChange={setSelectedArrayNames}
+              searchPlaceholder="Search arrays..."
+            />
+
+            {mapArea.length > 0 && (
+              <div className="filter-section">
+                <label className="filter-label">Map Area</label>
+                <p className="filter-hint">
+                  {mapArea.length} drawn area{mapArea.length === 1 ? '' : 's'}; only cameras inside are included
+                </p>
+                <button className="clear-species-btn" onClick={() => setMapArea([])} style={{ marginTop: '8px' }}>
+                  Clear Map Area
+                </button>
+              </div>
+            )}
+
+            <BoundaryLayersPanel
+              layers={boundaryLayers}
+              filters={boundaryFilters}
+              hidden={hiddenBoundaryLayers}
+              colors={boundaryColors}
+              onAdd={handleBoundaryLayersAdd}
+              onRemove={handleBoundaryLayerRemove}
+              onFilterChange={handleBoundaryFilterChange}
+              onVisibilityChange={(layerId, visible) => setHiddenBoundaryLayers(visible
+                ? hiddenBoundaryLayers.filter(id => id !== layerId)
+                : [...hiddenBoundaryLayers, layerId])}
+            />
+
+            <MultiSelectFilter
+              id="order"
+              label="Order"
+              options={orders}
+              selected={selectedOrders}
+              onChange={setSelectedOrders}
+              searchPlaceholder="Search orders..."
+            />
+
+            <MultiSelectFilter
+              id="family"
+              label="Family"
+              options={families}
+              selected={selectedFamilies}
+              onChange={setSelectedFamilies}
+              searchPlaceholder="Search families..."
+            />
+
+            <MultiSelectFilter
+              id="genus"
+              label="Genus"
+              options={genera}
+              selected={selectedGenera}
+              onChange={setSelectedGenera}
+              searchPlaceholder="Search genera..."
+            />
+
+            <MultiSelectFilter
+              id="age"
+              label="Age Class"
+              options={ageClasses}
+              selected={selectedAgeClasses}
+              onChange={setSelectedAgeClasses}
+              size={4}
+            />
+
+            <MultiSelectFilter
+              id="sex"
+              label="Sex"
+              options={sexes}
+              selected={selectedSexes}
+              onChange={setSelectedSexes}
+              size={4}
+            />
+
             <div className="filter-section">
-              <label className="filter-label" htmlFor="region-search">
-                Region
+              <label className="filter-label">
+                Date Range
               </label>
-              <input
-                id="region-search"
-                type="text"
-                className="species-search-input"
-                placeholder="Search regions..."
-                value={regionSearch}
-                onChange={(e) => setRegionSearch(e.target.value)}
-              />
-              <div className="species-select-container">
-                <select
-                  id="region-select"
-                  className="filter-select species-multiselect"
-                  multiple
-                  size={6}
-                  value={selectedRegions}
-                  onChange={(e) => {
-                    const options = Array.from(e.target.selectedOptions, option => option.value);
-                    setSelectedRegions(options.length > 0 ? options : ['All']);
-                  }}
+              <div className="activity-toggle date-resolution-toggle">
+                <button
+                  className={`toggle-btn ${dateResolution === 'month' ? 'active' : ''}`}
+                  onClick={() => handleDateResolutionChange('month')}
                 >
-                  {regions
-                    .filter(region => region.toLowerCase().includes(regionSearch.toLowerCase()))
-                    .map((region) => (
-                      <option key={region} value={region}>
-                        {region}
-                      </option>
-                    ))}
-                </select>
+                  Month
+                </button>
+                <button
+                  className={`toggle-btn ${dateResolution === 'season' ? 'active' : ''}`}
+                  onClick={() => handleDateResolutionChange('season')}
+                >
+                  Season
+                </button>
+                <button
+                  className={`toggle-btn ${dateResolution === 'day' ? 'active' : ''}`}
+                  onClick={() => handleDateResolutionChange('day')}
+                >
+                  Day
+                </button>
               </div>
-              <button 
-                className="clear-species-btn"
-                onClick={() => {
-                  setSelectedRegions(['All']);
-                  setRegionSearch('');
-                }}
-              >
-                Clear Selection
-              </button>
-              <p className="filter-hint">Hold Ctrl/Cmd to select multiple</p>
+              <div className="date-range-display">
+                {dateRangeLabel}
+              </div>
+              <Slider
+                range
+                min={0}
+                max={Math.max(0, dateSteps.length - 1)}
+                value={dateRange}
+                onChange={(value) => setDateRange(value as [number, number])}
+                marks={getSliderMarks(dateSteps)}
+              />
             </div>
 
             <div className="filter-section">
-              <label className="filter-label" htmlFor="array-search">
-                Array Name
+              <label className="filter-label">
+                Count Detections As
               </label>
-              <input
-                id="array-search"
-                type="text"
-                className="species-search-input"
-                placeholder="Search arrays..."
-                value={arrayNameSearch}
-                onChange={(e) => setArrayNameSearch(e.target.value)}
-              />
-              <div className="species-select-container">
-                <select
-                  id="array-select"
-                  className="filter-select species-multiselect"
-                  multiple
-                  size={6}
-                  value={selectedArrayNames}
-                  onChange={(e) => {
-                    const options = Array.from(e.target.selectedOptions, option => option.value);
-                    setSelectedArrayNames(options.length > 0 ? options : ['All']);
-                  }}
+              <div className="activity-toggle">
+                <button
+                  className={`toggle-btn ${countMode === 'raw' ? 'active' : ''}`}
+                  onClick={() => setCountMode('raw')}
                 >
-                  {arrayNames
-                    .filter(arrayName => arrayName.toLowerCase().includes(arrayNameSearch.toLowerCase()))
-                    .map((arrayName) => (
-                      <option key={arrayName} value={arrayName}>
-                        {arrayName}
-                      </option>
-                    ))}
-                </select>
+                  Raw Rows
+                </button>
+                <button
+                  className={`toggle-btn ${countMode === 'events' ? 'active' : ''}`}
+                  onClick={() => setCountMode('events')}
+                >
+                  Independent Events
+                </button>
               </div>
-              <button 
-                className="clear-species-btn"
-                onClick={() => {
-                  setSelectedArrayNames(['All']);
-                  setArrayNameSearch('');
-                }}
-              >
-                Clear Selection
-              </button>
-              <p className="filter-hint">Hold Ctrl/Cmd to select multiple</p>
+              {countMode === 'events' && (
+                <>
+                  <label className="filter-label" htmlFor="event-threshold" style={{ marginTop: '12px' }}>
+                    Independence Threshold (minutes)
+                  </label>
+                  <input
+                    id="event-threshold"
+                    type="number"
+                    min={1}
+                    className="species-search-input"
+                    value={eventThreshold}
+                    onChange={(e) => setEventThreshold(Math.max(1, parseInt(e.target.value) || 1))}
+                  />
+                  <p className="filter-hint">
+                    Detections of the same species at the same deployment within this window count as one event
+                  </p>
+                </>
+              )}
             </div>
 
             <div className="filter-section">
               <label className="filter-label">
-                Date Range
+                Abundance Metric
               </label>
-              <div className="date-range-display">
-                {dateLabels[dateRange[0]]} - {dateLabels[dateRange[1]]}
+              <div className="activity-toggle">
+                <button
+                  className={`toggle-btn ${abundanceMetric === 'count' ? 'active' : ''}`}
+                  onClick={() => setAbundanceMetric('count')}
+                >
+                  Counts
+                </button>
+                <button
+                  className={`toggle-btn ${abundanceMetric === 'rai' ? 'active' : ''}`}
+                  onClick={() => setAbundanceMetric('rai')}
+                >
+                  RAI
+                </button>
               </div>
-              <Slider
-                range
-                min={minDate}
-                max={maxDate}
-                value={dateRange}
-                onChange={(value) => setDateRange(value as [number, number])}
-                marks={{
-                  0: '2017',
-                  24: '2019',
-                  48: '2021',
-                  72: '2023',
-                  96: '2025'
-                }}
-              />
+              <p className="filter-hint">
+                RAI is {countLabel.toLowerCase()} per 100 camera-nights of sampling effort
+              </p>
+            </div>
+
+            <div className="filter-section">
+              <button
+                className="clear-species-btn"
+                onClick={() => setShowDataImport(!showDataImport)}
+              >
+                {showDataImport ? 'Hide Data Import' : 'Load Local CSV Files'}
+              </button>
+              {isImportedData && (
+                <p className="filter-hint">Showing imported data</p>
+              )}
+              <button
+                className="clear-species-btn sidebar-stacked-btn"
+                onClick={() => setShowDataQuality(!showDataQuality)}
+              >
+                {showDataQuality ? 'Hide Data Quality Report' : 'Show Data Quality Report'}
+              </button>
+              <button
+                className="clear-species-btn sidebar-stacked-btn"
+                onClick={() => setShowOccupancyExport(!showOccupancyExport)}
+              >
+                {showOccupancyExport ? 'Hide Occupancy Export' : 'Occupancy Detection Histories'}
+              </button>
+              <button
+                className="clear-species-btn sidebar-stacked-btn"
+                onClick={() => setShowGallery(!showGallery)}
+              >
+                {showGallery ? 'Hide Photo Gallery' : 'Show Photo Gallery'}
+              </button>
             </div>
 
             <div className="filter-section">
@@ -571,16 +1486,192 @@ function App() {
 
         {/* Main Content */}
         <main className="content">
+          {/* Data Import */}
+          {showDataImport && (
+            <section className="dashboard-section">
+              <div className="section-header">
+                <h2 className="section-title">📂 Load Detection Data</h2>
+              </div>
+              <div className="section-body">
+                <DataImport
+                  isModified={isImportedData}
+                  onDataChange={(update, mode) => handleDatasetChange(
+                    { ...update, reports: mode === 'replace' ? update.reports : [...datasetReports, ...update.reports] },
+                    true
+                  )}
+                  onReset={() => resetDataset().then(update => handleDatasetChange(update, false))}
+                />
+              </div>
+            </section>
+          )}
+
+          {/* Filter Set Comparison */}
+          {compareMode && (
+            <section className="dashboard-section">
+              <div className="section-header">
+                <h2 className="section-title">⚖️ Filter Set Comparison</h2>
+                <div className="header-actions">
+                  <button onClick={handleDownloadComparison} className="download-chart-btn" disabled={!comparedSummaries}>
+                    ⬇ Download CSV
+                  </button>
+                </div>
+              </div>
+              <div className="section-body">
+                {comparedFilters && comparedDateLabels && (
+                  <ul className="comparison-sets">
+                    {COMPARE_SETS.map((set, i) => (
+                      <li key={set}>
+                        <span className="comparison-swatch" style={{ background: COMPARE_COLORS[set] }} />
+                        <strong>Set {set}</strong> {describeFilterSet(comparedFilters[i], comparedDateLabels[i])}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {comparedSummaries ? (
+                  <ComparisonTable
+                    summaryRows={comparisonSummaryRows}
+                    speciesRows={comparisonSpeciesRows}
+                    valueLabel={showRAI ? raiLabel : countLabel}
+                  />
+                ) : (
+                  <div className="no-data">Summarizing both filter sets…</div>
+                )}
+              </div>
+              <div className="chart-description">
+                <p>
+                  Each row compares set A with set B: the difference is B − A and the ratio B / A, so a ratio above 1
+                  means more in set B. Species rows show {showRAI ? raiLabel.toLowerCase() : countLabel.toLowerCase()} for
+                  every species detected in either set. The summary cards, activity chart, species chart and map show
+                  both sets; use Edit Set A and Edit Set B in the sidebar to change each set's filters.
+                </p>
+              </div>
+            </section>
+          )}
+
           {/* Detection Map */}
           <section className="dashboard-section">
             <div className="section-header">
               <h2 className="section-title">📍 Detection Map</h2>
+              <div className="header-actions">
+                {!compareMode && (
+                  <div className="activity-toggle">
+                    <button
+                      className={`toggle-btn ${mapLayer === 'markers' ? 'active' : ''}`}
+                      onClick={() => setMapLayer('markers')}
+                    >
+                      Markers
+                    </button>
+                    <button
+                      className={`toggle-btn ${mapLayer === 'heatmap' ? 'active' : ''}`}
+                      onClick={() => setMapLayer('heatmap')}
+                    >
+                      Heatmap
+                    </button>
+                    <button
+                      className={`toggle-btn ${mapLayer === 'hexbin' ? 'active' : ''}`}
+                      onClick={() => setMapLayer('hexbin')}
+                    >
+                      Hexbins
+                    </button>
+                  </div>
+                )}
+                <select
+                  className="filter-select"
+                  value={basemap.id}
+                  onChange={(e) => setBasemapId(e.target.value)}
+                  aria-label="Basemap"
+                >
+                  {basemaps.map(source => <option key={source.id} value={source.id}>{source.name}</option>)}
+                </select>
+                {mapLayer === 'markers' && !compareMode && (
+                  <div className="activity-toggle">
+                    <button
+                      className={`toggle-btn ${clusterMarkers ? 'active' : ''}`}
+                      onClick={() => setClusterMarkers(!clusterMarkers)}
+                    >
+                      Cluster Markers
+                    </button>
+                  </div>
+                )}
+                <button onClick={handleExportMap} className="download-chart-btn" disabled={playbackActive}>
+                  ⬇ Export Map
+                </button>
+              </div>
             </div>
-            <div className="detection-map-container">
-              <MapView points={mapPoints} />
+            <PlaybackControls
+              playing={playing}
+              onPlayToggle={handlePlayToggle}
+              windowSize={playbackWindow}
+              onWindowSizeChange={handlePlaybackWindowChange}
+              interval={playbackInterval}
+              onIntervalChange={setPlaybackInterval}
+              unit={dateResolution}
+              label={dateRangeLabel}
+              exportProgress={playbackExport}
+              onExport={handleExportPlayback}
+              exportError={playbackExportError}
+              disabled={dateSteps.length === 0}
+            />
+            <SpatialFilterControls
+              area={mapArea}
+              drawMode={drawMode}
+              onDrawModeChange={setDrawMode}
+              onAreaChange={setMapArea}
+            />
+            <div className="detection-map-container" ref={mapContainerRef}>
+              {playbackActive && <div className="map-playback-label">{dateRangeLabel}</div>}
+              <MapView
+                points={mapPoints}
+                metric={abundanceMetric}
+                layer={mapLayer}
+                basemap={basemap}
+                onSelectLocation={(lat, lng) => setSelectedSite({ lat, lng })}
+                comparison={mapComparison}
+                clusterMarkers={clusterMarkers}
+                area={mapArea}
+                boundaries={boundaryFilters
+                  .filter(f => !hiddenBoundaryLayers.includes(f.layerId))
+                  .flatMap(f => {
+                    const layer = boundaryLayers.find(l => l.id === f.layerId);
+                    return layer ? [{ layer, attribute: f.attribute, color: boundaryColors[layer.id] }] : [];
+                  })}
+                drawMode={drawMode}
+                onShapeDrawn={(shape) => {
+                  setMapArea([...mapArea, shape]);
+                  setDrawMode(null);
+                }}
+                onDrawCancel={() => setDrawMode(null)}
+                viewport={mapViewport}
+                onViewportChange={setMapViewport}
+              />
             </div>
           </section>
 
+          {/* Photo Gallery */}
+          {showGallery && (
+            <section className="dashboard-section" ref={galleryRef}>
+              <div className="section-header">
+                <h2 className="section-title">📷 Photo Gallery</h2>
+              </div>
+              <PhotoGallery
+                filters={detectionQuery.filters}
+                datasetVersion={datasetVersion}
+                source={imageSource}
+                onSourceChange={setImageSource}
+                camera={galleryCamera}
+                onClearCamera={() => setGalleryCamera(null)}
+              />
+              <div className="chart-description">
+                <p>
+                  The gallery shows a thumbnail for each sequence (burst of photos) matching the sidebar filters,
+                  newest first, and updates as the filters change. Click a thumbnail to step through its photos. Photos
+                  are found by a URL template using {'{sequenceId}'} and {'{deploymentId}'}, a manifest JSON mapping
+                  sequence ids to image files, or a local folder of photos named or grouped by sequence id.
+                </p>
+              </div>
+            </section>
+          )}
+
           {/* Animal Activity */}
           <section className="dashboard-section">
             <div className="section-header">
@@ -599,7 +1690,55 @@ function App() {
                   >
                     by Month
                   </button>
+                  <button
+                    className={`toggle-btn ${activityView === 'diel' ? 'active' : ''}`}
+                    onClick={() => setActivityView('diel')}
+                  >
+                    Diel Density
+                  </button>
                 </div>
+                {activityView !== 'diel' && (
+                  <div className="activity-toggle">
+                    <button
+                      className={`toggle-btn ${activityScale === 'count' ? 'active' : ''}`}
+                      onClick={() => setActivityScale('count')}
+                    >
+                      Counts
+                    </button>
+                    <button
+                      className={`toggle-btn ${activityScale === 'proportion' ? 'active' : ''}`}
+                      onClick={() => setActivityScale('proportion')}
+                      title="Scale each line to a proportion of that species' total"
+                    >
+                      Proportion
+                    </button>
+                  </div>
+                )}
+                {activityView !== 'month' && (
+                  <div className="activity-toggle">
+                    <button
+                      className={`toggle-btn ${timeBasis === 'clock' ? 'active' : ''}`}
+                      onClick={() => setTimeBasis('clock')}
+                      title="Camera clock time"
+                    >
+                      Clock
+                    </button>
+                    <button
+                      className={`toggle-btn ${timeBasis === 'solar' ? 'active' : ''}`}
+                      onClick={() => setTimeBasis('solar')}
+                      title="Apparent solar time at each camera (12:00 is solar noon)"
+                    >
+                      Solar
+                    </button>
+                    <button
+                      className={`toggle-btn ${timeBasis === 'sun' ? 'active' : ''}`}
+                      onClick={() => setTimeBasis('sun')}
+                      title="Time relative to sunrise (6:00) and sunset (18:00) at each camera on the day of detection"
+                    >
+                      by Sun Time
+                    </button>
+                  </div>
+                )}
                 <button onClick={handleDownloadChart} className="download-chart-btn">
                   ⬇ Download Chart
                 </button>
@@ -608,17 +1747,19 @@ function App() {
 
             <div className="chart-container" ref={chartRef}>
               <ResponsiveContainer width="100%" height={400}>
-                <LineChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+                <LineChart data={comparedActivity ? comparedActivity.data : chartData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
                   <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
                   <XAxis 
                     dataKey="label" 
                     stroke="#666"
                     style={{ fontSize: '12px' }}
+                    interval={activityView === 'diel' ? 35 : 'preserveEnd'}
                   />
                   <YAxis 
                     stroke="#666"
                     style={{ fontSize: '12px' }}
-                    label={{ value: 'Detections', angle: -90, position: 'insideLeft' }}
+                    tickFormatter={activityView === 'diel' || showActivityProportion ? (value: number) => value.toFixed(2) : undefined}
+                    label={{ value: activityAxisLabel, angle: -90, position: 'insideLeft' }}
                   />
                   <Tooltip 
                     contentStyle={{ 
@@ -628,26 +1769,87 @@ function App() {
                     }}
                   />
                   <Legend />
-                  <Line 
-                    type="monotone" 
-                    dataKey="count" 
-                    stroke="#4A90E2" 
-                    strokeWidth={3}
-                    dot={{ fill: '#357ABD', r: 4 }}
-                    activeDot={{ r: 6 }}
-                    name="Detections"
-                  />
+                  {activityView !== 'month' && timeBasis === 'sun' && (
+                    <ReferenceLine x="6:00" stroke="#f39c12" strokeDasharray="4 4" label={{ value: 'Sunrise', position: 'top', fill: '#f39c12' }} />
+                  )}
+                  {activityView !== 'month' && timeBasis === 'sun' && (
+                    <ReferenceLine x="18:00" stroke="#34495e" strokeDasharray="4 4" label={{ value: 'Sunset', position: 'top', fill: '#34495e' }} />
+                  )}
+                  {comparedActivity
+                    ? comparedActivity.lines.map(line => {
+                        const color = line.species ? getSpeciesColor(line.species) : COMPARE_COLORS[line.set];
+                        return (
+                          <Line
+                            key={line.key}
+                            type="monotone"
+                            dataKey={line.key}
+                            stroke={color}
+                            strokeWidth={3}
+                            strokeDasharray={line.set === 'B' ? '6 4' : undefined}
+                            dot={activityView === 'diel' ? false : { fill: color, r: 3 }}
+                            name={line.name}
+                            isAnimationActive={false}
+                          />
+                        );
+                      })
+                    : activityView === 'diel'
+                    ? dielCurves.map(curve => (
+                        <Line
+                          key={curve.species}
+                          type="monotone"
+                          dataKey={curve.species}
+                          stroke={curve.species === 'All Species' ? '#4A90E2' : getSpeciesColor(curve.species)}
+                          strokeWidth={3}
+                          dot={false}
+                          name={`${curve.species} (n = ${curve.sampleSize.toLocaleString()})`}
+                          isAnimationActive={false}
+                        />
+                      ))
+                    : activitySeries.length > 0
+                    ? activitySeries.map(series => (
+                        <Line
+                          key={series.species}
+                          type="monotone"
+                          dataKey={series.species}
+                          stroke={getSpeciesColor(series.species)}
+                          strokeWidth={3}
+                          dot={{ fill: getSpeciesColor(series.species), r: 3 }}
+                          activeDot={{ r: 5 }}
+                          name={series.species}
+                        />
+                      ))
+                    : (
+                      <Line 
+                        type="monotone" 
+                        dataKey="count" 
+                        stroke="#4A90E2" 
+                        strokeWidth={3}
+                        dot={{ fill: '#357ABD', r: 4 }}
+                        activeDot={{ r: 6 }}
+                        name={countLabel}
+                      />
+                    )}
                 </LineChart>
               </ResponsiveContainer>
             </div>
 
             <div className="chart-description">
               <p>
-                {activityView === 'hour' 
-                  ? 'This chart shows detection patterns throughout the day. Each point represents the total number of detections during that hour across all selected dates.'
-                  : 'This chart shows detection patterns throughout the year. Each point represents the total number of detections during that month across all selected years.'
+                {activityView === 'diel'
+                  ? `This chart shows a smoothed estimate of when each selected species is active across the day (circular kernel density of detection times in ${timeBasisLabel}). The area under each curve is 1, so species with very different numbers of detections can be compared directly.`
+                  : activityView === 'hour' 
+                  ? `This chart shows detection patterns throughout the day. Each point represents the total number of detections during that hour (${timeBasisLabel}) across all selected dates. ${activitySeriesNote}`
+                  : `This chart shows detection patterns throughout the year. Each point represents the total number of detections during that month across all selected years. ${activitySeriesNote}`
                 }
+                {comparedActivity && ' Set A is drawn with solid lines and set B with dashed lines.'}
               </p>
+              {activityView === 'diel' && (
+                <ActivityOverlapPanel
+                  curves={dielCurves}
+                  query={detectionQuery}
+                  datasetVersion={datasetVersion}
+                />
+              )}
             </div>
           </section>
 
@@ -678,7 +1880,7 @@ function App() {
 
             <div className="chart-container" ref={speciesChartRef}>
               <ResponsiveContainer width="100%" height={400}>
-                <BarChart data={speciesChartData} margin={{ top: 20, right: 30, left: 70, bottom: 80 }}>
+                <BarChart data={comparedSummaries ? comparedSpeciesChartData : speciesChartData} margin={{ top: 20, right: 30, left: 70, bottom: 80 }}>
                   <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
                   <XAxis 
                     dataKey="species" 
@@ -692,7 +1894,7 @@ function App() {
                     stroke="#666"
                     style={{ fontSize: '12px' }}
                     label={{ 
-                      value: speciesView === 'frequency' ? 'Detections' : 'Distinct Cameras', 
+                      value: speciesView === 'frequency' ? (showRAI ? raiLabel : countLabel) : 'Distinct Cameras', 
                       angle: -90, 
                       position: 'insideLeft' 
                     }}
@@ -704,23 +1906,347 @@ function App() {
                       borderRadius: '8px'
                     }}
                   />
-                  <Bar 
-                    dataKey="count" 
-                    fill={speciesView === 'frequency' ? '#4A90E2' : '#2ECC71'}
-                    name={speciesView === 'frequency' ? 'Detection Count' : 'Distinct Cameras'}
-                  />
+                  {comparedSummaries ? (
+                    COMPARE_SETS.map(set => <Bar key={set} dataKey={set} fill={COMPARE_COLORS[set]} name={`Set ${set}`} />)
+                  ) : (
+                    <Bar 
+                      dataKey="count" 
+                      fill={speciesView === 'frequency' ? '#4A90E2' : '#2ECC71'}
+                      name={speciesView === 'frequency' ? (showRAI ? 'RAI' : countLabel) : 'Distinct Cameras'}
+                    />
+                  )}
+                  {comparedSummaries && <Legend />}
                 </BarChart>
               </ResponsiveContainer>
             </div>
             <div className="chart-description">
               <p>
                 {speciesView === 'frequency'
-                  ? 'This chart shows the species with the most individual detection events. Each bar represents the count of separate detections for that species.'
+                  ? `This chart shows the species with the most ${countLabel.toLowerCase()}. Each bar counts ${countLabel.toLowerCase()} for that species, not the individuals in each group.`
                   : 'This chart shows species ranked by the number of distinct cameras where they were detected. More cameras indicates wider distribution across the study area.'}
               </p>
             </div>
           </section>
 
+          {/* Multi-Year Trends */}
+          <section className="dashboard-section">
+            <div className="section-header">
+              <h2 className="section-title">📈 Multi-Year Trends</h2>
+              <div className="header-actions">
+                <div className="activity-toggle">
+                  <button
+                    className={`toggle-btn ${trendPeriod === 'year' ? 'active' : ''}`}
+                    onClick={() => setTrendPeriod('year')}
+                  >
+                    by Year
+                  </button>
+                  <button
+                    className={`toggle-btn ${trendPeriod === 'season' ? 'active' : ''}`}
+                    onClick={() => setTrendPeriod('season')}
+                  >
+                    by Season
+                  </button>
+                  <button
+                    className={`toggle-btn ${trendByRegion ? 'active' : ''}`}
+                    onClick={() => setTrendByRegion(!trendByRegion)}
+                  >
+                    Split by Region
+                  </button>
+                </div>
+                <button onClick={handleDownloadTrendChart} className="download-chart-btn">
+                  ⬇ Download Chart
+                </button>
+              </div>
+            </div>
+
+            <div className="section-body">
+              <TrendPanel
+                query={detectionQuery}
+                datasetVersion={datasetVersion}
+                period={trendPeriod}
+                splitByRegion={trendByRegion}
+                metric={abundanceMetric}
+                valueLabel={showRAI ? raiLabel : countLabel}
+                getColor={(name) => name === 'All Species' ? '#4A90E2' : getSpeciesColor(name)}
+                chartRef={trendChartRef}
+                comparisonChartRef={trendComparisonChartRef}
+                onDownloadComparison={handleDownloadTrendComparisonChart}
+              />
+            </div>
+            <div className="chart-description">
+              <p>
+                Each solid line shows {showRAI ? raiLabel.toLowerCase() : `the number of ${countLabel.toLowerCase()}`} per
+                {trendPeriod === 'year' ? ' year' : ' season'}. The dashed line and shaded band are a log-linear
+                (quasi-Poisson) trend with its 95% confidence interval{showRAI ? ', using camera-nights as sampling effort' : ''}
+                {trendPeriod === 'season' ? ', adjusted for seasonal differences' : ''}. Years or seasons with no cameras
+                running are left out. Pick two years below the table to compare them side by side.
+              </p>
+            </div>
+          </section>
+
+          {/* Nocturnal Activity */}
+          <section className="dashboard-section">
+            <div className="section-header">
+              <h2 className="section-title">🌙 Day, Twilight and Night Activity</h2>
+              <div className="header-actions">
+                <button onClick={handleDownloadDielPeriodChart} className="download-chart-btn">
+                  ⬇ Download Chart
+                </button>
+              </div>
+            </div>
+
+            <div className="chart-container" ref={dielPeriodChartRef}>
+              <ResponsiveContainer width="100%" height={400}>
+                <BarChart data={dielPeriodData} margin={{ top: 20, right: 30, left: 70, bottom: 80 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
+                  <XAxis 
+                    dataKey="species" 
+                    stroke="#666"
+                    angle={-45}
+                    textAnchor="end"
+                    height={100}
+                    style={{ fontSize: '11px' }}
+                  />
+                  <YAxis 
+                    stroke="#666"
+                    style={{ fontSize: '12px' }}
+                    domain={[0, 100]}
+                    label={{ value: `% of ${countLabel}`, angle: -90, position: 'insideLeft' }}
+                  />
+                  <Tooltip 
+                    formatter={(value: number) => `${value}%`}
+                    contentStyle={{ 
+                      background: 'white', 
+                      border: '2px solid #4A90E2',
+                      borderRadius: '8px'
+                    }}
+                  />
+                  <Legend verticalAlign="top" />
+                  <Bar dataKey="nocturnal" stackId="diel" fill="#34495e" name="Nocturnal" />
+                  <Bar dataKey="crepuscular" stackId="diel" fill="#f39c12" name="Crepuscular" />
+                  <Bar dataKey="diurnal" stackId="diel" fill="#f1c40f" name="Diurnal" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="chart-description">
+              <p>
+                This chart shows when the most detected species are active, ordered from most to least nocturnal.
+                Detections within an hour of sunrise or sunset are crepuscular; sunrise and sunset are calculated
+                for each camera's location on the day of the detection.
+              </p>
+            </div>
+          </section>
+
+          {/* Occupancy Export */}
+          {showOccupancyExport && (
+            <section className="dashboard-section">
+              <div className="section-header">
+                <h2 className="section-title">🗂 Occupancy Detection Histories</h2>
+              </div>
+              <div className="section-body">
+                <OccupancyExport
+                  datasetVersion={datasetVersion}
+                  filters={detectionQuery.filters}
+                  speciesOptions={species}
+                />
+              </div>
+            </section>
+          )}
+
+          {/* Data Quality Report */}
+          {showDataQuality && (
+            <section className="dashboard-section">
+              <div className="section-header">
+                <h2 className="section-title">🩺 Data Quality Report</h2>
+                <button onClick={handleDownloadQualityReport} className="download-chart-btn">
+                  ⬇ Download Report
+                </button>
+              </div>
+              <div className="section-body">
+                <DataQualityPanel issues={dataQualityIssues} />
+              </div>
+              <div className="chart-description">
+                <p>
+                  Rows dropped while loading the data, plus kept rows flagged for coordinates outside Michigan, timestamps outside their deployment window, duplicate sequence IDs, unusually large group sizes, or taxonomy that differs from other rows with the same common name. The report covers the full dataset, not just the current filters.
+                </p>
+              </div>
+            </section>
+          )}
+
+          {/* Species Accumulation */}
+          <section className="dashboard-section">
+            <div className="section-header">
+              <h2 className="section-title">🧮 Species Accumulation</h2>
+              <div className="header-actions">
+                <div className="activity-toggle">
+                  <button
+                    className={`toggle-btn ${accumulationAxis === 'cameras' ? 'active' : ''}`}
+                    onClick={() => setAccumulationAxis('cameras')}
+                  >
+                    by Cameras
+                  </button>
+                  <button
+                    className={`toggle-btn ${accumulationAxis === 'days' ? 'active' : ''}`}
+                    onClick={() => setAccumulationAxis('days')}
+                  >
+                    by Camera-Days
+                  </button>
+                </div>
+                <button onClick={handleDownloadAccumulationChart} className="download-chart-btn">
+                  ⬇ Download Chart
+                </button>
+                <button onClick={handleDownloadAccumulationCSV} className="download-chart-btn">
+                  ⬇ Download CSV
+                </button>
+              </div>
+            </div>
+
+            <div className="chart-container" ref={accumulationChartRef}>
+              <AccumulationChart
+                curves={accumulationCurves}
+                axis={accumulationAxis}
+                getColor={(group) => group === 'All Cameras' ? '#4A90E2' : getSpeciesColor(group)}
+              />
+            </div>
+            <div className="chart-description">
+              <p>
+                This chart shows how many species have been detected as {accumulationAxis === 'cameras' ? 'camera locations' : 'camera-days'} are
+                added in random order, averaged over 100 orders, for each selected array (or region, or all cameras when
+                neither is selected). The shaded envelope holds 95% of the random orders. A curve that levels off suggests
+                the array has been sampled long enough to detect most species present; one still rising suggests more
+                species remain to be found. Species filters are ignored here.
+              </p>
+            </div>
+          </section>
+
+          {/* Species Co-occurrence */}
+          <section className="dashboard-section">
+            <div className="section-header">
+              <h2 className="section-title">🤝 Species Co-occurrence</h2>
+              <div className="header-actions">
+                <div className="activity-toggle">
+                  <button
+                    className={`toggle-btn ${cooccurrenceMetric === 'veech' ? 'active' : ''}`}
+                    onClick={() => setCooccurrenceMetric('veech')}
+                  >
+                    Veech Score
+                  </button>
+                  <button
+                    className={`toggle-btn ${cooccurrenceMetric === 'jaccard' ? 'active' : ''}`}
+                    onClick={() => setCooccurrenceMetric('jaccard')}
+                  >
+                    Jaccard Index
+                  </button>
+                </div>
+                <select
+                  className="filter-select"
+                  value={cooccurrenceTopN}
+                  onChange={(e) => setCooccurrenceTopN(Number(e.target.value))}
+                  aria-label="Number of species"
+                >
+                  {[10, 15, 20].map(n => <option key={n} value={n}>Top {n} species</option>)}
+                </select>
+                <select
+                  className="filter-select"
+                  value={cooccurrenceWindow ?? ''}
+                  onChange={(e) => setCooccurrenceWindow(e.target.value ? Number(e.target.value) : null)}
+                  aria-label="Time window"
+                >
+                  <option value="">Any time</option>
+                  {COOCCURRENCE_WINDOWS.map(hours => (
+                    <option key={hours} value={hours}>
+                      Within {hours === 168 ? '1 week' : `${hours} hour${hours === 1 ? '' : 's'}`}
+                    </option>
+                  ))}
+                </select>
+                <button onClick={handleDownloadCooccurrenceChart} className="download-chart-btn">
+                  ⬇ Download Chart
+                </button>
+                <button onClick={handleDownloadCooccurrenceCSV} className="download-chart-btn">
+                  ⬇ Download CSV
+                </button>
+              </div>
+            </div>
+            <div className="section-body" ref={cooccurrenceChartRef}>
+              {cooccurrenceMatrix ? (
+                <CooccurrenceHeatmap
+                  matrix={cooccurrenceMatrix}
+                  metric={cooccurrenceMetric}
+                  selectedSpecies={selectedSpecies}
+                  onSelectPair={handleCooccurrencePairSelect}
+                />
+              ) : (
+                <div className="no-data">Computing co-occurrence…</div>
+              )}
+            </div>
+            <div className="chart-description">
+              <p>
+                Each cell compares two of the most widespread species by how many of the{' '}
+                {cooccurrenceMatrix?.sites.toLocaleString() ?? ''} camera locations recorded both {cooccurrenceWindowLabel}.
+                {cooccurrenceMetric === 'veech'
+                  ? ' The Veech score is the observed minus the expected number of shared locations, as a share of all locations, if each species occupied its locations independently. Green pairs share more locations than chance and red pairs fewer; an asterisk marks pairs whose hypergeometric probability is below 0.05.'
+                  : ' The Jaccard index is the number of shared locations divided by the number of locations where either species was detected, from 0 (never together) to 1 (always together).'}
+                {' '}Species filters are ignored here. Hover a cell for details, or click it to select both species in the
+                sidebar and filter the map.
+              </p>
+            </div>
+          </section>
+
+          {/* Community Summary */}
+          <section className="dashboard-section">
+            <div className="section-header">
+              <h2 className="section-title">🌲 Community Summary by {communityGroupLabel}</h2>
+              <div className="header-actions">
+                <div className="activity-toggle">
+                  <button
+                    className={`toggle-btn ${communityGrouping === 'arrayName' ? 'active' : ''}`}
+                    onClick={() => setCommunityGrouping('arrayName')}
+                  >
+                    by Array
+                  </button>
+                  <button
+                    className={`toggle-btn ${communityGrouping === 'region' ? 'active' : ''}`}
+                    onClick={() => setCommunityGrouping('region')}
+                  >
+                    by Region
+                  </button>
+                  {boundaryLayers.map(layer => (
+                    <button
+                      key={layer.id}
+                      className={`toggle-btn ${communityGrouping === `boundary:${layer.id}` ? 'active' : ''}`}
+                      onClick={() => setCommunityGrouping(`boundary:${layer.id}`)}
+                    >
+                      by {layer.name}
+                    </button>
+                  ))}
+                </div>
+                <button onClick={handleDownloadCommunityTable} className="download-chart-btn">
+                  ⬇ Download Table
+                </button>
+              </div>
+            </div>
+            <div className="section-body">
+              <CommunitySummaryTable
+                rows={communityRows}
+                groupLabel={communityGroupLabel}
+                countLabel={countLabel}
+                selected={communityBoundary
+                  ? communityBoundary.values
+                  : communityGrouping === 'region' ? selectedRegions : selectedArrayNames}
+                onSelect={handleCommunityRowSelect}
+              />
+            </div>
+            <div className="chart-description">
+              <p>
+                Every {communityGroupLabel.toLowerCase()} is compared over the selected dates, whatever the other filters.
+                Observed richness counts species detected; Chao1 estimates total richness from how many species were
+                detected only once or twice. Shannon and Simpson diversity use each species' share of {countLabel.toLowerCase()}.
+                Naive occupancy is the share of cameras that detected the chosen species, without correcting for imperfect
+                detection. Click a column to sort, or a row to filter the dashboard to that {communityGroupLabel.toLowerCase()}.
+              </p>
+            </div>
+          </section>
+
           {/* Array Species Table */}
           {showArrayTable && (
             <section className="dashboard-section">
@@ -735,7 +2261,8 @@ function App() {
                   <thead>
                     <tr>
                       <th>Species</th>
-                      <th>Total Detections</th>
+                      <th>{showRAI ? raiLabel : `Total ${countLabel}`}</th>
+                      <th>Individuals</th>
                       <th>Distinct Cameras</th>
                       <th>Total Cameras in Array</th>
                       <th>Proportion (%)</th>
@@ -745,6 +2272,7 @@ function App() {
                     {arraySpeciesTable.map((row) => (
                       <tr key={row.species}>
                         <td>{row.species}</td>
+                        <td>{showRAI ? row.rai : row.detections}</td>
                         <td>{row.totalGroupSize}</td>
                         <td>{row.distinctCameras}</td>
                         <td>{row.totalCameras}</td>
@@ -756,7 +2284,7 @@ function App() {
               </div>
               <div className="chart-description">
                 <p>
-                  This table summarizes species detected in the selected array(s), showing total group size, number of distinct cameras where detected, and the proportion of cameras in the array where the species was observed.
+                  This table summarizes species detected in the selected array(s), showing {countLabel.toLowerCase()} (or RAI, {countLabel.toLowerCase()} per 100 camera-nights), individuals counted across all group sizes, number of distinct cameras where detected, and the proportion of cameras in the array where the species was observed.
                 </p>
               </div>
             </section>
@@ -764,6 +2292,46 @@ function App() {
         </main>
       </div>
 
+      {openSiteDetail && (
+        <SiteDetailDrawer
+          detail={openSiteDetail}
+          countLabel={countLabel}
+          getColor={getSpeciesColor}
+          sequenceUrlTemplate={sequenceUrlTemplate}
+          onSequenceUrlTemplateChange={setSequenceUrlTemplate}
+          onExport={handleDownloadSiteRecords}
+          onExportChart={(title, filename, chart) => openFigureExport(title, filename, chart, false)}
+          onViewPhotos={handleViewSitePhotos}
+          onClose={() => {
+            // Escape in the export dialog shouldn't also close the drawer under it
+            if (!figureExport) setSelectedSite(null);
+          }}
+        />
+      )}
+
+      {figureExport && (
+        <FigureExportDialog
+          title={figureExport.title}
+          options={figureOptions}
+          onOptionsChange={setFigureOptions}
+          defaultCaption={getFigureCaption(
+            figureExport.title,
+            figureExport.compared && comparedFilters && comparedDateLabels
+              ? COMPARE_SETS.map((set, i) => ({ name: `Set ${set}`, filters: comparedFilters[i], dateLabel: comparedDateLabels[i] }))
+              : [{ filters: sidebarFilters, dateLabel: dateRangeLabel }],
+            countMode === 'events'
+              ? `Counts are independent events (${eventThreshold}-minute threshold).`
+              : 'Counts are detections; group sizes are not summed.'
+          )}
+          defaultFooter={getFigureFooter(datasetReports.map(report => report.source))}
+          onExport={async (caption, footer) => {
+            if (!figureExport.ref.current) return;
+            await exportFigure(figureExport.ref.current, figureOptions, caption, footer, figureExport.filename, figureExport.relayout);
+          }}
+          onClose={() => setFigureExport(null)}
+        />
+      )}
+
       {/* Footer */}
       <footer className="app-footer-bar">
         <div className="footer-bar-content">
@@ -0,0 +1,87 @@
+import {
+  ComposedChart,
+  Line,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer
+} from 'recharts';
+import { AccumulationAxis, AccumulationCurve } from '../types';
+
+interface AccumulationChartProps {
+  curves: AccumulationCurve[];
+  axis: AccumulationAxis;
+  getColor: (group: string) => string;
+}
+
+export const AccumulationChart = ({ curves, axis, getColor }: AccumulationChartProps) => {
+  if (curves.length === 0 || curves.every(curve => curve.units === 0)) {
+    return <div className="no-data">No sampling effort matches the current filters</div>;
+  }
+
+  // Each curve has its own effort levels, so each series carries its own data
+  const series = curves.map(curve => ({
+    ...curve,
+    data: curve.points.map(p => ({ effort: p.effort, mean: p.mean, envelope: [p.lower, p.upper] }))
+  }));
+
+  return (
+    <ResponsiveContainer width="100%" height={400}>
+      <ComposedChart margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
+        <XAxis
+          type="number"
+          dataKey="effort"
+          domain={[0, 'dataMax']}
+          allowDuplicatedCategory={false}
+          stroke="#666"
+          style={{ fontSize: '12px' }}
+          label={{ value: axis === 'cameras' ? 'Camera Locations' : 'Camera-Days', position: 'insideBottom', offset: -10 }}
+        />
+        <YAxis
+          stroke="#666"
+          style={{ fontSize: '12px' }}
+          allowDecimals={false}
+          label={{ value: 'Species Detected', angle: -90, position: 'insideLeft' }}
+        />
+        <Tooltip
+          contentStyle={{
+            background: 'white',
+            border: '2px solid #4A90E2',
+            borderRadius: '8px'
+          }}
+        />
+        <Legend verticalAlign="top" />
+        {series.map(curve => (
+          <Area
+            key={`${curve.group}-envelope`}
+            data={curve.data}
+            dataKey="envelope"
+            stroke="none"
+            fill={getColor(curve.group)}
+            fillOpacity={0.15}
+            legendType="none"
+            name={`${curve.group} 95% envelope`}
+            isAnimationActive={false}
+          />
+        ))}
+        {series.map(curve => (
+          <Line
+            key={curve.group}
+            data={curve.data}
+            dataKey="mean"
+            type="monotone"
+            stroke={getColor(curve.group)}
+            strokeWidth={3}
+            dot={false}
+            name={`${curve.group} (${curve.observedSpecies} species)`}
+            isAnimationActive={false}
+          />
+        ))}
+      </ComposedChart>
+    </ResponsiveContainer>
+  );
+};
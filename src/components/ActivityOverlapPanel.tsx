@@ -0,0 +1,82 @@
+import { useState, useEffect } from 'react';
+import { DetectionQuery, DielActivityCurve, OverlapEstimate } from '../types';
+import { queryActivityOverlap } from '../workers/detectionWorkerClient';
+
+interface ActivityOverlapPanelProps {
+  curves: DielActivityCurve[];
+  query: DetectionQuery;
+  datasetVersion: number;
+}
+
+export const ActivityOverlapPanel = ({ curves, query, datasetVersion }: ActivityOverlapPanelProps) => {
+  const species = curves.map(c => c.species).filter(name => name !== 'All Species');
+  const [speciesA, setSpeciesA] = useState('');
+  const [speciesB, setSpeciesB] = useState('');
+  const [estimate, setEstimate] = useState<OverlapEstimate | null>(null);
+  const [estimating, setEstimating] = useState(false);
+
+  // Default to the two most detected species, and drop a choice once its
+  // species leaves the selection
+  const pairA = species.includes(speciesA) ? speciesA : species[0] || '';
+  const pairB = species.includes(speciesB) && speciesB !== pairA ? speciesB : species.find(s => s !== pairA) || '';
+
+  // Bootstrapping runs in the worker; stale results are dropped
+  useEffect(() => {
+    if (!pairA || !pairB) {
+      setEstimate(null);
+      return;
+    }
+    let cancelled = false;
+    setEstimating(true);
+    queryActivityOverlap(query, pairA, pairB)
+      .then(result => {
+        if (!cancelled) setEstimate(result);
+      })
+      .catch(err => console.error('Error estimating activity overlap:', err))
+      .finally(() => {
+        if (!cancelled) setEstimating(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [query, datasetVersion, pairA, pairB]);
+
+  if (species.length < 2) {
+    return (
+      <p className="filter-hint">
+        Select two or more species to estimate how much their daily activity overlaps.
+      </p>
+    );
+  }
+
+  return (
+    <div className="activity-overlap">
+      <div className="activity-overlap-pair">
+        <select className="filter-select" value={pairA} onChange={(e) => setSpeciesA(e.target.value)}>
+          {species.map(name => <option key={name} value={name}>{name}</option>)}
+        </select>
+        <span>vs</span>
+        <select className="filter-select" value={pairB} onChange={(e) => setSpeciesB(e.target.value)}>
+          {species.filter(name => name !== pairA).map(name => <option key={name} value={name}>{name}</option>)}
+        </select>
+      </div>
+      {estimating && <p className="filter-hint">Estimating overlap…</p>}
+      {!estimating && estimate && (
+        <p className="activity-overlap-result">
+          <strong>Δ = {estimate.value.toFixed(2)}</strong>
+          {' '}(95% CI {estimate.lower.toFixed(2)}–{estimate.upper.toFixed(2)},
+          {' '}{estimate.estimator === 'Dhat4' ? 'Δ4' : 'Δ1'} from {estimate.sampleSizes[0].toLocaleString()} and
+          {' '}{estimate.sampleSizes[1].toLocaleString()} {query.countMode === 'events' ? 'events' : 'detections'},
+          {' '}{estimate.iterations} bootstrap samples)
+        </p>
+      )}
+      {!estimating && !estimate && (
+        <p className="filter-hint">Each species needs at least two detections to estimate overlap.</p>
+      )}
+      <p className="filter-hint">
+        Δ ranges from 0 (no shared activity) to 1 (identical activity patterns). Δ4 is used when both
+        species have at least 75 {query.countMode === 'events' ? 'events' : 'detections'}, Δ1 otherwise.
+      </p>
+    </div>
+  );
+};
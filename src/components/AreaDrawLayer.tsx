@@ -0,0 +1,95 @@
+import { useEffect, useState } from 'react';
+import { Circle, Polygon, Polyline, Rectangle, useMap, useMapEvents } from 'react-leaflet';
+import { MapDrawMode, SpatialShape } from '../types';
+
+const AREA_STYLE = { color: '#18453B', weight: 2, dashArray: '6 4', fillColor: '#18453B', fillOpacity: 0.08 };
+const CLOSE_DISTANCE = 10; // pixels
+
+// The drawn areas currently filtering the dashboard
+export const AreaLayer = ({ area }: { area: SpatialShape[] }) => (
+  <>
+    {area.map((shape, i) => shape.type === 'circle'
+      ? <Circle key={i} center={shape.center} radius={shape.radius} pathOptions={AREA_STYLE} interactive={false} />
+      : <Polygon key={i} positions={shape.vertices} pathOptions={AREA_STYLE} interactive={false} />)}
+  </>
+);
+
+interface AreaDrawLayerProps {
+  mode: MapDrawMode;
+  onComplete: (shape: SpatialShape) => void;
+  onCancel: () => void;
+}
+
+// Click-by-click drawing. Polygons take a click per vertex and finish on the
+// first vertex or a second click on the last one; rectangles take two corners
+// and circles a centre and a point on the edge. Escape cancels.
+export const AreaDrawLayer = ({ mode, onComplete, onCancel }: AreaDrawLayerProps) => {
+  const map = useMap();
+  const [vertices, setVertices] = useState<[number, number][]>([]);
+  const [cursor, setCursor] = useState<[number, number] | null>(null);
+
+  useEffect(() => {
+    setVertices([]);
+    setCursor(null);
+    const container = map.getContainer();
+    container.classList.add('map-drawing');
+    map.doubleClickZoom.disable();
+    return () => {
+      container.classList.remove('map-drawing');
+      map.doubleClickZoom.enable();
+    };
+  }, [map, mode]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onCancel();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onCancel]);
+
+  const isNear = (vertex: [number, number], point: [number, number]) =>
+    map.latLngToContainerPoint(vertex).distanceTo(map.latLngToContainerPoint(point)) < CLOSE_DISTANCE;
+
+  const finish = (shape: SpatialShape) => {
+    setVertices([]);
+    setCursor(null);
+    onComplete(shape);
+  };
+
+  useMapEvents({
+    click: (e) => {
+      const point: [number, number] = [e.latlng.lat, e.latlng.lng];
+      if (mode === 'polygon') {
+        const closing = vertices.length >= 3 && (isNear(vertices[0], point) || isNear(vertices[vertices.length - 1], point));
+        if (closing) finish({ type: 'polygon', vertices });
+        else setVertices([...vertices, point]);
+        return;
+      }
+      if (vertices.length === 0) {
+        setVertices([point]);
+        return;
+      }
+      const [start] = vertices;
+      if (mode === 'rectangle') {
+        finish({
+          type: 'rectangle',
+          vertices: [start, [start[0], point[1]], point, [point[0], start[1]]]
+        });
+      } else {
+        finish({ type: 'circle', center: start, radius: map.distance(start, point) });
+      }
+    },
+    mousemove: (e) => setCursor([e.latlng.lat, e.latlng.lng])
+  });
+
+  if (vertices.length === 0 || !cursor) return null;
+  const previewStyle = { ...AREA_STYLE, dashArray: '2 4' };
+  if (mode === 'polygon') {
+    return <Polyline positions={[...vertices, cursor]} pathOptions={previewStyle} interactive={false} />;
+  }
+  if (mode === 'rectangle') {
+    return <Rectangle bounds={[vertices[0], cursor]} pathOptions={previewStyle} interactive={false} />;
+  }
+  return <Circle center={vertices[0]} radius={map.distance(vertices[0], cursor)} pathOptions={previewStyle} interactive={false} />;
+};
@@ -0,0 +1,133 @@
+import { useEffect, useRef, useState } from 'react';
+import { Pane, Polygon, TileLayer, useMap } from 'react-leaflet';
+import { Coords, DoneCallback, GridLayer, GridLayerOptions } from 'leaflet';
+import { BasemapSource } from '../types';
+import { MBTilesArchive, readMBTiles } from '../utils/mbtiles';
+import { MICHIGAN_OUTLINE } from '../utils/michiganOutline';
+
+const OUTLINE_STYLE = { color: '#6b7f73', weight: 1, fillColor: '#f4f1e8', fillOpacity: 1 };
+const TILE_ERROR_LIMIT = 4; // failed tiles, with none loaded, before falling back to the outline
+const TILE_TYPES: Record<string, string> = { png: 'image/png', jpg: 'image/jpeg', webp: 'image/webp' };
+
+// Each archive is fetched and indexed once, however often it is reselected
+const archives = new Map<string, Promise<MBTilesArchive>>();
+
+const loadArchive = (url: string): Promise<MBTilesArchive> => {
+  if (!archives.has(url)) {
+    const archive = fetch(url)
+      .then(response => {
+        if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+        return response.arrayBuffer();
+      })
+      .then(readMBTiles);
+    archive.catch(() => archives.delete(url));
+    archives.set(url, archive);
+  }
+  return archives.get(url)!;
+};
+
+class MBTilesGridLayer extends GridLayer {
+  private archive: MBTilesArchive;
+
+  constructor(archive: MBTilesArchive, options: GridLayerOptions) {
+    super(options);
+    this.archive = archive;
+  }
+
+  protected createTile(coords: Coords, done: DoneCallback): HTMLElement {
+    const data = this.archive.getTile(coords.z, coords.x, coords.y);
+    if (!data) {
+      const empty = document.createElement('div');
+      setTimeout(() => done(undefined, empty));
+      return empty;
+    }
+    const tile = document.createElement('img');
+    const url = URL.createObjectURL(new Blob([data], { type: TILE_TYPES[this.archive.format] || 'image/png' }));
+    tile.alt = '';
+    tile.onload = () => {
+      URL.revokeObjectURL(url);
+      done(undefined, tile);
+    };
+    tile.onerror = () => {
+      URL.revokeObjectURL(url);
+      done(new Error('Unreadable tile'), tile);
+    };
+    tile.src = url;
+    return tile;
+  }
+}
+
+const MBTilesLayer = ({ source, onError }: { source: BasemapSource; onError: (message: string) => void }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    let cancelled = false;
+    let layer: MBTilesGridLayer | null = null;
+    loadArchive(source.url)
+      .then(archive => {
+        if (cancelled) return;
+        layer = new MBTilesGridLayer(archive, {
+          attribution: source.attribution || archive.attribution,
+          minNativeZoom: archive.minZoom,
+          maxNativeZoom: archive.maxZoom,
+          maxZoom: source.maxZoom
+        });
+        layer.addTo(map);
+      })
+      .catch(error => {
+        if (!cancelled) onError(`${source.name} could not be read (${error instanceof Error ? error.message : String(error)})`);
+      });
+    return () => {
+      cancelled = true;
+      layer?.remove();
+    };
+  }, [map, source, onError]);
+
+  return null;
+};
+
+// The selected basemap over the bundled Michigan outline. The outline sits in
+// its own pane beneath the tiles, so wherever tiles are missing (offline, or
+// outside a local tile set's coverage) the outline shows through; when a
+// source fails outright a notice says so.
+export const BasemapLayer = ({ source }: { source: BasemapSource }) => {
+  const [failure, setFailure] = useState<string | null>(null);
+  const tileCounts = useRef({ loaded: 0, failed: 0 });
+
+  useEffect(() => {
+    tileCounts.current = { loaded: 0, failed: 0 };
+    const offline = typeof navigator !== 'undefined' && !navigator.onLine && /^(https?:)?\/\//.test(source.url);
+    setFailure(offline ? `You are offline, so ${source.name} tiles are unavailable` : null);
+  }, [source]);
+
+  return (
+    <>
+      <Pane name="basemap-outline" style={{ zIndex: 150 }}>
+        <Polygon positions={MICHIGAN_OUTLINE} pathOptions={OUTLINE_STYLE} interactive={false} />
+      </Pane>
+      {source.type === 'xyz' && (
+        <TileLayer
+          key={source.id}
+          url={source.url}
+          attribution={source.attribution}
+          maxZoom={source.maxZoom}
+          subdomains={source.subdomains || 'abc'}
+          tms={source.tms}
+          eventHandlers={{
+            tileload: () => {
+              tileCounts.current.loaded++;
+            },
+            tileerror: () => {
+              tileCounts.current.failed++;
+              if (tileCounts.current.loaded === 0 && tileCounts.current.failed === TILE_ERROR_LIMIT) {
+                setFailure(`${source.name} tiles could not be loaded`);
+              }
+            }
+          }}
+        />
+      )}
+      {source.type === 'mbtiles' && <MBTilesLayer key={source.id} source={source} onError={setFailure} />}
+      {failure && <div className="map-basemap-notice">{failure}; showing the bundled Michigan outline.</div>}
+    </>
+  );
+};
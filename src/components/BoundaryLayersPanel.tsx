@@ -0,0 +1,127 @@
+import { useRef, useState } from 'react';
+import { BoundaryFilter, BoundaryLayer } from '../types';
+import { getBoundaryValues, readBoundaryFile } from '../utils/boundaries';
+import { MultiSelectFilter } from './MultiSelectFilter';
+
+interface BoundaryLayersPanelProps {
+  layers: BoundaryLayer[];
+  filters: BoundaryFilter[]; // one per layer; values of ['All'] select every polygon
+  hidden: string[];
+  colors: Record<string, string>;
+  onAdd: (layers: BoundaryLayer[]) => void;
+  onRemove: (layerId: string) => void;
+  onFilterChange: (filter: BoundaryFilter) => void;
+  onVisibilityChange: (layerId: string, visible: boolean) => void;
+}
+
+// Sidebar controls for county, management unit, ownership or ecoregion
+// polygons: loading them, showing them on the map, choosing the attribute
+// cameras are joined by and filtering to some of its values.
+export const BoundaryLayersPanel = ({
+  layers,
+  filters,
+  hidden,
+  colors,
+  onAdd,
+  onRemove,
+  onFilterChange,
+  onVisibilityChange
+}: BoundaryLayersPanelProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [loadError, setLoadError] = useState('');
+  const [loadingFile, setLoadingFile] = useState(false);
+
+  const handleFiles = async (files: File[]) => {
+    setLoadingFile(true);
+    const loaded: BoundaryLayer[] = [];
+    const errors: string[] = [];
+    for (const file of files) {
+      try {
+        loaded.push(...await readBoundaryFile(file));
+      } catch (error) {
+        errors.push(`Could not load ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    setLoadingFile(false);
+    setLoadError(errors.join(' '));
+    if (loaded.length > 0) onAdd(loaded);
+  };
+
+  return (
+    <div className="filter-section">
+      <label className="filter-label">Boundary Layers</label>
+      {layers.map(layer => {
+        const filter = filters.find(f => f.layerId === layer.id);
+        if (!filter) return null;
+        return (
+          <div key={layer.id} className="boundary-layer">
+            <div className="boundary-layer-header">
+              <label className="boundary-layer-name">
+                <input
+                  type="checkbox"
+                  checked={!hidden.includes(layer.id)}
+                  onChange={(e) => onVisibilityChange(layer.id, e.target.checked)}
+                />
+                <span className="boundary-layer-swatch" style={{ borderColor: colors[layer.id] }} />
+                {layer.name}
+              </label>
+              <button
+                className="boundary-layer-remove"
+                onClick={() => onRemove(layer.id)}
+                title={`Remove ${layer.name}`}
+              >
+                ✕
+              </button>
+            </div>
+            <p className="filter-hint">{layer.features.length.toLocaleString()} polygons</p>
+            <label className="filter-label boundary-layer-attribute" htmlFor={`${layer.id}-attribute`}>
+              Join by
+            </label>
+            <select
+              id={`${layer.id}-attribute`}
+              className="filter-select"
+              value={filter.attribute}
+              onChange={(e) => onFilterChange({ ...filter, attribute: e.target.value, values: ['All'] })}
+            >
+              {layer.attributes.map(attribute => (
+                <option key={attribute} value={attribute}>{attribute}</option>
+              ))}
+            </select>
+            <MultiSelectFilter
+              id={`${layer.id}-values`}
+              label={`${layer.name} ${filter.attribute}`}
+              options={getBoundaryValues(layer, filter.attribute)}
+              selected={filter.values}
+              onChange={(values) => onFilterChange({ ...filter, values })}
+              searchPlaceholder={`Search ${filter.attribute}...`}
+            />
+          </div>
+        );
+      })}
+      <button
+        className="clear-species-btn"
+        onClick={() => fileInputRef.current?.click()}
+        disabled={loadingFile}
+      >
+        {loadingFile ? 'Loading…' : 'Load GeoJSON or Zipped Shapefile'}
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        multiple
+        accept=".geojson,.json,.zip,application/geo+json,application/json,application/zip"
+        style={{ display: 'none' }}
+        onChange={(e) => {
+          const files = Array.from(e.target.files || []);
+          if (files.length > 0) handleFiles(files);
+          e.target.value = '';
+        }}
+      />
+      {loadError && <p className="filter-hint boundary-layer-error">{loadError}</p>}
+      <p className="filter-hint">
+        Counties, management units, ownership or ecoregions in WGS84 longitude/latitude. Cameras are matched to the
+        polygon containing them; files stay in your browser.
+      </p>
+    </div>
+  );
+};
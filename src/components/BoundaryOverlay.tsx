@@ -0,0 +1,28 @@
+import { Polygon, Tooltip } from 'react-leaflet';
+import { BoundaryLayer } from '../types';
+import { BLANK_ATTRIBUTE } from '../utils/boundaries';
+
+export interface BoundaryOverlayLayer {
+  layer: BoundaryLayer;
+  attribute: string;
+  color: string;
+}
+
+// Outlines of a loaded boundary layer, named on hover by the attribute cameras
+// are joined by. Every ring of a feature goes in one polygon so holes and
+// multipolygon parts are filled even-odd, the way the join counts them.
+export const BoundaryOverlay = ({ layer, attribute, color }: BoundaryOverlayLayer) => (
+  <>
+    {layer.features.map((feature, i) => (
+      <Polygon
+        key={i}
+        positions={feature.rings}
+        pathOptions={{ color, weight: 1.5, fillColor: color, fillOpacity: 0.06, fillRule: 'evenodd' }}
+      >
+        <Tooltip sticky>
+          {layer.name}: {feature.properties[attribute] || BLANK_ATTRIBUTE}
+        </Tooltip>
+      </Polygon>
+    ))}
+  </>
+);
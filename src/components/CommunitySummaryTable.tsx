@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { CommunitySummaryRow } from '../types';
+
+interface CommunitySummaryTableProps {
+  rows: CommunitySummaryRow[];
+  groupLabel: string;
+  countLabel: string;
+  selected: string[];
+  onSelect: (group: string) => void;
+}
+
+type SortKey = 'group' | 'cameras' | 'detections' | 'richness' | 'chao1' | 'shannon' | 'simpson' | 'occupancy';
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'cameras', label: 'Cameras' },
+  { key: 'detections', label: 'Detections' },
+  { key: 'richness', label: 'Observed Richness' },
+  { key: 'chao1', label: 'Chao1' },
+  { key: 'shannon', label: 'Shannon H′' },
+  { key: 'simpson', label: 'Simpson (1 − D)' }
+];
+
+export const CommunitySummaryTable = ({ rows, groupLabel, countLabel, selected, onSelect }: CommunitySummaryTableProps) => {
+  const [sortKey, setSortKey] = useState<SortKey>('group');
+  const [sortAscending, setSortAscending] = useState(true);
+  const [occupancySpecies, setOccupancySpecies] = useState('');
+
+  // Species for the naive occupancy column, most widespread first
+  const speciesCameras = new Map<string, number>();
+  rows.forEach(row => Object.entries(row.naiveOccupancy).forEach(([species, occupancy]) => {
+    speciesCameras.set(species, (speciesCameras.get(species) || 0) + occupancy * row.cameras);
+  }));
+  const speciesOptions = Array.from(speciesCameras.entries()).sort((a, b) => b[1] - a[1]).map(([species]) => species);
+  const shownSpecies = speciesOptions.includes(occupancySpecies) ? occupancySpecies : speciesOptions[0] || '';
+
+  const getValue = (row: CommunitySummaryRow, key: SortKey): string | number => {
+    if (key === 'occupancy') return row.naiveOccupancy[shownSpecies] || 0;
+    return row[key];
+  };
+  const sortedRows = [...rows].sort((a, b) => {
+    const valueA = getValue(a, sortKey);
+    const valueB = getValue(b, sortKey);
+    const order = typeof valueA === 'string' ? valueA.localeCompare(valueB as string) : valueA - (valueB as number);
+    return sortAscending ? order : -order;
+  });
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortAscending(!sortAscending);
+    } else {
+      setSortKey(key);
+      setSortAscending(key === 'group');
+    }
+  };
+
+  const sortIndicator = (key: SortKey) => (key === sortKey ? (sortAscending ? ' ▲' : ' ▼') : '');
+
+  if (rows.length === 0) {
+    return <div className="no-data">No detections match the current date range</div>;
+  }
+
+  return (
+    <>
+      <div className="community-occupancy-species">
+        <label className="filter-label" htmlFor="community-occupancy-species">Naive occupancy of</label>
+        <select
+          id="community-occupancy-species"
+          className="filter-select"
+          value={shownSpecies}
+          onChange={(e) => setOccupancySpecies(e.target.value)}
+        >
+          {speciesOptions.map(species => <option key={species} value={species}>{species}</option>)}
+        </select>
+      </div>
+      <div className="table-container">
+        <table className="species-table sortable-table">
+          <thead>
+            <tr>
+              <th onClick={() => handleSort('group')}>{groupLabel}{sortIndicator('group')}</th>
+              {COLUMNS.map(({ key, label }) => (
+                <th key={key} onClick={() => handleSort(key)}>{key === 'detections' ? countLabel : label}{sortIndicator(key)}</th>
+              ))}
+              <th onClick={() => handleSort('occupancy')}>Naive Occupancy{sortIndicator('occupancy')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sortedRows.map(row => (
+              <tr
+                key={row.group}
+                className={`clickable-row ${selected.includes(row.group) ? 'selected-row' : ''}`}
+                onClick={() => onSelect(row.group)}
+              >
+                <td>{row.group}</td>
+                <td>{row.cameras}</td>
+                <td>{row.detections.toLocaleString()}</td>
+                <td>{row.richness}</td>
+                <td>{row.chao1.toFixed(1)}</td>
+                <td>{row.shannon.toFixed(2)}</td>
+                <td>{row.simpson.toFixed(2)}</td>
+                <td>{((row.naiveOccupancy[shownSpecies] || 0) * 100).toFixed(0)}%</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </>
+  );
+};
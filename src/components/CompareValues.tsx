@@ -0,0 +1,14 @@
+import { COMPARE_COLORS, COMPARE_SETS } from '../utils/comparison';
+
+// A summary card's value under each compared filter set
+export const CompareValues = ({ values }: { values: [string, string] }) => (
+  <div className="compare-values">
+    {COMPARE_SETS.map((set, i) => (
+      <div key={set} className="compare-value">
+        <span className="comparison-swatch" style={{ background: COMPARE_COLORS[set] }} />
+        <span className="compare-value-set">{set}</span>
+        {values[i]}
+      </div>
+    ))}
+  </div>
+);
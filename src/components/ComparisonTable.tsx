@@ -0,0 +1,65 @@
+import { ComparisonRow } from '../types';
+import { COMPARE_COLORS } from '../utils/comparison';
+
+interface ComparisonTableProps {
+  summaryRows: ComparisonRow[];
+  speciesRows: ComparisonRow[];
+  valueLabel: string; // what the species rows count
+}
+
+const formatNumber = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+const formatDifference = (value: number) =>
+  `${value > 0 ? '+' : value < 0 ? '−' : ''}${formatNumber(Math.abs(value))}`;
+
+const formatRatio = (row: ComparisonRow) => {
+  if (row.ratio !== null) return `${row.ratio.toFixed(2)}×`;
+  return row.b > 0 ? 'new in B' : '—';
+};
+
+const ComparisonRows = ({ rows }: { rows: ComparisonRow[] }) => (
+  <>
+    {rows.map(row => (
+      <tr key={row.label}>
+        <td>{row.label}</td>
+        <td>{formatNumber(row.a)}</td>
+        <td>{formatNumber(row.b)}</td>
+        <td className={row.difference > 0 ? 'comparison-up' : row.difference < 0 ? 'comparison-down' : ''}>
+          {formatDifference(row.difference)}
+        </td>
+        <td>{formatRatio(row)}</td>
+      </tr>
+    ))}
+  </>
+);
+
+// The two filter sets' summary figures and species values, with the
+// difference (B − A) and ratio (B / A) of each
+export const ComparisonTable = ({ summaryRows, speciesRows, valueLabel }: ComparisonTableProps) => (
+  <div className="table-container">
+    <table className="species-table comparison-table">
+      <thead>
+        <tr>
+          <th>Measure</th>
+          <th><span className="comparison-swatch" style={{ background: COMPARE_COLORS.A }} />Set A</th>
+          <th><span className="comparison-swatch" style={{ background: COMPARE_COLORS.B }} />Set B</th>
+          <th>Difference (B − A)</th>
+          <th>Ratio (B / A)</th>
+        </tr>
+      </thead>
+      <tbody>
+        <ComparisonRows rows={summaryRows} />
+        <tr className="comparison-group-row">
+          <td colSpan={5}>{valueLabel} by species</td>
+        </tr>
+        {speciesRows.length > 0
+          ? <ComparisonRows rows={speciesRows} />
+          : (
+            <tr>
+              <td colSpan={5}>No detections in either set</td>
+            </tr>
+          )}
+      </tbody>
+    </table>
+  </div>
+);
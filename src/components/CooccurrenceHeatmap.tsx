@@ -0,0 +1,87 @@
+import { CooccurrenceMatrix, CooccurrencePair } from '../types';
+
+interface CooccurrenceHeatmapProps {
+  matrix: CooccurrenceMatrix;
+  metric: 'jaccard' | 'veech';
+  selectedSpecies: string[];
+  onSelectPair: (speciesA: string, speciesB: string) => void;
+}
+
+const SIGNIFICANCE = 0.05;
+
+export const CooccurrenceHeatmap = ({ matrix, metric, selectedSpecies, onSelectPair }: CooccurrenceHeatmapProps) => {
+  if (matrix.species.length < 2) {
+    return <div className="no-data">At least two species are needed for a co-occurrence matrix</div>;
+  }
+
+  const pairs = new Map<string, CooccurrencePair>();
+  matrix.pairs.forEach(pair => {
+    pairs.set(`${pair.speciesA}|${pair.speciesB}`, pair);
+    pairs.set(`${pair.speciesB}|${pair.speciesA}`, pair);
+  });
+  const maxEffect = Math.max(1e-9, ...matrix.pairs.map(pair => Math.abs(pair.effect)));
+
+  const getCellStyle = (pair: CooccurrencePair) => {
+    if (metric === 'jaccard') return { background: `rgba(74, 144, 226, ${pair.jaccard})` };
+    const strength = Math.abs(pair.effect) / maxEffect;
+    return {
+      background: pair.effect >= 0 ? `rgba(46, 204, 113, ${strength})` : `rgba(231, 76, 60, ${strength})`
+    };
+  };
+
+  const getCellText = (pair: CooccurrencePair) => {
+    if (metric === 'jaccard') return pair.jaccard.toFixed(2);
+    const significant = pair.pUpper < SIGNIFICANCE || pair.pLower < SIGNIFICANCE;
+    return `${pair.effect >= 0 ? '+' : ''}${pair.effect.toFixed(2)}${significant ? '*' : ''}`;
+  };
+
+  const getCellTitle = (pair: CooccurrencePair) => [
+    `${pair.speciesA} × ${pair.speciesB}`,
+    `Co-occurring at ${pair.cooccurrences} of ${matrix.sites} locations (${pair.expected.toFixed(1)} expected)`,
+    `${pair.speciesA}: ${pair.sitesA} locations, ${pair.speciesB}: ${pair.sitesB} locations`,
+    `Jaccard ${pair.jaccard.toFixed(3)}`,
+    `P(≥ observed) ${pair.pUpper.toPrecision(2)}, P(≤ observed) ${pair.pLower.toPrecision(2)}`
+  ].join('\n');
+
+  return (
+    <div className="table-container">
+      <table className="cooccurrence-table">
+        <thead>
+          <tr>
+            <th />
+            {matrix.species.map(species => (
+              <th key={species} className="cooccurrence-column-header">
+                <span>{species}</span>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {matrix.species.map(rowSpecies => (
+            <tr key={rowSpecies}>
+              <th className="cooccurrence-row-header">{rowSpecies}</th>
+              {matrix.species.map(columnSpecies => {
+                if (rowSpecies === columnSpecies) {
+                  return <td key={columnSpecies} className="cooccurrence-diagonal" />;
+                }
+                const pair = pairs.get(`${rowSpecies}|${columnSpecies}`)!;
+                const selected = selectedSpecies.includes(rowSpecies) && selectedSpecies.includes(columnSpecies);
+                return (
+                  <td
+                    key={columnSpecies}
+                    className={`cooccurrence-cell ${selected ? 'selected' : ''}`}
+                    style={getCellStyle(pair)}
+                    title={getCellTitle(pair)}
+                    onClick={() => onSelectPair(rowSpecies, columnSpecies)}
+                  >
+                    {getCellText(pair)}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
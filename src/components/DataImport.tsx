@@ -0,0 +1,223 @@
+import { useState } from 'react';
+import { ValidationReport } from '../types';
+import {
+  ColumnMapping,
+  DETECTION_FIELDS,
+  REQUIRED_FIELDS,
+  suggestColumnMapping,
+  getMissingRequiredFields
+} from '../utils/columnMapping';
+import { DatasetUpdate, readFileHeaders, importFiles } from '../workers/detectionWorkerClient';
+
+interface PendingFile {
+  file: File;
+  fields: string[];
+}
+
+interface DataImportProps {
+  isModified: boolean;
+  onDataChange: (update: DatasetUpdate, mode: 'merge' | 'replace') => void;
+  onReset: () => void;
+}
+
+// Only the first rows of each dropped-row list are rendered to keep the table manageable
+const MAX_LISTED_ISSUES = 200;
+
+export const DataImport = ({ isModified, onDataChange, onReset }: DataImportProps) => {
+  const [pendingFiles, setPendingFiles] = useState<PendingFile[]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [mode, setMode] = useState<'merge' | 'replace'>('merge');
+  const [reports, setReports] = useState<ValidationReport[]>([]);
+  const [dragActive, setDragActive] = useState(false);
+  const [error, setError] = useState<string>('');
+  const [importing, setImporting] = useState(false);
+
+  const handleFiles = async (fileList: FileList | null) => {
+    const files = Array.from(fileList || []).filter(f => f.name.toLowerCase().endsWith('.csv'));
+    if (files.length === 0) {
+      setError('Please choose one or more .csv files.');
+      return;
+    }
+
+    try {
+      const parsed = await Promise.all(files.map(async file => ({ file, fields: await readFileHeaders(file) })));
+      const fields = parsed[0].fields;
+      const mismatched = parsed.filter(p => p.fields.join('|') !== fields.join('|'));
+      if (mismatched.length > 0) {
+        setError(`Files loaded together must share the same columns: ${mismatched.map(p => p.file.name).join(', ')} differ from ${parsed[0].file.name}.`);
+        return;
+      }
+      setError('');
+      setReports([]);
+      setPendingFiles(parsed);
+      setMapping(suggestColumnMapping(fields));
+    } catch (err) {
+      setError('Failed to read file: ' + (err as Error).message);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!mapping) return;
+
+    setImporting(true);
+    try {
+      const update = await importFiles(pendingFiles.map(p => p.file), mapping, mode);
+      onDataChange(update, mode);
+      setReports(update.reports);
+      setPendingFiles([]);
+      setMapping(null);
+    } catch (err) {
+      setError('Failed to import files: ' + (err as Error).message);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const missingFields = mapping ? getMissingRequiredFields(mapping) : [];
+  const fields = pendingFiles[0]?.fields || [];
+
+  return (
+    <div className="data-import">
+      <div
+        className={`data-import-dropzone ${dragActive ? 'active' : ''}`}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragActive(true);
+        }}
+        onDragLeave={() => setDragActive(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setDragActive(false);
+          handleFiles(e.dataTransfer.files);
+        }}
+      >
+        <p>Drag and drop detection CSV files here, or</p>
+        <label className="data-import-browse">
+          Choose Files
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            multiple
+            onChange={(e) => {
+              handleFiles(e.target.files);
+              e.target.value = '';
+            }}
+          />
+        </label>
+        {isModified && (
+          <button className="clear-species-btn data-import-reset" onClick={onReset}>
+            Restore Bundled Dataset
+          </button>
+        )}
+      </div>
+
+      {error && <div className="data-import-error">{error}</div>}
+
+      {mapping && (
+        <div className="data-import-mapping">
+          <h3 className="links-title">
+            Column Mapping ({pendingFiles.map(p => p.file.name).join(', ')})
+          </h3>
+          <table className="species-table">
+            <thead>
+              <tr>
+                <th>Dashboard Field</th>
+                <th>Column in File</th>
+              </tr>
+            </thead>
+            <tbody>
+              {DETECTION_FIELDS.map(field => (
+                <tr key={field}>
+                  <td>
+                    {field}
+                    {REQUIRED_FIELDS.includes(field) && <span className="required-marker"> *</span>}
+                  </td>
+                  <td>
+                    <select
+                      className="filter-select"
+                      value={mapping[field]}
+                      onChange={(e) => setMapping({ ...mapping, [field]: e.target.value })}
+                    >
+                      <option value="">(not in file)</option>
+                      {fields.map(f => (
+                        <option key={f} value={f}>{f}</option>
+                      ))}
+                    </select>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="data-import-actions">
+            <div className="activity-toggle">
+              <button
+                className={`toggle-btn ${mode === 'merge' ? 'active' : ''}`}
+                onClick={() => setMode('merge')}
+              >
+                Merge with Current Data
+              </button>
+              <button
+                className={`toggle-btn ${mode === 'replace' ? 'active' : ''}`}
+                onClick={() => setMode('replace')}
+              >
+                Replace Current Data
+              </button>
+            </div>
+            <button className="download-btn" onClick={handleImport} disabled={missingFields.length > 0 || importing}>
+              {importing ? 'Importing...' : `Import ${pendingFiles.length} ${pendingFiles.length === 1 ? 'File' : 'Files'}`}
+            </button>
+          </div>
+          {missingFields.length > 0 && (
+            <p className="filter-hint">Map the required fields first: {missingFields.join(', ')}</p>
+          )}
+        </div>
+      )}
+
+      {reports.map((report, i) => (
+        <div key={`${i}-${report.source}`} className="validation-report">
+          <h3 className="links-title">Validation Report: {report.source}</h3>
+          <p>
+            {report.totalRows.toLocaleString()} rows read,{' '}
+            {(report.keptRows - report.duplicateRows).toLocaleString()} added,{' '}
+            {report.duplicateRows.toLocaleString()} skipped as duplicate sequence_ids,{' '}
+            {report.dropped.length.toLocaleString()} dropped.
+            {report.derivedYears > 0 && (
+              <> No Year column was mapped, so {report.derivedYears.toLocaleString()} rows took their year from start_time.</>
+            )}
+          </p>
+          {report.dropped.length > 0 && (
+            <details>
+              <summary>Dropped rows</summary>
+              <table className="species-table">
+                <thead>
+                  <tr>
+                    <th>Row</th>
+                    <th>Reason</th>
+                    <th>Sequence ID</th>
+                    <th>Common Name</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.dropped.slice(0, MAX_LISTED_ISSUES).map(issue => (
+                    <tr key={issue.rowNumber}>
+                      <td>{issue.rowNumber}</td>
+                      <td>{issue.reason}</td>
+                      <td>{issue.sequenceId}</td>
+                      <td>{issue.commonName}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {report.dropped.length > MAX_LISTED_ISSUES && (
+                <p className="filter-hint">
+                  Showing the first {MAX_LISTED_ISSUES} of {report.dropped.length.toLocaleString()} dropped rows.
+                </p>
+              )}
+            </details>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
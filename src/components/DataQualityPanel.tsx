@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { DataQualityIssue } from '../types';
+
+interface DataQualityPanelProps {
+  issues: DataQualityIssue[];
+}
+
+// Only the first rows are rendered; the downloaded CSV has every issue
+const MAX_LISTED_ISSUES = 500;
+
+export const DataQualityPanel = ({ issues }: DataQualityPanelProps) => {
+  const [selectedReason, setSelectedReason] = useState<string>('All');
+
+  const reasonCounts = new Map<string, { severity: DataQualityIssue['severity']; count: number }>();
+  issues.forEach(issue => {
+    const existing = reasonCounts.get(issue.reason);
+    if (existing) {
+      existing.count++;
+    } else {
+      reasonCounts.set(issue.reason, { severity: issue.severity, count: 1 });
+    }
+  });
+
+  const listedIssues = selectedReason === 'All'
+    ? issues
+    : issues.filter(issue => issue.reason === selectedReason);
+
+  if (issues.length === 0) {
+    return <div className="no-data">No data quality issues found</div>;
+  }
+
+  return (
+    <div className="data-quality">
+      <table className="species-table">
+        <thead>
+          <tr>
+            <th>Issue</th>
+            <th>Outcome</th>
+            <th>Rows</th>
+          </tr>
+        </thead>
+        <tbody>
+          {Array.from(reasonCounts.entries()).map(([reason, { severity, count }]) => (
+            <tr
+              key={reason}
+              className={`clickable-row ${selectedReason === reason ? 'selected-row' : ''}`}
+              onClick={() => setSelectedReason(selectedReason === reason ? 'All' : reason)}
+            >
+              <td>{reason}</td>
+              <td>{severity === 'dropped' ? 'Dropped' : 'Kept, flagged'}</td>
+              <td>{count.toLocaleString()}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="filter-hint">Click an issue to list only those rows</p>
+
+      <table className="species-table data-quality-rows">
+        <thead>
+          <tr>
+            <th>File</th>
+            <th>Row</th>
+            <th>Issue</th>
+            <th>Details</th>
+            <th>Sequence ID</th>
+            <th>Common Name</th>
+          </tr>
+        </thead>
+        <tbody>
+          {listedIssues.slice(0, MAX_LISTED_ISSUES).map((issue, i) => (
+            <tr key={`${issue.source}-${issue.rowNumber}-${i}`} className={issue.severity === 'dropped' ? 'dropped-row' : ''}>
+              <td>{issue.source}</td>
+              <td>{issue.rowNumber}</td>
+              <td>{issue.reason}</td>
+              <td>{issue.detail}</td>
+              <td>{issue.sequenceId}</td>
+              <td>{issue.commonName}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {listedIssues.length > MAX_LISTED_ISSUES && (
+        <p className="filter-hint">
+          Showing the first {MAX_LISTED_ISSUES} of {listedIssues.length.toLocaleString()} rows. Download the report for the full list.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,219 @@
+import { useEffect, useState } from 'react';
+import { FigureFont, FigureFormat, FigureOptions } from '../types';
+
+interface FigureExportDialogProps {
+  title: string;
+  options: FigureOptions;
+  onOptionsChange: (options: FigureOptions) => void;
+  defaultCaption: string;
+  defaultFooter: string;
+  onExport: (caption: string, footer: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const FORMATS: { format: FigureFormat; label: string }[] = [
+  { format: 'svg', label: 'SVG' },
+  { format: 'pdf', label: 'PDF' },
+  { format: 'png', label: 'PNG' }
+];
+
+const FONTS: { font: FigureFont; label: string }[] = [
+  { font: 'sans-serif', label: 'Helvetica / Arial' },
+  { font: 'serif', label: 'Times' },
+  { font: 'monospace', label: 'Courier' }
+];
+
+// Common journal and slide sizes, in inches
+const SIZE_PRESETS = [
+  { label: 'Single column', width: 3.5, height: 2.8 },
+  { label: 'One and a half column', width: 5.5, height: 4 },
+  { label: 'Double column', width: 7, height: 4.5 },
+  { label: 'Letter page', width: 8.5, height: 11 },
+  { label: 'Widescreen slide', width: 13.33, height: 7.5 }
+];
+
+// Page size, resolution, font and caption for a chart or map export
+export const FigureExportDialog = ({
+  title,
+  options,
+  onOptionsChange,
+  defaultCaption,
+  defaultFooter,
+  onExport,
+  onClose
+}: FigureExportDialogProps) => {
+  const [caption, setCaption] = useState(defaultCaption);
+  const [footer, setFooter] = useState(defaultFooter);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !exporting) onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [exporting, onClose]);
+
+  const update = (change: Partial<FigureOptions>) => onOptionsChange({ ...options, ...change });
+
+  const preset = SIZE_PRESETS.find(p => p.width === options.width && p.height === options.height);
+  const valid = options.width > 0 && options.height > 0 && options.dpi >= 72 && options.fontSize > 0;
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError('');
+    try {
+      await onExport(caption, footer);
+      onClose();
+    } catch (err) {
+      setError(`Could not export the figure: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="figure-dialog-backdrop" onClick={() => !exporting && onClose()}>
+      <div className="figure-dialog" role="dialog" aria-label={`Export ${title}`} onClick={(e) => e.stopPropagation()}>
+        <div className="site-drawer-header">
+          <div>
+            <h2 className="site-drawer-title">Export Figure</h2>
+            <div className="site-drawer-subtitle">{title}</div>
+          </div>
+          <button className="site-drawer-close" onClick={onClose} disabled={exporting} title="Close (Esc)">✕</button>
+        </div>
+
+        <div className="figure-dialog-body">
+          <div className="figure-dialog-row">
+            <span className="map-toolbar-label">Format</span>
+            <div className="activity-toggle">
+              {FORMATS.map(({ format, label }) => (
+                <button
+                  key={format}
+                  className={`toggle-btn ${options.format === format ? 'active' : ''}`}
+                  onClick={() => update({ format })}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="figure-dialog-row">
+            <span className="map-toolbar-label">Size</span>
+            <select
+              className="filter-select"
+              value={preset ? preset.label : ''}
+              onChange={(e) => {
+                const choice = SIZE_PRESETS.find(p => p.label === e.target.value);
+                if (choice) update({ width: choice.width, height: choice.height });
+              }}
+            >
+              {!preset && <option value="">Custom</option>}
+              {SIZE_PRESETS.map(p => (
+                <option key={p.label} value={p.label}>{p.label} ({p.width} × {p.height} in)</option>
+              ))}
+            </select>
+            <label className="figure-dialog-field">
+              <input
+                type="number"
+                className="species-search-input figure-dialog-number"
+                min={1}
+                max={40}
+                step={0.1}
+                value={options.width}
+                onChange={(e) => update({ width: Number(e.target.value) })}
+              />
+              ×
+              <input
+                type="number"
+                className="species-search-input figure-dialog-number"
+                min={1}
+                max={40}
+                step={0.1}
+                value={options.height}
+                onChange={(e) => update({ height: Number(e.target.value) })}
+              />
+              in
+            </label>
+          </div>
+
+          <div className="figure-dialog-row">
+            <span className="map-toolbar-label">Resolution</span>
+            <label className="figure-dialog-field">
+              <input
+                type="number"
+                className="species-search-input figure-dialog-number"
+                min={72}
+                max={1200}
+                step={50}
+                value={options.dpi}
+                onChange={(e) => update({ dpi: Number(e.target.value) })}
+              />
+              DPI
+            </label>
+            <span className="filter-hint">
+              {options.format === 'png'
+                ? `${Math.round(options.width * options.dpi)} × ${Math.round(options.height * options.dpi)} px`
+                : 'Charts stay vector; applies to map tiles'}
+            </span>
+          </div>
+
+          <div className="figure-dialog-row">
+            <span className="map-toolbar-label">Font</span>
+            <select
+              className="filter-select"
+              value={options.fontFamily}
+              onChange={(e) => update({ fontFamily: e.target.value as FigureFont })}
+            >
+              {FONTS.map(({ font, label }) => <option key={font} value={font}>{label}</option>)}
+            </select>
+            <label className="figure-dialog-field">
+              <input
+                type="number"
+                className="species-search-input figure-dialog-number"
+                min={4}
+                max={36}
+                step={0.5}
+                value={options.fontSize}
+                onChange={(e) => update({ fontSize: Number(e.target.value) })}
+              />
+              pt
+            </label>
+          </div>
+
+          <label className="figure-dialog-text">
+            <span className="map-toolbar-label">Caption</span>
+            <textarea rows={4} value={caption} onChange={(e) => setCaption(e.target.value)} />
+          </label>
+          <label className="figure-dialog-text">
+            <span className="map-toolbar-label">Footer</span>
+            <textarea rows={2} value={footer} onChange={(e) => setFooter(e.target.value)} />
+          </label>
+          <p className="filter-hint">
+            Charts are redrawn at the page width so axis text prints at the chosen size; the map and co-occurrence
+            table are exported as shown, with basemap tiles as an image.
+          </p>
+          {error && <p className="map-toolbar-error">{error}</p>}
+        </div>
+
+        <div className="site-drawer-footer">
+          <button
+            className="clear-species-btn"
+            onClick={() => {
+              setCaption(defaultCaption);
+              setFooter(defaultFooter);
+            }}
+            disabled={exporting}
+          >
+            Reset Caption
+          </button>
+          <button className="download-btn" onClick={handleExport} disabled={exporting || !valid}>
+            {exporting ? 'Exporting…' : `⬇ Export ${options.format.toUpperCase()}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,73 @@
+import { useEffect } from 'react';
+import { useMap } from 'react-leaflet';
+import { DomUtil } from 'leaflet';
+import { getRampRgb } from '../utils/mapAggregation';
+
+interface HeatmapPoint {
+  lat: number;
+  lng: number;
+  weight: number;
+}
+
+interface HeatmapLayerProps {
+  points: HeatmapPoint[];
+  radius?: number; // pixels
+}
+
+// Colour for each canvas alpha level
+const PALETTE = Array.from({ length: 256 }, (_, a) => getRampRgb(a / 255));
+
+// Kernel heatmap drawn on a canvas in the overlay pane. Each point adds a
+// radial gradient scaled by its weight; the summed alpha is then mapped onto
+// the colour ramp. Redrawn after every pan or zoom.
+export const HeatmapLayer = ({ points, radius = 25 }: HeatmapLayerProps) => {
+  const map = useMap();
+
+  useEffect(() => {
+    const canvas = DomUtil.create('canvas', 'heatmap-layer leaflet-zoom-hide') as HTMLCanvasElement;
+    map.getPanes().overlayPane.appendChild(canvas);
+    const maxWeight = Math.max(1e-9, ...points.map(p => p.weight));
+
+    const draw = () => {
+      const size = map.getSize();
+      canvas.width = size.x;
+      canvas.height = size.y;
+      DomUtil.setPosition(canvas, map.containerPointToLayerPoint([0, 0]));
+      const context = canvas.getContext('2d');
+      if (!context || size.x === 0 || size.y === 0) return;
+
+      points.forEach(p => {
+        if (p.weight <= 0) return;
+        const { x, y } = map.latLngToContainerPoint([p.lat, p.lng]);
+        if (x < -radius || y < -radius || x > size.x + radius || y > size.y + radius) return;
+        const gradient = context.createRadialGradient(x, y, 0, x, y, radius);
+        gradient.addColorStop(0, `rgba(0, 0, 0, ${Math.max(0.05, p.weight / maxWeight)})`);
+        gradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
+        context.fillStyle = gradient;
+        context.fillRect(x - radius, y - radius, radius * 2, radius * 2);
+      });
+
+      const image = context.getImageData(0, 0, size.x, size.y);
+      const pixels = image.data;
+      for (let i = 0; i < pixels.length; i += 4) {
+        const alpha = pixels[i + 3];
+        if (alpha === 0) continue;
+        const [r, g, b] = PALETTE[alpha];
+        pixels[i] = r;
+        pixels[i + 1] = g;
+        pixels[i + 2] = b;
+        pixels[i + 3] = Math.min(220, 60 + alpha);
+      }
+      context.putImageData(image, 0, 0);
+    };
+
+    draw();
+    map.on('moveend resize', draw);
+    return () => {
+      map.off('moveend resize', draw);
+      canvas.remove();
+    };
+  }, [map, points, radius]);
+
+  return null;
+};
@@ -1,6 +1,16 @@
-import { MapContainer, TileLayer, CircleMarker, Popup, Marker } from 'react-leaflet';
-import { DivIcon } from 'leaflet';
+import { ReactNode, useEffect, useState } from 'react';
+import { MapContainer, CircleMarker, Popup, Marker, Polygon, Tooltip, useMap, useMapEvents } from 'react-leaflet';
+import { DivIcon, latLngBounds } from 'leaflet';
 import 'leaflet/dist/leaflet.css';
+import { BasemapSource, MapDrawMode, MapLayerMode, SpatialShape } from '../types';
+import { getRAI } from '../utils/dataLoader';
+import { MapViewport } from '../utils/urlState';
+import { HEAT_RAMP, getClusters, getHexBins, getHexagonVertices, getRampColor } from '../utils/mapAggregation';
+import { HeatmapLayer } from './HeatmapLayer';
+import { AreaDrawLayer, AreaLayer } from './AreaDrawLayer';
+import { BoundaryOverlay, BoundaryOverlayLayer } from './BoundaryOverlay';
+import { BasemapLayer } from './BasemapLayer';
+import { BUILT_IN_BASEMAPS } from '../utils/basemaps';
 
 interface SpeciesCount {
   species: string;
@@ -13,13 +23,235 @@ interface MapPoint {
   lng: number;
   species: SpeciesCount[];
   totalCount: number;
+  cameraNights?: number;
   showColors?: boolean;
 }
 
 interface MapViewProps {
   points: MapPoint[];
+  metric?: 'count' | 'rai';
+  layer?: MapLayerMode;
+  basemap?: BasemapSource;
+  clusterMarkers?: boolean;
+  area?: SpatialShape[];
+  boundaries?: BoundaryOverlayLayer[];
+  drawMode?: MapDrawMode | null;
+  onShapeDrawn?: (shape: SpatialShape) => void;
+  onDrawCancel?: () => void;
+  viewport?: MapViewport | null;
+  onViewportChange?: (viewport: MapViewport) => void;
+  onSelectLocation?: (lat: number, lng: number) => void;
+  comparison?: MapComparisonLayer[] | null;
 }
 
+// Compare mode: one filter set's camera locations, drawn in its own colour
+export interface MapComparisonLayer {
+  name: string;
+  color: string;
+  points: MapPoint[];
+}
+
+const MICHIGAN_CENTER: [number, number] = [44.5, -85.5];
+const NO_AREA: SpatialShape[] = [];
+const NO_BOUNDARIES: BoundaryOverlayLayer[] = [];
+const noop = () => {};
+
+// Keeps the Leaflet view and the controlled viewport prop in step: user pans
+// and zooms are reported up, and external changes (e.g. browser back) move
+// the map.
+const ViewportSync = ({ viewport, onViewportChange }: Pick<MapViewProps, 'viewport' | 'onViewportChange'>) => {
+  const map = useMap();
+
+  useMapEvents({
+    moveend: () => {
+      const center = map.getCenter();
+      onViewportChange?.({
+        lat: Number(center.lat.toFixed(4)),
+        lng: Number(center.lng.toFixed(4)),
+        zoom: map.getZoom()
+      });
+    }
+  });
+
+  useEffect(() => {
+    if (!viewport) return;
+    const center = map.getCenter();
+    const moved = Math.abs(center.lat - viewport.lat) > 1e-4
+      || Math.abs(center.lng - viewport.lng) > 1e-4
+      || map.getZoom() !== viewport.zoom;
+    if (moved) {
+      map.setView([viewport.lat, viewport.lng], viewport.zoom);
+    }
+  }, [map, viewport]);
+
+  return null;
+};
+
+const HEX_RADIUS = 22; // pixels
+const CLUSTER_DISTANCE = 45; // pixels
+const CLUSTER_MAX_ZOOM = 10; // markers are drawn individually when zoomed in further
+
+const useMapZoom = () => {
+  const map = useMap();
+  const [zoom, setZoom] = useState(map.getZoom());
+  useMapEvents({ zoomend: () => setZoom(map.getZoom()) });
+  return zoom;
+};
+
+// Value a point or group of points contributes to the heatmap and hexagons
+const getWeight = (points: MapPoint[], metric: 'count' | 'rai'): number => {
+  const total = points.reduce((sum, p) => sum + p.totalCount, 0);
+  if (metric === 'count') return total;
+  return getRAI(total, points.reduce((sum, p) => sum + (p.cameraNights || 0), 0));
+};
+
+const formatWeight = (value: number, metric: 'count' | 'rai'): string =>
+  metric === 'rai' ? value.toFixed(2) : Math.round(value).toLocaleString();
+
+const MapLegend = ({ title, min, max }: { title: string; min: string; max: string }) => (
+  <div className="map-legend">
+    <div className="map-legend-title">{title}</div>
+    <div className="map-legend-ramp" style={{ background: `linear-gradient(to right, ${HEAT_RAMP.join(', ')})` }} />
+    <div className="map-legend-labels">
+      <span>{min}</span>
+      <span>{max}</span>
+    </div>
+  </div>
+);
+
+// Camera locations aggregated into hexagons, coloured by their summed
+// detections or pooled RAI
+const HexbinLayer = ({ points, metric, valueLabel }: { points: MapPoint[]; metric: 'count' | 'rai'; valueLabel: string }) => {
+  const map = useMap();
+  const zoom = useMapZoom();
+
+  const bins = getHexBins(points.map(p => map.project([p.lat, p.lng], zoom)), HEX_RADIUS).map(bin => ({
+    ...bin,
+    value: getWeight(bin.members.map(i => points[i]), metric)
+  }));
+  const maxValue = Math.max(0, ...bins.map(bin => bin.value));
+
+  return (
+    <>
+      {bins.map(bin => (
+        <Polygon
+          key={`${zoom}-${bin.x}-${bin.y}`}
+          positions={getHexagonVertices(bin, HEX_RADIUS).map(v => map.unproject([v.x, v.y], zoom))}
+          pathOptions={{
+            fillColor: getRampColor(maxValue > 0 ? bin.value / maxValue : 0),
+            fillOpacity: 0.75,
+            color: '#fff',
+            weight: 1
+          }}
+        >
+          <Tooltip>
+            {bin.members.length} camera location{bin.members.length === 1 ? '' : 's'}<br />
+            {valueLabel}: {formatWeight(bin.value, metric)}
+          </Tooltip>
+        </Polygon>
+      ))}
+      <MapLegend title={valueLabel} min="0" max={formatWeight(maxValue, metric)} />
+    </>
+  );
+};
+
+const createClusterIcon = (count: number): DivIcon => {
+  const size = Math.round(Math.min(30 + Math.log(count) * 6, 52));
+  return new DivIcon({
+    html: `<div>${count}</div>`,
+    className: 'map-cluster-marker',
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2]
+  });
+};
+
+// Nearby markers merged into a numbered cluster at low zoom; clicking a
+// cluster zooms to its cameras
+const ClusteredMarkers = ({ points, renderMarker, valueLabel, metric }: {
+  points: MapPoint[];
+  renderMarker: (point: MapPoint, idx: number) => ReactNode;
+  valueLabel: string;
+  metric: 'count' | 'rai';
+}) => {
+  const map = useMap();
+  const zoom = useMapZoom();
+
+  if (zoom > CLUSTER_MAX_ZOOM) return <>{points.map(renderMarker)}</>;
+
+  // Busiest locations seed clusters first
+  const order = points.map((_, i) => i).sort((a, b) => points[b].totalCount - points[a].totalCount);
+  const clusters = getClusters(points.map(p => map.project([p.lat, p.lng], zoom)), CLUSTER_DISTANCE, order);
+
+  return (
+    <>
+      {clusters.map(cluster => {
+        if (cluster.members.length === 1) return renderMarker(points[cluster.members[0]], cluster.members[0]);
+        const members = cluster.members.map(i => points[i]);
+        return (
+          <Marker
+            key={`cluster-${zoom}-${cluster.members[0]}`}
+            position={map.unproject([cluster.x, cluster.y], zoom)}
+            icon={createClusterIcon(members.length)}
+            eventHandlers={{
+              click: () => map.fitBounds(latLngBounds(members.map(p => [p.lat, p.lng])), { padding: [40, 40] })
+            }}
+          >
+            <Tooltip>
+              {members.length} camera locations<br />
+              {valueLabel}: {formatWeight(getWeight(members, metric), metric)}
+            </Tooltip>
+          </Marker>
+        );
+      })}
+    </>
+  );
+};
+
+// Set A as filled circles and set B as rings drawn over them, a little
+// larger, so a location in both shows a filled circle inside a ring
+const ComparisonMarkers = ({ layers, metric, valueLabel, onSelectLocation }: {
+  layers: MapComparisonLayer[];
+  metric: 'count' | 'rai';
+  valueLabel: string;
+  onSelectLocation: (lat: number, lng: number) => void;
+}) => (
+  <>
+    {layers.map((layer, i) => layer.points.map(point => (
+      <CircleMarker
+        key={`${i}-${point.lat}-${point.lng}`}
+        center={[point.lat, point.lng]}
+        radius={Math.min(6 + Math.log(point.totalCount + 1) * 1.5, 15) + i * 3}
+        eventHandlers={{ click: () => onSelectLocation(point.lat, point.lng) }}
+        pathOptions={i === 0
+          ? { fillColor: layer.color, fillOpacity: 0.6, color: '#fff', weight: 1 }
+          : { fill: false, color: layer.color, weight: 3, opacity: 0.9 }}
+      >
+        <Tooltip>
+          <strong>{layer.name}</strong><br />
+          {valueLabel}: {formatValue(point.totalCount, point, metric)}<br />
+          Camera-Nights: {Math.round(point.cameraNights || 0)}
+        </Tooltip>
+      </CircleMarker>
+    )))}
+    <div className="map-legend">
+      {layers.map((layer, i) => (
+        <div key={layer.name} className="map-comparison-legend-item">
+          <span
+            className="map-comparison-legend-swatch"
+            style={i === 0 ? { background: layer.color } : { border: `3px solid ${layer.color}` }}
+          />
+          {layer.name}
+        </div>
+      ))}
+    </div>
+  </>
+);
+
+// Popup value for a count: the raw count, or detections per 100 camera-nights
+const formatValue = (count: number, point: MapPoint, metric: 'count' | 'rai'): string => {
+  return metric === 'rai' ? getRAI(count, point.cameraNights || 0).toFixed(2) : count.toString();
+};
+
 // Create a pie chart marker for multiple species
 const createPieMarker = (speciesCounts: SpeciesCount[], radius: number): DivIcon => {
   const size = radius * 2;
@@ -64,101 +296,142 @@ const createPieMarker = (speciesCounts: SpeciesCount[], radius: number): DivIcon
   });
 };
 
-export const MapView = ({ points }: MapViewProps) => {
-  if (points.length === 0) {
+export const MapView = ({
+  points,
+  metric = 'count',
+  layer = 'markers',
+  basemap = BUILT_IN_BASEMAPS[0],
+  clusterMarkers = false,
+  area = NO_AREA,
+  boundaries = NO_BOUNDARIES,
+  drawMode = null,
+  onShapeDrawn = noop,
+  onDrawCancel = noop,
+  viewport,
+  onViewportChange,
+  onSelectLocation = noop,
+  comparison = null
+}: MapViewProps) => {
+  const valueLabel = metric === 'rai' ? 'RAI' : 'Detections';
+  const allPoints = comparison ? comparison.flatMap(layer => layer.points) : points;
+
+  // The map stays up while drawing or with an area or boundaries shown, so an
+  // area or polygon with no cameras can still be seen and redrawn
+  if (allPoints.length === 0 && area.length === 0 && boundaries.length === 0 && !drawMode) {
     return <div className="no-data">No location data available for selected filters</div>;
   }
 
-  const center: [number, number] = [points[0].lat, points[0].lng];
+  const center: [number, number] = viewport
+    ? [viewport.lat, viewport.lng]
+    : allPoints.length > 0 ? [allPoints[0].lat, allPoints[0].lng] : MICHIGAN_CENTER;
+
+  const renderMarker = (point: MapPoint, idx: number) => {
+    // Smaller radius when showing all species
+    const radius = point.showColors 
+      ? Math.min(10 + Math.log(point.totalCount + 1) * 3, 25)
+      : Math.min(6 + Math.log(point.totalCount + 1) * 1.5, 15);
+    const isSingleSpecies = point.species.length === 1;
+    
+    // For single species or "All", use CircleMarker with solid color
+    if (isSingleSpecies || !point.showColors) {
+      return (
+        <CircleMarker
+          key={`${point.lat}-${point.lng}-${idx}`}
+          center={[point.lat, point.lng]}
+          radius={radius}
+          eventHandlers={{ click: () => onSelectLocation(point.lat, point.lng) }}
+          pathOptions={{
+            fillColor: point.species[0].color,
+            color: '#357ABD',
+            weight: 2,
+            opacity: 0.8,
+            fillOpacity: 0.6
+          }}
+        >
+          <Popup>
+            <div style={{ minWidth: '150px' }}>
+              {point.showColors ? (
+                <>
+                  <strong>{point.species[0].species}</strong><br />
+                  {valueLabel}: {formatValue(point.species[0].count, point, metric)}
+                </>
+              ) : (
+                <>
+                  <strong>All Species</strong><br />
+                  {valueLabel}: {formatValue(point.totalCount, point, metric)}
+                </>
+              )}
+              <div style={{ marginTop: '8px', paddingTop: '8px', borderTop: '1px solid #ddd' }}>
+                Camera-Nights: {Math.round(point.cameraNights || 0)}<br />
+                Lat: {point.lat.toFixed(4)}<br />
+                Lng: {point.lng.toFixed(4)}
+              </div>
+            </div>
+          </Popup>
+        </CircleMarker>
+      );
+    }
+    
+    // For multiple species, use custom Marker with pie chart
+    return (
+      <Marker
+        key={`${point.lat}-${point.lng}-${idx}`}
+        position={[point.lat, point.lng]}
+        icon={createPieMarker(point.species, radius)}
+        eventHandlers={{ click: () => onSelectLocation(point.lat, point.lng) }}
+      >
+        <Popup>
+          <div style={{ minWidth: '150px' }}>
+            <strong>Species at this location:</strong><br />
+            {point.species.map((sc, i) => (
+              <div key={i} style={{ display: 'flex', alignItems: 'center', marginTop: '4px' }}>
+                <div style={{ 
+                  width: '12px', 
+                  height: '12px', 
+                  backgroundColor: sc.color, 
+                  marginRight: '6px',
+                  borderRadius: '2px'
+                }} />
+                <span>{sc.species}: {formatValue(sc.count, point, metric)}</span>
+              </div>
+            ))}
+            <div style={{ marginTop: '8px', paddingTop: '8px', borderTop: '1px solid #ddd' }}>
+              <strong>Total: {formatValue(point.totalCount, point, metric)}</strong><br />
+              Camera-Nights: {Math.round(point.cameraNights || 0)}<br />
+              Lat: {point.lat.toFixed(4)}<br />
+              Lng: {point.lng.toFixed(4)}
+            </div>
+          </div>
+        </Popup>
+      </Marker>
+    );
+  };
 
   return (
     <MapContainer 
       center={center} 
-      zoom={7} 
+      zoom={viewport ? viewport.zoom : 7} 
       style={{ height: '100%', width: '100%' }}
       scrollWheelZoom={true}
     >
-      <TileLayer
-        attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
-        url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
-      />
-      {points.map((point, idx) => {
-        // Smaller radius when showing all species
-        const radius = point.showColors 
-          ? Math.min(10 + Math.log(point.totalCount + 1) * 3, 25)
-          : Math.min(6 + Math.log(point.totalCount + 1) * 1.5, 15);
-        const isSingleSpecies = point.species.length === 1;
-        
-        // For single species or "All", use CircleMarker with solid color
-        if (isSingleSpecies || !point.showColors) {
-          return (
-            <CircleMarker
-              key={`${point.lat}-${point.lng}-${idx}`}
-              center={[point.lat, point.lng]}
-              radius={radius}
-              pathOptions={{
-                fillColor: point.species[0].color,
-                color: '#357ABD',
-                weight: 2,
-                opacity: 0.8,
-                fillOpacity: 0.6
-              }}
-            >
-              <Popup>
-                <div style={{ minWidth: '150px' }}>
-                  {point.showColors ? (
-                    <>
-                      <strong>{point.species[0].species}</strong><br />
-                      Detections: {point.species[0].count}
-                    </>
-                  ) : (
-                    <>
-                      <strong>All Species</strong><br />
-                      Detections: {point.totalCount}
-                    </>
-                  )}
-                  <div style={{ marginTop: '8px', paddingTop: '8px', borderTop: '1px solid #ddd' }}>
-                    Lat: {point.lat.toFixed(4)}<br />
-                    Lng: {point.lng.toFixed(4)}
-                  </div>
-                </div>
-              </Popup>
-            </CircleMarker>
-          );
-        }
-        
-        // For multiple species, use custom Marker with pie chart
-        return (
-          <Marker
-            key={`${point.lat}-${point.lng}-${idx}`}
-            position={[point.lat, point.lng]}
-            icon={createPieMarker(point.species, radius)}
-          >
-            <Popup>
-              <div style={{ minWidth: '150px' }}>
-                <strong>Species at this location:</strong><br />
-                {point.species.map((sc, i) => (
-                  <div key={i} style={{ display: 'flex', alignItems: 'center', marginTop: '4px' }}>
-                    <div style={{ 
-                      width: '12px', 
-                      height: '12px', 
-                      backgroundColor: sc.color, 
-                      marginRight: '6px',
-                      borderRadius: '2px'
-                    }} />
-                    <span>{sc.species}: {sc.count}</span>
-                  </div>
-                ))}
-                <div style={{ marginTop: '8px', paddingTop: '8px', borderTop: '1px solid #ddd' }}>
-                  <strong>Total: {point.totalCount}</strong><br />
-                  Lat: {point.lat.toFixed(4)}<br />
-                  Lng: {point.lng.toFixed(4)}
-                </div>
-              </div>
-            </Popup>
-          </Marker>
-        );
-      })}
+      <BasemapLayer source={basemap} />
+      <ViewportSync viewport={viewport} onViewportChange={onViewportChange} />
+      {boundaries.map(boundary => <BoundaryOverlay key={boundary.layer.id} {...boundary} />)}
+      <AreaLayer area={area} />
+      {drawMode && <AreaDrawLayer mode={drawMode} onComplete={onShapeDrawn} onCancel={onDrawCancel} />}
+      {comparison && (
+        <ComparisonMarkers layers={comparison} metric={metric} valueLabel={valueLabel} onSelectLocation={onSelectLocation} />
+      )}
+      {!comparison && layer === 'heatmap' && (
+        <>
+          <HeatmapLayer points={points.map(p => ({ lat: p.lat, lng: p.lng, weight: getWeight([p], metric) }))} />
+          <MapLegend title={`${valueLabel} density`} min="Low" max="High" />
+        </>
+      )}
+      {!comparison && layer === 'hexbin' && <HexbinLayer points={points} metric={metric} valueLabel={valueLabel} />}
+      {!comparison && layer === 'markers' && (clusterMarkers
+        ? <ClusteredMarkers points={points} renderMarker={renderMarker} valueLabel={valueLabel} metric={metric} />
+        : points.map(renderMarker))}
     </MapContainer>
   );
 };
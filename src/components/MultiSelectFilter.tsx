@@ -0,0 +1,74 @@
+import { useState } from 'react';
+
+interface MultiSelectFilterProps {
+  id: string;
+  label: string;
+  options: string[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+  size?: number;
+  searchPlaceholder?: string;
+}
+
+// Searchable multiselect used by the sidebar filters. An empty selection
+// falls back to ['All'], matching how App treats the "no filter" case.
+export const MultiSelectFilter = ({
+  id,
+  label,
+  options,
+  selected,
+  onChange,
+  size = 6,
+  searchPlaceholder
+}: MultiSelectFilterProps) => {
+  const [search, setSearch] = useState<string>('');
+
+  return (
+    <div className="filter-section">
+      <label className="filter-label" htmlFor={searchPlaceholder ? `${id}-search` : `${id}-select`}>
+        {label}
+      </label>
+      {searchPlaceholder && (
+        <input
+          id={`${id}-search`}
+          type="text"
+          className="species-search-input"
+          placeholder={searchPlaceholder}
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+      )}
+      <div className="species-select-container">
+        <select
+          id={`${id}-select`}
+          className="filter-select species-multiselect"
+          multiple
+          size={size}
+          value={selected}
+          onChange={(e) => {
+            const values = Array.from(e.target.selectedOptions, option => option.value);
+            onChange(values.length > 0 ? values : ['All']);
+          }}
+        >
+          {options
+            .filter(option => option.toLowerCase().includes(search.toLowerCase()))
+            .map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+        </select>
+      </div>
+      <button
+        className="clear-species-btn"
+        onClick={() => {
+          onChange(['All']);
+          setSearch('');
+        }}
+      >
+        Clear Selection
+      </button>
+      <p className="filter-hint">Hold Ctrl/Cmd to select multiple</p>
+    </div>
+  );
+};
@@ -0,0 +1,157 @@
+import { useState, useEffect, useMemo } from 'react';
+import Papa from 'papaparse';
+import { DetectionFilters } from '../types';
+import { isFilterActive } from '../utils/detectionQuery';
+import { OccupancySiteKey, OccupancySummary } from '../utils/occupancy';
+import { createZipWriter } from '../utils/zip';
+import { queryOccupancy } from '../workers/detectionWorkerClient';
+import { MultiSelectFilter } from './MultiSelectFilter';
+
+interface OccupancyExportProps {
+  datasetVersion: number;
+  filters: DetectionFilters;
+  speciesOptions: string[];
+}
+
+export const OccupancyExport = ({ datasetVersion, filters, speciesOptions }: OccupancyExportProps) => {
+  const [chosenSpecies, setChosenSpecies] = useState<string[]>(['All']);
+  const [siteKey, setSiteKey] = useState<OccupancySiteKey>('deployment');
+  const [occasionDays, setOccasionDays] = useState(7);
+  const [result, setResult] = useState<OccupancySummary | null>(null);
+
+  // Falls back to the sidebar species selection
+  const species = useMemo(() => {
+    if (isFilterActive(chosenSpecies)) return chosenSpecies;
+    return isFilterActive(filters.species) ? filters.species : [];
+  }, [chosenSpecies, filters.species]);
+
+  useEffect(() => {
+    setResult(null);
+    if (species.length === 0) return;
+    let cancelled = false;
+    queryOccupancy(filters, species, siteKey, occasionDays)
+      .then(summary => {
+        if (!cancelled) setResult(summary);
+      })
+      .catch(err => console.error('Error building detection histories:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [datasetVersion, filters, species, siteKey, occasionDays]);
+
+  // One zip, since browsers block or prompt on several downloads from one click
+  const handleExport = () => {
+    if (!result) return;
+    const date = new Date().toISOString().split('T')[0];
+    const encoder = new TextEncoder();
+    const zip = createZipWriter();
+    result.histories.forEach(history => {
+      const name = history.species.replace(/[^A-Za-z0-9]+/g, '_');
+      zip.addFile(`detection-history_${name}_${occasionDays}day_${date}.csv`, encoder.encode(Papa.unparse(history.rows)));
+    });
+    zip.addFile(`site-covariates_${siteKey}_${date}.csv`, encoder.encode(Papa.unparse(result.siteCovariates)));
+
+    const url = URL.createObjectURL(zip.finish());
+    const link = document.createElement('a');
+    link.download = `occupancy-histories_${occasionDays}day_${date}.zip`;
+    link.href = url;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  return (
+    <div className="occupancy-export">
+      <div className="occupancy-options">
+        <MultiSelectFilter
+          id="occupancy-species"
+          label="Species"
+          options={speciesOptions}
+          selected={chosenSpecies}
+          onChange={setChosenSpecies}
+          searchPlaceholder="Search species..."
+        />
+        <div className="filter-section">
+          <label className="filter-label">Sites</label>
+          <div className="activity-toggle">
+            <button
+              className={`toggle-btn ${siteKey === 'deployment' ? 'active' : ''}`}
+              onClick={() => setSiteKey('deployment')}
+            >
+              Deployments
+            </button>
+            <button
+              className={`toggle-btn ${siteKey === 'location' ? 'active' : ''}`}
+              onClick={() => setSiteKey('location')}
+            >
+              Camera Locations
+            </button>
+          </div>
+          <label className="filter-label" htmlFor="occasion-days" style={{ marginTop: '12px' }}>
+            Occasion Length (days)
+          </label>
+          <input
+            id="occasion-days"
+            type="number"
+            min={1}
+            className="species-search-input"
+            value={occasionDays}
+            onChange={(e) => setOccasionDays(Math.max(1, parseInt(e.target.value) || 1))}
+          />
+          <p className="filter-hint">
+            Region, array, date and age/sex filters from the sidebar apply. With no species chosen here, the
+            sidebar species selection is used.
+          </p>
+        </div>
+      </div>
+
+      {species.length === 0 ? (
+        <p className="filter-hint">Choose one or more species to build detection histories.</p>
+      ) : !result ? (
+        <p className="filter-hint">Building detection histories…</p>
+      ) : (
+        <>
+          <table className="species-table">
+            <thead>
+              <tr>
+                <th>Species</th>
+                <th>Sites</th>
+                <th>Occasions</th>
+                <th>Sites Detected</th>
+                <th>Naive Occupancy</th>
+                <th>NA Cells</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.histories.map(history => {
+                const cells = history.rows.flatMap(row => Object.entries(row).filter(([key]) => key !== 'site').map(([, value]) => value));
+                const detectedSites = history.rows.filter(row => Object.values(row).includes(1)).length;
+                const missing = cells.filter(value => value === 'NA').length;
+                return (
+                  <tr key={history.species}>
+                    <td>{history.species}</td>
+                    <td>{history.rows.length}</td>
+                    <td>{result.occasionCount}</td>
+                    <td>{detectedSites}</td>
+                    <td>{history.rows.length > 0 ? (detectedSites / history.rows.length).toFixed(2) : '—'}</td>
+                    <td>{cells.length > 0 ? `${((missing / cells.length) * 100).toFixed(0)}%` : '—'}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <div className="data-import-actions">
+            <button className="download-btn" onClick={handleExport} disabled={result.histories.length === 0}>
+              <span className="download-icon">⬇</span>
+              Download Detection Histories and Site Covariates (zip)
+            </button>
+          </div>
+          <p className="filter-hint">
+            One CSV per species with a row per site and a column per occasion (named by its start date): 1 =
+            detected, 0 = camera running but not detected, NA = camera not running. The site covariates CSV
+            lists region, array, coordinates and camera-nights in the same row order.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,278 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { DetectionFilters, GallerySequence } from '../types';
+import {
+  ImageSource,
+  createTemplateSource,
+  loadManifestSource,
+  readImageFolder,
+  readManifestFile
+} from '../utils/imageSources';
+import { queryGallery } from '../workers/detectionWorkerClient';
+
+interface PhotoGalleryProps {
+  filters: DetectionFilters;
+  datasetVersion: number;
+  source: ImageSource | null;
+  onSourceChange: (source: ImageSource | null) => void;
+  camera: { lat: number; lng: number } | null;
+  onClearCamera: () => void;
+}
+
+const PAGE_SIZE = 48;
+
+const formatDateTime = (date: Date) =>
+  `${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+
+const describeSpecies = (sequence: GallerySequence) =>
+  sequence.species.map(s => (s.groupSize > 1 ? `${s.species} ×${s.groupSize}` : s.species)).join(', ');
+
+// Thumbnails of the sequences behind the current filters, with a viewer for
+// each sequence's photos. Photos come from whichever image source is set: a
+// URL template, a manifest, or a local folder.
+export const PhotoGallery = ({
+  filters,
+  datasetVersion,
+  source,
+  onSourceChange,
+  camera,
+  onClearCamera
+}: PhotoGalleryProps) => {
+  const manifestInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const [template, setTemplate] = useState('');
+  const [manifestUrl, setManifestUrl] = useState('');
+  const [sourceError, setSourceError] = useState('');
+  const [loadingSource, setLoadingSource] = useState(false);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [failedImages, setFailedImages] = useState<Set<string>>(new Set());
+  const [viewer, setViewer] = useState<{ sequence: number; image: number } | null>(null);
+  const [allSequences, setAllSequences] = useState<GallerySequence[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    queryGallery(filters, camera)
+      .then(result => {
+        if (!cancelled) setAllSequences(result);
+      })
+      .catch(err => console.error('Error listing photo sequences:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [filters, datasetVersion, camera]);
+  const sequences = useMemo(
+    () => source?.listed ? allSequences.filter(sequence => source.getImages(sequence).length > 0) : allSequences,
+    [allSequences, source]
+  );
+
+  // React has no prop for picking a whole folder
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
+  // Start from the first page whenever the filters or the source change
+  useEffect(() => {
+    setVisibleCount(PAGE_SIZE);
+    setViewer(null);
+  }, [sequences]);
+
+  useEffect(() => {
+    setFailedImages(new Set());
+  }, [source]);
+
+  const viewed = viewer ? sequences[viewer.sequence] : null;
+  const viewedImages = viewed && source ? source.getImages(viewed) : [];
+
+  useEffect(() => {
+    if (!viewer) return;
+    // Capture, so Escape closes the viewer and not the drawer behind it
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.stopPropagation();
+        setViewer(null);
+      } else if (e.key === 'ArrowRight') {
+        setViewer(v => v && (v.image + 1 < viewedImages.length
+          ? { ...v, image: v.image + 1 }
+          : { sequence: Math.min(v.sequence + 1, sequences.length - 1), image: 0 }));
+      } else if (e.key === 'ArrowLeft') {
+        setViewer(v => v && (v.image > 0
+          ? { ...v, image: v.image - 1 }
+          : { sequence: Math.max(v.sequence - 1, 0), image: 0 }));
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [viewer, viewedImages.length, sequences.length]);
+
+  const loadSource = async (load: () => Promise<ImageSource>) => {
+    setLoadingSource(true);
+    try {
+      onSourceChange(await load());
+      setSourceError('');
+    } catch (error) {
+      setSourceError(`Could not load images: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setLoadingSource(false);
+    }
+  };
+
+  const markFailed = (url: string) => setFailedImages(prev => new Set(prev).add(url));
+
+  return (
+    <>
+      <div className="map-toolbar section-body">
+        <span className="map-toolbar-label">Image source</span>
+        <form
+          className="gallery-source-form"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (template.trim()) loadSource(async () => createTemplateSource(template.trim()));
+          }}
+        >
+          <input
+            type="text"
+            className="species-search-input"
+            placeholder="https://photos.example.org/{deploymentId}/{sequenceId}.jpg"
+            value={template}
+            onChange={(e) => setTemplate(e.target.value)}
+          />
+          <button type="submit" className="clear-species-btn" disabled={!template.trim()}>Use Template</button>
+        </form>
+        <form
+          className="gallery-source-form"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (manifestUrl.trim()) loadSource(() => loadManifestSource(manifestUrl.trim()));
+          }}
+        >
+          <input
+            type="text"
+            className="species-search-input"
+            placeholder="Manifest URL, e.g. images/manifest.json"
+            value={manifestUrl}
+            onChange={(e) => setManifestUrl(e.target.value)}
+          />
+          <button type="submit" className="clear-species-btn" disabled={!manifestUrl.trim()}>Load Manifest</button>
+        </form>
+        <div className="map-toolbar-actions">
+          <button className="download-btn" onClick={() => manifestInputRef.current?.click()}>
+            ⬆ Manifest File
+          </button>
+          <button className="download-btn" onClick={() => folderInputRef.current?.click()}>
+            📁 Local Folder
+          </button>
+        </div>
+        <input
+          ref={manifestInputRef}
+          type="file"
+          accept=".json,application/json"
+          style={{ display: 'none' }}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) loadSource(() => readManifestFile(file));
+            e.target.value = '';
+          }}
+        />
+        <input
+          ref={folderInputRef}
+          type="file"
+          multiple
+          style={{ display: 'none' }}
+          onChange={(e) => {
+            const files = Array.from(e.target.files || []);
+            if (files.length > 0) loadSource(() => readImageFolder(files));
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      <div className="section-body">
+        <p className="map-toolbar-status">
+          {loadingSource
+            ? 'Loading images…'
+            : source
+              ? `${source.label}${source.imageCount !== undefined ? ` (${source.imageCount.toLocaleString()} photos)` : ''}`
+              : 'No image source set. Enter a URL template or manifest, or pick a local folder of photos.'}
+          {source && (
+            <button className="gallery-link-btn" onClick={() => onSourceChange(null)}>Remove</button>
+          )}
+        </p>
+        {sourceError && <p className="map-toolbar-error">{sourceError}</p>}
+        {camera && (
+          <p className="gallery-scope">
+            Camera at {camera.lat.toFixed(5)}, {camera.lng.toFixed(5)}
+            <button className="gallery-link-btn" onClick={onClearCamera}>Show all cameras</button>
+          </p>
+        )}
+
+        {source && (
+          <>
+            <p className="filter-hint">
+              {source.listed
+                ? `${sequences.length.toLocaleString()} of ${allSequences.length.toLocaleString()} sequences matching the filters have photos`
+                : `${sequences.length.toLocaleString()} sequences match the filters`}
+            </p>
+            <div className="gallery-grid">
+              {sequences.slice(0, visibleCount).map((sequence, i) => {
+                const thumbnail = source.getImages(sequence)[0];
+                return (
+                  <button
+                    key={sequence.sequenceId}
+                    className="gallery-item"
+                    onClick={() => setViewer({ sequence: i, image: 0 })}
+                  >
+                    <div className="gallery-thumb">
+                      {thumbnail && !failedImages.has(thumbnail) ? (
+                        <img src={thumbnail} alt={describeSpecies(sequence)} loading="lazy" onError={() => markFailed(thumbnail)} />
+                      ) : (
+                        <span className="gallery-missing">No photo</span>
+                      )}
+                    </div>
+                    <div className="gallery-caption">
+                      <strong>{describeSpecies(sequence)}</strong>
+                      <span>{formatDateTime(sequence.startTime)}</span>
+                      <span>Group size {sequence.groupSize}</span>
+                      <span>{sequence.arrayName || `${sequence.latitude.toFixed(4)}, ${sequence.longitude.toFixed(4)}`}</span>
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+            {visibleCount < sequences.length && (
+              <button className="clear-species-btn gallery-more-btn" onClick={() => setVisibleCount(visibleCount + PAGE_SIZE)}>
+                Show More ({(sequences.length - visibleCount).toLocaleString()} remaining)
+              </button>
+            )}
+          </>
+        )}
+      </div>
+
+      {viewer && viewed && (
+        <div className="gallery-viewer" onClick={() => setViewer(null)}>
+          <div className="gallery-viewer-content" onClick={(e) => e.stopPropagation()}>
+            <button className="site-drawer-close gallery-viewer-close" onClick={() => setViewer(null)} title="Close (Esc)">✕</button>
+            {viewedImages[viewer.image] && !failedImages.has(viewedImages[viewer.image]) ? (
+              <img
+                src={viewedImages[viewer.image]}
+                alt={describeSpecies(viewed)}
+                onError={() => markFailed(viewedImages[viewer.image])}
+              />
+            ) : (
+              <div className="gallery-missing gallery-viewer-missing">Photo not found</div>
+            )}
+            <div className="gallery-viewer-caption">
+              <div>
+                <strong>{describeSpecies(viewed)}</strong> · {formatDateTime(viewed.startTime)} · Group size {viewed.groupSize}
+              </div>
+              <div>
+                {viewed.arrayName && `${viewed.arrayName} · `}
+                {viewed.latitude.toFixed(5)}, {viewed.longitude.toFixed(5)} · Sequence {viewed.sequenceId}
+                {viewedImages.length > 1 && ` · Photo ${viewer.image + 1} of ${viewedImages.length}`}
+              </div>
+              <div className="gallery-viewer-hint">← → step through photos and sequences</div>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
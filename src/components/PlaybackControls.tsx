@@ -0,0 +1,97 @@
+interface PlaybackControlsProps {
+  playing: boolean;
+  onPlayToggle: () => void;
+  windowSize: number;
+  onWindowSizeChange: (steps: number) => void;
+  interval: number;
+  onIntervalChange: (ms: number) => void;
+  unit: string; // 'month', 'season' or 'day'
+  label: string;
+  exportProgress: { frame: number; total: number } | null;
+  onExport: (format: 'png' | 'gif') => void;
+  exportError: string;
+  disabled?: boolean;
+}
+
+const WINDOW_SIZES = [1, 2, 3, 6, 12];
+const INTERVALS = [
+  { ms: 2000, label: 'Slow' },
+  { ms: 1000, label: 'Normal' },
+  { ms: 500, label: 'Fast' },
+  { ms: 250, label: 'Very fast' }
+];
+
+export const PlaybackControls = ({
+  playing,
+  onPlayToggle,
+  windowSize,
+  onWindowSizeChange,
+  interval,
+  onIntervalChange,
+  unit,
+  label,
+  exportProgress,
+  onExport,
+  exportError,
+  disabled = false
+}: PlaybackControlsProps) => {
+  const exporting = exportProgress !== null;
+
+  return (
+    <div className="map-toolbar section-body">
+      <button
+        className={`toggle-btn playback-play ${playing ? 'active' : ''}`}
+        onClick={onPlayToggle}
+        disabled={disabled || exporting}
+      >
+        {playing ? '⏸ Pause' : '▶ Play'}
+      </button>
+      <label className="playback-option">
+        Window
+        <select
+          className="filter-select"
+          value={windowSize}
+          onChange={(e) => onWindowSizeChange(Number(e.target.value))}
+          disabled={exporting}
+        >
+          {WINDOW_SIZES.map(size => (
+            <option key={size} value={size}>{size} {unit}{size === 1 ? '' : 's'}</option>
+          ))}
+        </select>
+      </label>
+      <label className="playback-option">
+        Speed
+        <select
+          className="filter-select"
+          value={interval}
+          onChange={(e) => onIntervalChange(Number(e.target.value))}
+          disabled={exporting}
+        >
+          {INTERVALS.map(({ ms, label: speedLabel }) => (
+            <option key={ms} value={ms}>{speedLabel} ({ms / 1000}s per frame)</option>
+          ))}
+        </select>
+      </label>
+      <span className="playback-label">{label}</span>
+      <div className="map-toolbar-actions">
+        {exporting ? (
+          <span className="playback-progress">
+            {exportProgress.frame < exportProgress.total
+              ? `Capturing frame ${exportProgress.frame + 1} of ${exportProgress.total}…`
+              : 'Preparing download…'}
+          </span>
+        ) : (
+          <>
+            {exportError && <span className="map-toolbar-error">{exportError}</span>}
+            <button onClick={() => onExport('png')} className="download-btn" disabled={disabled}>
+              ⬇ PNG Frames (zip)
+            </button>
+            <button onClick={() => onExport('gif')} className="download-btn" disabled={disabled}>
+              ⬇ Animated GIF
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
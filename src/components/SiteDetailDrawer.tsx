@@ -0,0 +1,277 @@
+import { RefObject, useEffect, useRef } from 'react';
+import {
+  BarChart,
+  Bar,
+  ScatterChart,
+  Scatter,
+  Cell,
+  XAxis,
+  YAxis,
+  ZAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer
+} from 'recharts';
+import { SiteDetail } from '../types';
+import { getSequenceUrl } from '../utils/sequenceLinks';
+
+interface SiteDetailDrawerProps {
+  detail: SiteDetail;
+  countLabel: string;
+  getColor: (species: string) => string;
+  sequenceUrlTemplate: string;
+  onSequenceUrlTemplateChange: (template: string) => void;
+  onExport: () => void;
+  onExportChart: (title: string, filename: string, chart: RefObject<HTMLDivElement>) => void;
+  onViewPhotos: () => void;
+  onClose: () => void;
+}
+
+const SEQUENCE_LIST_LIMIT = 100; // most recent sequences listed; the export has them all
+
+const formatDate = (date: Date) => date.toLocaleDateString();
+const formatDateTime = (date: Date) =>
+  `${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+
+// Side drawer for one camera location: its deployments and effort, species
+// with counts and RAI, hourly activity, a timeline of detections and links to
+// each sequence's photos.
+export const SiteDetailDrawer = ({
+  detail,
+  countLabel,
+  getColor,
+  sequenceUrlTemplate,
+  onSequenceUrlTemplateChange,
+  onExport,
+  onExportChart,
+  onViewPhotos,
+  onClose
+}: SiteDetailDrawerProps) => {
+  const hourlyChartRef = useRef<HTMLDivElement>(null);
+  const timelineChartRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const activeStart = detail.deployments.length > 0 ? detail.deployments[0].start : null;
+  const activeEnd = detail.deployments.length > 0
+    ? new Date(Math.max(...detail.deployments.map(d => d.end.getTime())))
+    : null;
+  const location = `${detail.latitude.toFixed(5)}, ${detail.longitude.toFixed(5)}`;
+  const fileLocation = `${detail.latitude.toFixed(5)}_${detail.longitude.toFixed(5)}`;
+  const speciesOrder = detail.species.map(s => s.species);
+  const timeline = detail.sequences.flatMap(sequence => sequence.species.map(species => ({
+    time: sequence.startTime.getTime(),
+    row: speciesOrder.indexOf(species),
+    species
+  })));
+  const recentSequences = detail.sequences.slice(-SEQUENCE_LIST_LIMIT).reverse();
+
+  return (
+    <aside className="site-drawer" aria-label="Camera location details">
+      <div className="site-drawer-header">
+        <div>
+          <h2 className="site-drawer-title">📹 Camera Location</h2>
+          <div className="site-drawer-subtitle">
+            {location}
+          </div>
+        </div>
+        <button className="site-drawer-close" onClick={onClose} title="Close (Esc)">✕</button>
+      </div>
+
+      <div className="site-drawer-body">
+        <dl className="site-drawer-facts">
+          <dt>Array</dt>
+          <dd>{detail.arrayNames.join(', ') || '—'}</dd>
+          <dt>Region</dt>
+          <dd>{detail.regions.join(', ') || '—'}</dd>
+          <dt>Active</dt>
+          <dd>{activeStart && activeEnd ? `${formatDate(activeStart)} – ${formatDate(activeEnd)}` : '—'}</dd>
+          <dt>Camera-nights</dt>
+          <dd>{Math.round(detail.cameraNights).toLocaleString()} in the selected dates</dd>
+          <dt>{countLabel}</dt>
+          <dd>{detail.totalCount.toLocaleString()}</dd>
+          <dt>Detected</dt>
+          <dd>
+            {detail.firstDetection && detail.lastDetection
+              ? `${formatDate(detail.firstDetection)} – ${formatDate(detail.lastDetection)}`
+              : 'No detections match the current filters'}
+          </dd>
+        </dl>
+
+        <h3 className="site-drawer-heading">Deployments</h3>
+        <table className="species-table site-drawer-table">
+          <thead>
+            <tr>
+              <th>Deployment</th>
+              <th>Start</th>
+              <th>End</th>
+              <th>Nights</th>
+            </tr>
+          </thead>
+          <tbody>
+            {detail.deployments.map(d => (
+              <tr key={d.deploymentId}>
+                <td>{d.deploymentId}</td>
+                <td>{formatDate(d.start)}</td>
+                <td>{formatDate(d.end)}{d.inferred ? '*' : ''}</td>
+                <td>{Math.round(d.cameraNights)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {detail.deployments.some(d => d.inferred) && (
+          <p className="filter-hint">* Dates inferred from the first and last detection</p>
+        )}
+
+        {detail.species.length > 0 && (
+          <>
+            <h3 className="site-drawer-heading">Species</h3>
+            <table className="species-table site-drawer-table">
+              <thead>
+                <tr>
+                  <th>Species</th>
+                  <th>{countLabel}</th>
+                  <th>RAI</th>
+                </tr>
+              </thead>
+              <tbody>
+                {detail.species.map(s => (
+                  <tr key={s.species}>
+                    <td>
+                      <span className="site-drawer-swatch" style={{ background: getColor(s.species) }} />
+                      {s.species}
+                    </td>
+                    <td>{s.count.toLocaleString()}</td>
+                    <td>{s.rai}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div className="site-drawer-heading-row">
+              <h3 className="site-drawer-heading">Activity by Hour</h3>
+              <button
+                className="clear-species-btn"
+                onClick={() => onExportChart(`Activity by hour at ${location}`, `camera_${fileLocation}_activity`, hourlyChartRef)}
+              >
+                ⬇ Chart
+              </button>
+            </div>
+            <div ref={hourlyChartRef}>
+              <ResponsiveContainer width="100%" height={160}>
+                <BarChart data={detail.hourly} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
+                  <XAxis dataKey="hour" stroke="#666" style={{ fontSize: '11px' }} tickFormatter={(h: number) => `${h}:00`} interval={5} />
+                  <YAxis stroke="#666" style={{ fontSize: '11px' }} allowDecimals={false} width={30} />
+                  <Tooltip labelFormatter={(h) => `${h}:00`} formatter={(value) => [value, countLabel]} />
+                  <Bar dataKey="count" fill="#4A90E2" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div className="site-drawer-heading-row">
+              <h3 className="site-drawer-heading">Timeline</h3>
+              <button
+                className="clear-species-btn"
+                onClick={() => onExportChart(`Detection timeline at ${location}`, `camera_${fileLocation}_timeline`, timelineChartRef)}
+              >
+                ⬇ Chart
+              </button>
+            </div>
+            <div ref={timelineChartRef}>
+              <ResponsiveContainer width="100%" height={Math.max(120, speciesOrder.length * 22 + 50)}>
+                <ScatterChart margin={{ top: 5, right: 15, left: 0, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
+                  <XAxis
+                    type="number"
+                    dataKey="time"
+                    domain={['dataMin', 'dataMax']}
+                    stroke="#666"
+                    style={{ fontSize: '11px' }}
+                    tickFormatter={(time: number) => new Date(time).toLocaleDateString([], { month: 'short', year: '2-digit' })}
+                  />
+                  <YAxis
+                    type="number"
+                    dataKey="row"
+                    domain={[-0.5, speciesOrder.length - 0.5]}
+                    ticks={speciesOrder.map((_, i) => i)}
+                    tickFormatter={(row: number) => speciesOrder[row] ?? ''}
+                    reversed
+                    stroke="#666"
+                    style={{ fontSize: '10px' }}
+                    width={110}
+                  />
+                  <ZAxis range={[20, 20]} />
+                  <Tooltip
+                    cursor={false}
+                    content={({ payload }) => {
+                      const point = payload?.[0]?.payload as (typeof timeline)[number] | undefined;
+                      if (!point) return null;
+                      return (
+                        <div className="site-drawer-tooltip">
+                          <strong>{point.species}</strong><br />
+                          {formatDateTime(new Date(point.time))}
+                        </div>
+                      );
+                    }}
+                  />
+                  <Scatter data={timeline} isAnimationActive={false}>
+                    {timeline.map((point, i) => <Cell key={i} fill={getColor(point.species)} />)}
+                  </Scatter>
+                </ScatterChart>
+              </ResponsiveContainer>
+            </div>
+          </>
+        )}
+
+        <h3 className="site-drawer-heading">Sequences</h3>
+        <label className="filter-label" htmlFor="sequence-url-template">Photo link template</label>
+        <input
+          id="sequence-url-template"
+          type="text"
+          className="species-search-input"
+          placeholder="https://photos.example.org/{deploymentId}/{sequenceId}"
+          value={sequenceUrlTemplate}
+          onChange={(e) => onSequenceUrlTemplateChange(e.target.value)}
+        />
+        {detail.sequences.length > SEQUENCE_LIST_LIMIT && (
+          <p className="filter-hint">
+            Showing the {SEQUENCE_LIST_LIMIT} most recent of {detail.sequences.length.toLocaleString()} sequences
+          </p>
+        )}
+        <ul className="site-drawer-sequences">
+          {recentSequences.map((sequence, i) => {
+            const url = getSequenceUrl(sequenceUrlTemplate, sequence);
+            return (
+              <li key={`${sequence.sequenceId}-${i}`}>
+                <span className="site-drawer-sequence-time">{formatDateTime(sequence.startTime)}</span>
+                <span>{sequence.species.join(', ')}</span>
+                {url ? (
+                  <a href={url} target="_blank" rel="noopener noreferrer">{sequence.sequenceId} ↗</a>
+                ) : (
+                  <span className="site-drawer-sequence-id">{sequence.sequenceId || '—'}</span>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+
+      <div className="site-drawer-footer">
+        <button className="download-btn" onClick={onExport} disabled={detail.sequences.length === 0}>
+          <span className="download-icon">⬇</span>
+          Download Site Records
+        </button>
+        <button className="clear-species-btn" onClick={onViewPhotos} disabled={detail.sequences.length === 0}>
+          📷 View Photos
+        </button>
+      </div>
+    </aside>
+  );
+};
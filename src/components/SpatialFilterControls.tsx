@@ -0,0 +1,93 @@
+import { useRef, useState } from 'react';
+import { MapDrawMode, SpatialShape } from '../types';
+import { shapesFromGeoJSON, shapesToGeoJSON } from '../utils/spatial';
+
+interface SpatialFilterControlsProps {
+  area: SpatialShape[];
+  drawMode: MapDrawMode | null;
+  onDrawModeChange: (mode: MapDrawMode | null) => void;
+  onAreaChange: (area: SpatialShape[]) => void;
+}
+
+const DRAW_MODES: { mode: MapDrawMode; label: string; hint: string }[] = [
+  { mode: 'polygon', label: 'Polygon', hint: 'Click to add corners; click the first or last corner again to finish.' },
+  { mode: 'rectangle', label: 'Rectangle', hint: 'Click two opposite corners.' },
+  { mode: 'circle', label: 'Circle', hint: 'Click the centre, then a point on the edge.' }
+];
+
+export const SpatialFilterControls = ({ area, drawMode, onDrawModeChange, onAreaChange }: SpatialFilterControlsProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importError, setImportError] = useState('');
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(shapesToGeoJSON(area), null, 2)], { type: 'application/geo+json' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `map-area-${new Date().toISOString().split('T')[0]}.geojson`;
+    link.click();
+  };
+
+  // Imported shapes are added to any already drawn
+  const handleImport = async (file: File) => {
+    try {
+      const shapes = shapesFromGeoJSON(JSON.parse(await file.text()));
+      setImportError('');
+      onAreaChange([...area, ...shapes]);
+    } catch (error) {
+      setImportError(`Could not import ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const hint = DRAW_MODES.find(({ mode }) => mode === drawMode)?.hint;
+
+  return (
+    <div className="map-toolbar section-body">
+      <span className="map-toolbar-label">Filter by area</span>
+      <div className="activity-toggle">
+        {DRAW_MODES.map(({ mode, label }) => (
+          <button
+            key={mode}
+            className={`toggle-btn ${drawMode === mode ? 'active' : ''}`}
+            onClick={() => onDrawModeChange(drawMode === mode ? null : mode)}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <span className="map-toolbar-status">
+        {hint
+          ? `${hint} Esc cancels.`
+          : area.length > 0
+            ? `${area.length} area${area.length === 1 ? '' : 's'} filtering the dashboard`
+            : 'Draw a shape to filter every chart and table to the cameras inside it'}
+      </span>
+      {importError && <span className="map-toolbar-error">{importError}</span>}
+      <div className="map-toolbar-actions">
+        {area.length > 0 && (
+          <>
+            <button className="clear-species-btn" onClick={() => onAreaChange([])}>
+              Clear Areas
+            </button>
+            <button className="download-btn" onClick={handleExport}>
+              ⬇ GeoJSON
+            </button>
+          </>
+        )}
+        <button className="download-btn" onClick={() => fileInputRef.current?.click()}>
+          ⬆ Import GeoJSON
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".geojson,.json,application/geo+json,application/json"
+          style={{ display: 'none' }}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleImport(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,251 @@
+import { useState, useEffect, RefObject } from 'react';
+import {
+  ComposedChart,
+  BarChart,
+  Bar,
+  Line,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer
+} from 'recharts';
+import { DetectionQuery, TrendPeriod, TrendResult, TrendSeries } from '../types';
+import { queryTrends } from '../workers/detectionWorkerClient';
+
+interface TrendPanelProps {
+  query: DetectionQuery;
+  datasetVersion: number;
+  period: TrendPeriod;
+  splitByRegion: boolean;
+  metric: 'count' | 'rai';
+  valueLabel: string;
+  getColor: (name: string) => string;
+  chartRef: RefObject<HTMLDivElement>;
+  comparisonChartRef: RefObject<HTMLDivElement>;
+  onDownloadComparison: (yearA: string, yearB: string) => void;
+}
+
+const formatChange = (change: number) => `${change >= 0 ? '+' : ''}${(change * 100).toFixed(1)}%`;
+
+const getYearValue = (series: TrendSeries, year: string) => series.points.find(p => p.label === year);
+
+export const TrendPanel = ({
+  query,
+  datasetVersion,
+  period,
+  splitByRegion,
+  metric,
+  valueLabel,
+  getColor,
+  chartRef,
+  comparisonChartRef,
+  onDownloadComparison
+}: TrendPanelProps) => {
+  const [result, setResult] = useState<TrendResult | null>(null);
+  const [yearA, setYearA] = useState('');
+  const [yearB, setYearB] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    queryTrends(query, period, splitByRegion, metric)
+      .then(trends => {
+        if (!cancelled) setResult(trends);
+      })
+      .catch(err => console.error('Error computing trends:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [query, datasetVersion, period, splitByRegion, metric]);
+
+  if (!result) return <div className="no-data">Computing trends…</div>;
+  if (result.series.length === 0) return <div className="no-data">No detections match the current filters</div>;
+
+  // One row per period; the band is a [lower, upper] pair for the shaded area
+  const labels: string[] = [];
+  result.series.forEach(series => series.points.forEach(p => {
+    if (!labels.includes(p.label)) labels.push(p.label);
+  }));
+  const startByLabel = new Map(result.series.flatMap(series => series.points.map(p => [p.label, new Date(p.start).getTime()] as const)));
+  labels.sort((a, b) => startByLabel.get(a)! - startByLabel.get(b)!);
+  const chartData = labels.map(label => {
+    const row: Record<string, string | number | [number, number] | null> = { label };
+    result.series.forEach(series => {
+      const point = series.points.find(p => p.label === label);
+      if (!point) return;
+      row[series.name] = point.value;
+      row[`${series.name} (trend)`] = point.fitted;
+      row[`${series.name} (95% CI)`] = point.lower !== null && point.upper !== null ? [point.lower, point.upper] : null;
+    });
+    return row;
+  });
+
+  // Year-to-year comparison defaults to the last two years with data
+  const years = Array.from(new Set(result.years.flatMap(series => series.points.map(p => p.label)))).sort();
+  const compareA = years.includes(yearA) ? yearA : years[Math.max(0, years.length - 2)] || '';
+  const compareB = years.includes(yearB) ? yearB : years[years.length - 1] || '';
+  const comparison = result.years.map(series => {
+    const a = getYearValue(series, compareA);
+    const b = getYearValue(series, compareB);
+    return {
+      name: series.name,
+      valueA: a ? a.value : 0,
+      valueB: b ? b.value : 0,
+      cameraNightsA: a ? a.cameraNights : 0,
+      cameraNightsB: b ? b.cameraNights : 0
+    };
+  });
+
+  return (
+    <div className="trend-panel">
+      <div className="chart-container" ref={chartRef}>
+        <ResponsiveContainer width="100%" height={400}>
+          <ComposedChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
+            <XAxis dataKey="label" stroke="#666" style={{ fontSize: '12px' }} />
+            <YAxis
+              stroke="#666"
+              style={{ fontSize: '12px' }}
+              label={{ value: valueLabel, angle: -90, position: 'insideLeft' }}
+            />
+            <Tooltip
+              contentStyle={{
+                background: 'white',
+                border: '2px solid #4A90E2',
+                borderRadius: '8px'
+              }}
+            />
+            <Legend />
+            {result.series.map(series => (
+              <Area
+                key={`${series.name}-band`}
+                dataKey={`${series.name} (95% CI)`}
+                stroke="none"
+                fill={getColor(series.name)}
+                fillOpacity={0.12}
+                legendType="none"
+                isAnimationActive={false}
+              />
+            ))}
+            {result.series.map(series => (
+              <Line
+                key={`${series.name}-trend`}
+                dataKey={`${series.name} (trend)`}
+                stroke={getColor(series.name)}
+                strokeDasharray="6 4"
+                strokeWidth={2}
+                dot={false}
+                legendType="none"
+                isAnimationActive={false}
+              />
+            ))}
+            {result.series.map(series => (
+              <Line
+                key={series.name}
+                type="monotone"
+                dataKey={series.name}
+                stroke={getColor(series.name)}
+                strokeWidth={3}
+                dot={{ fill: getColor(series.name), r: 4 }}
+                activeDot={{ r: 6 }}
+              />
+            ))}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="table-container">
+        <table className="species-table">
+          <thead>
+            <tr>
+              <th>Series</th>
+              <th>Change per Year</th>
+              <th>95% CI</th>
+              <th>p</th>
+              <th>Dispersion</th>
+            </tr>
+          </thead>
+          <tbody>
+            {result.series.map(series => (
+              <tr key={series.name}>
+                <td>{series.name}</td>
+                {series.slope ? (
+                  <>
+                    <td>{formatChange(series.slope.annualChange)}</td>
+                    <td>{formatChange(series.slope.lower)} to {formatChange(series.slope.upper)}</td>
+                    <td>{series.slope.pValue < 0.001 ? '< 0.001' : series.slope.pValue.toFixed(3)}</td>
+                    <td>{series.slope.dispersion.toFixed(2)}</td>
+                  </>
+                ) : (
+                  <td colSpan={4}>Not enough {period === 'year' ? 'years' : 'seasons'} with detections to fit a trend</td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {years.length >= 2 && (
+        <div className="trend-comparison">
+          <div className="activity-overlap-pair">
+            <select className="filter-select" value={compareA} onChange={(e) => setYearA(e.target.value)}>
+              {years.map(year => <option key={year} value={year}>{year}</option>)}
+            </select>
+            <span>vs</span>
+            <select className="filter-select" value={compareB} onChange={(e) => setYearB(e.target.value)}>
+              {years.map(year => <option key={year} value={year}>{year}</option>)}
+            </select>
+            <button className="clear-species-btn" onClick={() => onDownloadComparison(compareA, compareB)}>
+              ⬇ Download Chart
+            </button>
+          </div>
+          <div className="chart-container" ref={comparisonChartRef}>
+            <ResponsiveContainer width="100%" height={300}>
+              <BarChart data={comparison} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
+                <XAxis dataKey="name" stroke="#666" style={{ fontSize: '11px' }} />
+                <YAxis stroke="#666" style={{ fontSize: '12px' }} />
+                <Tooltip
+                  contentStyle={{
+                    background: 'white',
+                    border: '2px solid #4A90E2',
+                    borderRadius: '8px'
+                  }}
+                />
+                <Legend />
+                <Bar dataKey="valueA" fill="#95a5a6" name={compareA} />
+                <Bar dataKey="valueB" fill="#4A90E2" name={compareB} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+          <div className="table-container">
+            <table className="species-table">
+              <thead>
+                <tr>
+                  <th>Series</th>
+                  <th>{compareA}</th>
+                  <th>{compareB}</th>
+                  <th>Change</th>
+                  <th>Camera-Nights ({compareA} / {compareB})</th>
+                </tr>
+              </thead>
+              <tbody>
+                {comparison.map(row => (
+                  <tr key={row.name}>
+                    <td>{row.name}</td>
+                    <td>{row.valueA.toLocaleString()}</td>
+                    <td>{row.valueB.toLocaleString()}</td>
+                    <td>{row.valueA > 0 ? formatChange(row.valueB / row.valueA - 1) : '—'}</td>
+                    <td>{Math.round(row.cameraNightsA).toLocaleString()} / {Math.round(row.cameraNightsB).toLocaleString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -20,19 +20,75 @@ export interface DetectionRecord {
   deployment_id: string;
 }
 
+// Light conditions at the time of a detection; crepuscular is within an hour
+// either side of sunrise or sunset
+export type DielPeriod = 'diurnal' | 'crepuscular' | 'nocturnal';
+
 export interface ProcessedDetection {
   year: number;
   commonName: string;
+  taxonClass: string;
+  order: string;
+  family: string;
+  genus: string;
+  species: string;
+  age: string;
+  sex: string;
+  identifiedBy: string;
   startTime: Date;
+  endTime: Date;
   groupSize: number;
   latitude: number;
   longitude: number;
   hour: number;
   month: number;
+  sunTime: number; // hours, with sunrise at 6 and sunset at 18
+  dielPeriod: DielPeriod;
   region: string;
   arrayName: string;
   sequenceId: string;
   deploymentId: string;
+  source: string; // file the row was loaded from
+  rowNumber: number; // line in that file, header = 1
+}
+
+export interface ValidationIssue {
+  source: string;
+  rowNumber: number;
+  reason: string;
+  sequenceId: string;
+  commonName: string;
+}
+
+export interface DataQualityIssue extends ValidationIssue {
+  severity: 'dropped' | 'warning';
+  detail: string;
+}
+
+export interface ValidationReport {
+  source: string;
+  totalRows: number;
+  keptRows: number;
+  duplicateRows: number;
+  derivedYears: number; // kept rows whose year was taken from start_time
+  dropped: ValidationIssue[];
+}
+
+export interface DeploymentRecord {
+  deployment_id: string;
+  start_date: string;
+  end_date: string;
+}
+
+export interface DeploymentEffort {
+  deploymentId: string;
+  start: Date;
+  end: Date;
+  latitude: number;
+  longitude: number;
+  region: string;
+  arrayName: string;
+  inferred: boolean; // true when dates come from first/last detection rather than a deployments file
 }
 
 export interface SpeciesCount {
@@ -40,6 +96,11 @@ export interface SpeciesCount {
   count: number;
 }
 
+// A species' detections and the camera locations that detected it
+export interface SpeciesTotal extends SpeciesCount {
+  cameras: number;
+}
+
 export interface HourlyActivity {
   hour: number;
   count: number;
@@ -50,3 +111,325 @@ export interface MonthlyActivity {
   monthName: string;
   count: number;
 }
+
+// One species' activity counts, indexed by hour (0-23) or month (0-11)
+export interface SpeciesActivitySeries {
+  species: string;
+  total: number;
+  counts: number[];
+}
+
+export interface LocationCount {
+  lat: number;
+  lng: number;
+  species: SpeciesCount[];
+  totalCount: number;
+}
+
+export interface ArraySpeciesRow {
+  species: string;
+  detections: number; // rows, or independent events in events mode
+  totalGroupSize: number; // individuals: summed group sizes
+  distinctCameras: number;
+  totalCameras: number;
+  proportion: string;
+  rai: string;
+}
+
+// An area drawn on the map. Polygon and rectangle vertices are [lat, lng];
+// circles have a centre and a radius in metres.
+export type SpatialShape =
+  | { type: 'polygon' | 'rectangle'; vertices: [number, number][] }
+  | { type: 'circle'; center: [number, number]; radius: number };
+
+// A polygon layer loaded from GeoJSON or a shapefile. Each feature's rings
+// are [lat, lng] vertices tested with the even-odd rule, so holes and
+// multipart polygons need no special handling. Attribute values are strings.
+export interface BoundaryFeature {
+  properties: Record<string, string>;
+  rings: [number, number][][];
+  bbox: [number, number, number, number]; // minLat, minLng, maxLat, maxLng
+}
+
+export interface BoundaryLayer {
+  id: string;
+  name: string;
+  attributes: string[];
+  features: BoundaryFeature[];
+}
+
+// Cameras whose polygon in a boundary layer has one of these attribute values
+export interface BoundaryFilter {
+  layerId: string;
+  attribute: string;
+  values: string[];
+}
+
+// Sidebar selections; ['All'] (or an empty list) means no filter, and null
+// date bounds leave that end of the range open
+export interface DetectionFilters {
+  species: string[];
+  regions: string[];
+  arrayNames: string[];
+  orders: string[];
+  families: string[];
+  genera: string[];
+  ageClasses: string[];
+  sexes: string[];
+  dateStart: Date | null; // inclusive
+  dateEnd: Date | null; // exclusive
+  area: SpatialShape[]; // cameras inside any of these; empty means no filter
+  boundaries: BoundaryFilter[];
+}
+
+// Time of day on the camera clock, apparent solar time at the camera, or
+// sun time relative to that day's sunrise and sunset
+export type TimeBasis = 'clock' | 'solar' | 'sun';
+
+// How camera locations are drawn on the detection map
+export type MapLayerMode = 'markers' | 'heatmap' | 'hexbin';
+
+// Shape being drawn on the map to filter by area
+export type MapDrawMode = 'polygon' | 'rectangle' | 'circle';
+
+// A map background. XYZ sources take a {z}/{x}/{y} URL template (a tile
+// server or a directory of tiles); MBTiles sources the URL of an .mbtiles
+// file read in the browser; the outline needs no tiles at all.
+export interface BasemapSource {
+  id: string;
+  name: string;
+  type: 'xyz' | 'mbtiles' | 'outline';
+  url: string;
+  attribution: string;
+  maxZoom: number;
+  subdomains?: string;
+  tms?: boolean; // tile rows counted from the south, as in TMS directories
+}
+
+export interface DetectionQuery {
+  filters: DetectionFilters;
+  countMode: 'raw' | 'events';
+  eventThreshold: number; // minutes
+  timeBasis: TimeBasis;
+  communityBoundary: { layerId: string; attribute: string } | null; // extra community grouping
+}
+
+// Circular kernel density of time of day, as the share of daily activity per
+// hour at evenly spaced points around the clock
+export interface DielActivityCurve {
+  species: string;
+  sampleSize: number;
+  density: number[];
+}
+
+// Coefficient of overlap between two species' diel activity
+export interface OverlapEstimate {
+  speciesA: string;
+  speciesB: string;
+  estimator: 'Dhat1' | 'Dhat4';
+  value: number;
+  lower: number; // 95% bootstrap percentile interval
+  upper: number;
+  sampleSizes: [number, number];
+  iterations: number;
+}
+
+// Share of a species' detections in each diel period
+export interface DielPeriodShare {
+  species: string;
+  total: number;
+  diurnal: number;
+  crepuscular: number;
+  nocturnal: number;
+}
+
+// Community metrics for one array or region; naive occupancy is the share of
+// its cameras that detected each species
+export interface CommunitySummaryRow {
+  group: string;
+  cameras: number;
+  camerasWithDetections: number;
+  detections: number;
+  richness: number;
+  chao1: number;
+  shannon: number;
+  simpson: number;
+  naiveOccupancy: Record<string, number>;
+}
+
+// Species accumulation against sampling effort: cameras (deployments) or
+// camera-days, with a 95% envelope over randomized sampling orders
+export type AccumulationAxis = 'cameras' | 'days';
+
+export interface AccumulationPoint {
+  effort: number;
+  mean: number;
+  lower: number;
+  upper: number;
+}
+
+export interface AccumulationCurve {
+  group: string;
+  units: number; // cameras or camera-days sampled
+  observedSpecies: number;
+  points: AccumulationPoint[];
+}
+
+// How often two species are detected at the same camera location (and,
+// optionally, within a time window of each other)
+export interface CooccurrencePair {
+  speciesA: string;
+  speciesB: string;
+  sitesA: number;
+  sitesB: number;
+  cooccurrences: number;
+  expected: number; // under random, independent site occupancy
+  jaccard: number;
+  effect: number; // (observed - expected) / sites
+  pLower: number; // P(cooccurrences <= observed), small = avoidance
+  pUpper: number; // P(cooccurrences >= observed), small = association
+}
+
+export interface CooccurrenceMatrix {
+  species: string[];
+  sites: number;
+  pairs: CooccurrencePair[];
+}
+
+export type TrendPeriod = 'year' | 'season';
+
+// Detections in one year or season, with the fitted trend in the same units
+// as `value` (detections, or detections per 100 camera-nights)
+export interface TrendPoint {
+  label: string;
+  start: Date;
+  count: number;
+  cameraNights: number;
+  value: number;
+  fitted: number | null;
+  lower: number | null; // 95% confidence band
+  upper: number | null;
+}
+
+// Annual rate of change from a quasi-Poisson log-linear model, as a fraction
+// (0.05 is +5% per year)
+export interface TrendSlope {
+  annualChange: number;
+  lower: number;
+  upper: number;
+  pValue: number;
+  dispersion: number;
+}
+
+export interface TrendSeries {
+  name: string;
+  species: string;
+  region: string; // '' unless split by region
+  points: TrendPoint[];
+  slope: TrendSlope | null;
+}
+
+export interface TrendResult {
+  period: TrendPeriod;
+  metric: 'count' | 'rai';
+  series: TrendSeries[];
+  years: TrendSeries[]; // yearly series for year-to-year comparison
+}
+
+// Everything the dashboard renders for one set of filters. Row references are
+// indices into the dataset the summary was computed from.
+export interface DetectionSummary {
+  datasetVersion: number;
+  totalCount: number;
+  distinctCameras: number;
+  totalCameraLocations: number;
+  totalCameraNights: number;
+  hourly: HourlyActivity[];
+  hourlyBySpecies: SpeciesActivitySeries[]; // only when a species filter is set
+  monthly: MonthlyActivity[];
+  monthlyBySpecies: SpeciesActivitySeries[];
+  dielActivity: DielActivityCurve[];
+  dielPeriods: DielPeriodShare[];
+  speciesFrequency: SpeciesCount[];
+  speciesCameraCounts: SpeciesCount[];
+  speciesRAI: SpeciesCount[];
+  speciesTotals: SpeciesTotal[]; // every species, not just the top 15, for compare mode
+  locations: (LocationCount & { cameraNights: number })[];
+  arraySpeciesTable: ArraySpeciesRow[];
+  communityByArray: CommunitySummaryRow[]; // every array and region, date filter only
+  communityByRegion: CommunitySummaryRow[];
+  communityByBoundary: CommunitySummaryRow[]; // by the query's boundary layer attribute, if any
+}
+
+// One measure under two filter sets, for compare mode. Ratio is null when
+// set A has none.
+export interface ComparisonRow {
+  label: string;
+  a: number;
+  b: number;
+  difference: number; // b - a
+  ratio: number | null; // b / a
+}
+
+// One sequence (burst of photos) under the filters, for the photo gallery
+export interface GallerySequence {
+  sequenceId: string;
+  deploymentId: string;
+  startTime: Date;
+  species: { species: string; groupSize: number }[];
+  groupSize: number;
+  latitude: number;
+  longitude: number;
+  arrayName: string;
+}
+
+// Values each sidebar filter can take in the working dataset, sorted and
+// without 'All'
+export interface FilterOptions {
+  species: string[];
+  regions: string[];
+  arrayNames: string[];
+  orders: string[];
+  families: string[];
+  genera: string[];
+  ageClasses: string[];
+  sexes: string[];
+}
+
+// One sequence (burst of photos) at a camera location, for the detail drawer
+export interface SiteSequence {
+  sequenceId: string;
+  deploymentId: string;
+  startTime: Date;
+  species: string[];
+}
+
+// Everything known about one camera location under the current filters
+export interface SiteDetail {
+  latitude: number;
+  longitude: number;
+  arrayNames: string[];
+  regions: string[];
+  deployments: (DeploymentEffort & { cameraNights: number })[]; // every deployment here; nights clipped to the date filter
+  cameraNights: number;
+  totalCount: number;
+  firstDetection: Date | null;
+  lastDetection: Date | null;
+  species: { species: string; count: number; rai: number }[];
+  hourly: HourlyActivity[];
+  sequences: SiteSequence[]; // oldest first
+}
+
+// Page set-up for an exported chart or map. Width and height are in inches;
+// chart text is laid out so 12px on screen prints at `fontSize` points.
+export type FigureFormat = 'svg' | 'pdf' | 'png';
+export type FigureFont = 'sans-serif' | 'serif' | 'monospace';
+
+export interface FigureOptions {
+  format: FigureFormat;
+  width: number;
+  height: number;
+  dpi: number; // PNG resolution, and the map's basemap tiles in every format
+  fontFamily: FigureFont;
+  fontSize: number; // points
+}
@@ -0,0 +1,118 @@
+import { AccumulationAxis, AccumulationCurve, AccumulationPoint, DeploymentEffort, ProcessedDetection } from '../types';
+import { createRandom, shuffle } from './random';
+
+// Species accumulation curves: species detected as sampling units are added
+// in random order, averaged over many orders. A curve that has flattened out
+// means more of the same sampling is unlikely to add species.
+
+const MAX_POINTS = 100;
+
+const getDayKey = (time: Date) => `${time.getFullYear()}-${time.getMonth()}-${time.getDate()}`;
+
+// A camera is its location, so successive deployments at one spot count once
+const getUnitKey = (d: { deploymentId: string; latitude: number; longitude: number }) =>
+  d.latitude && d.longitude ? `${d.latitude},${d.longitude}` : d.deploymentId;
+
+// Species (as indices) seen in each sampling unit. Cameras are camera
+// locations; camera-days are every day a camera ran in the window, detections
+// or not.
+const getSamplingUnits = (
+  rows: ProcessedDetection[],
+  deployments: DeploymentEffort[],
+  axis: AccumulationAxis,
+  speciesIndex: Map<string, number>,
+  windowStart?: Date,
+  windowEnd?: Date
+): number[][] => {
+  const units = new Map<string, Set<number>>();
+  const addUnit = (key: string) => {
+    if (!units.has(key)) units.set(key, new Set());
+    return units.get(key)!;
+  };
+
+  deployments.forEach(d => {
+    if (axis === 'cameras') {
+      addUnit(getUnitKey(d));
+      return;
+    }
+    const start = windowStart && windowStart > d.start ? windowStart : d.start;
+    const end = windowEnd && windowEnd < d.end ? new Date(windowEnd.getTime() - 1) : d.end;
+    let day = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+    while (day <= end) {
+      addUnit(`${getUnitKey(d)}|${getDayKey(day)}`);
+      day = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1);
+    }
+  });
+
+  rows.forEach(d => {
+    const key = axis === 'cameras' ? getUnitKey(d) : `${getUnitKey(d)}|${getDayKey(d.startTime)}`;
+    addUnit(key).add(speciesIndex.get(d.commonName)!);
+  });
+
+  return Array.from(units.values(), species => Array.from(species));
+};
+
+// Effort levels to report; every unit for short curves, about MAX_POINTS
+// evenly spaced ones (always ending at the total) for long ones
+const getCheckpoints = (units: number): number[] => {
+  if (units <= MAX_POINTS) return Array.from({ length: units }, (_, i) => i + 1);
+  const checkpoints = new Set<number>();
+  for (let i = 1; i <= MAX_POINTS; i++) {
+    checkpoints.add(Math.max(1, Math.round((i * units) / MAX_POINTS)));
+  }
+  return Array.from(checkpoints).sort((a, b) => a - b);
+};
+
+export const getAccumulationCurve = (
+  group: string,
+  rows: ProcessedDetection[],
+  deployments: DeploymentEffort[],
+  axis: AccumulationAxis,
+  permutations: number,
+  windowStart?: Date,
+  windowEnd?: Date
+): AccumulationCurve => {
+  const speciesIndex = new Map<string, number>();
+  rows.forEach(d => {
+    if (!speciesIndex.has(d.commonName)) speciesIndex.set(d.commonName, speciesIndex.size);
+  });
+
+  const units = getSamplingUnits(rows, deployments, axis, speciesIndex, windowStart, windowEnd);
+  const checkpoints = getCheckpoints(units.length);
+  const samples: number[][] = checkpoints.map(() => []);
+  const random = createRandom(units.length * 31 + speciesIndex.size);
+  const order = units.map((_, i) => i);
+  const seen = new Uint8Array(speciesIndex.size);
+
+  for (let p = 0; p < permutations; p++) {
+    shuffle(order, random);
+    seen.fill(0);
+    let richness = 0;
+    let next = 0;
+    for (let i = 0; i < order.length && next < checkpoints.length; i++) {
+      units[order[i]].forEach(species => {
+        if (!seen[species]) {
+          seen[species] = 1;
+          richness++;
+        }
+      });
+      if (i + 1 === checkpoints[next]) {
+        samples[next].push(richness);
+        next++;
+      }
+    }
+  }
+
+  const points: AccumulationPoint[] = checkpoints.map((effort, i) => {
+    const sorted = samples[i].sort((a, b) => a - b);
+    const percentile = (q: number) => sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))];
+    return {
+      effort,
+      mean: Number((sorted.reduce((sum, v) => sum + v, 0) / sorted.length).toFixed(2)),
+      lower: percentile(0.025),
+      upper: percentile(0.975)
+    };
+  });
+
+  return { group, units: units.length, observedSpecies: speciesIndex.size, points };
+};
@@ -0,0 +1,170 @@
+import { OverlapEstimate, ProcessedDetection, TimeBasis } from '../types';
+import { getTimeOfDayHours } from './solar';
+import { createRandom } from './random';
+
+// Circular kernel density estimates of diel activity and the Ridout & Linkie
+// (2009) coefficient of overlap between two species, following the
+// estimators in the R `overlap` package. Times are binned onto a fine grid
+// around the clock so densities and bootstraps stay fast on large datasets.
+
+export const DENSITY_GRID_SIZE = 288; // 5-minute bins
+const BIN_WIDTH = (2 * Math.PI) / DENSITY_GRID_SIZE;
+const MAX_KAPPA = 3;
+
+// Sample size at which Dhat4 becomes the recommended estimator over Dhat1
+const DHAT4_MIN_SAMPLE = 75;
+
+// Time of day in radians [0, 2π) from the full timestamp rather than the
+// integer hour
+export const getTimeOfDayRadians = (d: ProcessedDetection, basis: TimeBasis): number => {
+  return (getTimeOfDayHours(d, basis) / 24) * 2 * Math.PI;
+};
+
+const binTimes = (radians: number[]): Float64Array => {
+  const counts = new Float64Array(DENSITY_GRID_SIZE);
+  radians.forEach(r => {
+    counts[Math.min(DENSITY_GRID_SIZE - 1, Math.floor(r / BIN_WIDTH))]++;
+  });
+  return counts;
+};
+
+// Modified Bessel function of the first kind, by its power series
+const besselI = (order: number, x: number): number => {
+  let term = Math.pow(x / 2, order);
+  for (let k = 1; k <= order; k++) term /= k;
+  let sum = term;
+  for (let k = 1; k < 500; k++) {
+    term *= (x / 2) * (x / 2) / (k * (k + order));
+    sum += term;
+    if (term < sum * 1e-15) break;
+  }
+  return sum;
+};
+
+// Von Mises concentration from the mean resultant length (Best & Fisher
+// approximation), capped as in `overlap::getBandWidth`
+const estimateKappa = (counts: Float64Array, n: number): number => {
+  let sumCos = 0;
+  let sumSin = 0;
+  counts.forEach((count, i) => {
+    const angle = (i + 0.5) * BIN_WIDTH;
+    sumCos += count * Math.cos(angle);
+    sumSin += count * Math.sin(angle);
+  });
+  const r = Math.sqrt(sumCos * sumCos + sumSin * sumSin) / n;
+  let kappa: number;
+  if (r < 0.53) {
+    kappa = 2 * r + Math.pow(r, 3) + (5 * Math.pow(r, 5)) / 6;
+  } else if (r < 0.85) {
+    kappa = -0.4 + 1.39 * r + 0.43 / (1 - r);
+  } else {
+    kappa = 1 / (Math.pow(r, 3) - 4 * r * r + 3 * r);
+  }
+  return Math.min(kappa, MAX_KAPPA);
+};
+
+// Kernel concentration for n times (Taylor 2008 plug-in rule)
+const getBandwidth = (counts: Float64Array, n: number): number => {
+  const kappa = estimateKappa(counts, n);
+  return Math.pow(
+    (3 * n * kappa * kappa * besselI(2, 2 * kappa)) / (4 * Math.sqrt(Math.PI) * Math.pow(besselI(0, kappa), 2)),
+    2 / 5
+  );
+};
+
+// Density per radian on the grid; integrates to 1 around the circle
+const getDensityFromCounts = (counts: Float64Array, n: number, adjust: number): Float64Array => {
+  const concentration = Math.max(getBandwidth(counts, n) * adjust, 1e-6);
+  const kernel = new Float64Array(DENSITY_GRID_SIZE);
+  let kernelSum = 0;
+  for (let k = 0; k < DENSITY_GRID_SIZE; k++) {
+    kernel[k] = Math.exp(concentration * (Math.cos(k * BIN_WIDTH) - 1));
+    kernelSum += kernel[k];
+  }
+  const normalizer = kernelSum * BIN_WIDTH * n;
+
+  const density = new Float64Array(DENSITY_GRID_SIZE);
+  counts.forEach((count, j) => {
+    if (count === 0) return;
+    for (let i = 0; i < DENSITY_GRID_SIZE; i++) {
+      density[i] += (count * kernel[(i - j + DENSITY_GRID_SIZE) % DENSITY_GRID_SIZE]) / normalizer;
+    }
+  });
+  return density;
+};
+
+// Activity density for a set of times, as a share of daily activity per hour
+// at each grid point (so the curve integrates to 1 over 24 hours)
+export const getActivityDensity = (radians: number[]): number[] => {
+  if (radians.length < 2) return new Array(DENSITY_GRID_SIZE).fill(0);
+  const density = getDensityFromCounts(binTimes(radians), radians.length, 1);
+  return Array.from(density, value => (value * 2 * Math.PI) / 24);
+};
+
+const estimateFromCounts = (countsA: Float64Array, nA: number, countsB: Float64Array, nB: number, useDhat4: boolean): number => {
+  const adjust = useDhat4 ? 1 : 0.8;
+  const densityA = getDensityFromCounts(countsA, nA, adjust);
+  const densityB = getDensityFromCounts(countsB, nB, adjust);
+
+  if (!useDhat4) {
+    let sum = 0;
+    for (let i = 0; i < DENSITY_GRID_SIZE; i++) {
+      sum += Math.min(densityA[i], densityB[i]);
+    }
+    return sum * BIN_WIDTH;
+  }
+
+  let sumA = 0;
+  let sumB = 0;
+  for (let i = 0; i < DENSITY_GRID_SIZE; i++) {
+    if (countsA[i] > 0) sumA += countsA[i] * Math.min(1, densityB[i] / densityA[i]);
+    if (countsB[i] > 0) sumB += countsB[i] * Math.min(1, densityA[i] / densityB[i]);
+  }
+  return 0.5 * (sumA / nA + sumB / nB);
+};
+
+const resampleCounts = (radians: number[], random: () => number): Float64Array => {
+  const counts = new Float64Array(DENSITY_GRID_SIZE);
+  for (let i = 0; i < radians.length; i++) {
+    const r = radians[Math.floor(random() * radians.length)];
+    counts[Math.min(DENSITY_GRID_SIZE - 1, Math.floor(r / BIN_WIDTH))]++;
+  }
+  return counts;
+};
+
+// Coefficient of overlap between two sets of times with a percentile
+// bootstrap confidence interval. Dhat4 is used once both samples have at
+// least 75 times, Dhat1 otherwise.
+export const estimateOverlap = (
+  radiansA: number[],
+  radiansB: number[],
+  iterations = 200
+): Omit<OverlapEstimate, 'speciesA' | 'speciesB'> | null => {
+  if (radiansA.length < 2 || radiansB.length < 2) return null;
+
+  const useDhat4 = Math.min(radiansA.length, radiansB.length) >= DHAT4_MIN_SAMPLE;
+  const value = estimateFromCounts(binTimes(radiansA), radiansA.length, binTimes(radiansB), radiansB.length, useDhat4);
+
+  const random = createRandom(radiansA.length * 7919 + radiansB.length);
+  const samples: number[] = [];
+  for (let i = 0; i < iterations; i++) {
+    samples.push(estimateFromCounts(
+      resampleCounts(radiansA, random),
+      radiansA.length,
+      resampleCounts(radiansB, random),
+      radiansB.length,
+      useDhat4
+    ));
+  }
+  samples.sort((a, b) => a - b);
+  const percentile = (p: number) => samples[Math.min(samples.length - 1, Math.floor(p * samples.length))];
+
+  return {
+    estimator: useDhat4 ? 'Dhat4' : 'Dhat1',
+    value,
+    lower: iterations > 0 ? percentile(0.025) : value,
+    upper: iterations > 0 ? percentile(0.975) : value,
+    sampleSizes: [radiansA.length, radiansB.length],
+    iterations
+  };
+};
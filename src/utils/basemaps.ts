@@ -0,0 +1,77 @@
+import { BasemapSource } from '../types';
+
+// Built-in map backgrounds plus any listed in an optional basemaps.json next
+// to the app, e.g. for a field station serving its own tiles:
+//
+//   [{ "id": "station", "name": "Station topo", "type": "xyz", "url": "tiles/{z}/{x}/{y}.png", "maxZoom": 15 },
+//    { "id": "lakes", "name": "Lakes imagery", "type": "mbtiles", "url": "lakes.mbtiles" }]
+//
+// Relative URLs resolve against the app's base path.
+
+export const OUTLINE_BASEMAP_ID = 'outline';
+
+export const BUILT_IN_BASEMAPS: BasemapSource[] = [
+  {
+    id: 'osm',
+    name: 'OpenStreetMap',
+    type: 'xyz',
+    url: 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
+    attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+    maxZoom: 19
+  },
+  {
+    id: 'topo',
+    name: 'Topographic',
+    type: 'xyz',
+    url: 'https://{s}.tile.opentopomap.org/{z}/{x}/{y}.png',
+    attribution: 'Map data &copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors, '
+      + 'SRTM | Style &copy; <a href="https://opentopomap.org">OpenTopoMap</a> (CC-BY-SA)',
+    maxZoom: 17
+  },
+  {
+    id: 'satellite',
+    name: 'Satellite',
+    type: 'xyz',
+    url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}',
+    attribution: 'Imagery &copy; Esri, Maxar, Earthstar Geographics, and the GIS User Community',
+    maxZoom: 19
+  },
+  {
+    id: OUTLINE_BASEMAP_ID,
+    name: 'Michigan Outline (offline)',
+    type: 'outline',
+    url: '',
+    attribution: '',
+    maxZoom: 19
+  }
+];
+
+const resolveUrl = (url: string) =>
+  /^([a-z]+:)?\/\//i.test(url) || url.startsWith('/') ? url : `${import.meta.env.BASE_URL}${url}`;
+
+// Resolves to an empty list when the file is absent or unreadable, so the
+// built-in basemaps always remain
+export const loadBasemapConfig = async (): Promise<BasemapSource[]> => {
+  try {
+    const response = await fetch(`${import.meta.env.BASE_URL}basemaps.json`);
+    if (!response.ok) return [];
+    const entries: unknown = await response.json();
+    if (!Array.isArray(entries)) return [];
+    return entries
+      .filter((entry): entry is Record<string, unknown> => typeof entry === 'object' && entry !== null)
+      .filter(entry => typeof entry.id === 'string' && typeof entry.url === 'string' && /^[\w-]+$/.test(entry.id))
+      .filter(entry => !BUILT_IN_BASEMAPS.some(basemap => basemap.id === entry.id))
+      .map(entry => ({
+        id: entry.id as string,
+        name: typeof entry.name === 'string' ? entry.name : (entry.id as string),
+        type: entry.type === 'mbtiles' || /\.mbtiles$/i.test(entry.url as string) ? 'mbtiles' : 'xyz',
+        url: resolveUrl(entry.url as string),
+        attribution: typeof entry.attribution === 'string' ? entry.attribution : '',
+        maxZoom: typeof entry.maxZoom === 'number' ? entry.maxZoom : 19,
+        subdomains: typeof entry.subdomains === 'string' ? entry.subdomains : undefined,
+        tms: entry.tms === true
+      }));
+  } catch {
+    return [];
+  }
+};
@@ -0,0 +1,155 @@
+import { BoundaryFeature, BoundaryLayer } from '../types';
+import { readShapefileZip } from './shapefile';
+import { isInPolygon } from './spatial';
+
+// Boundary layers (counties, management units, ownership, ecoregions) and the
+// point-in-polygon join of camera locations to them. The main thread and the
+// worker each register the loaded layers, so filters and summaries can refer
+// to a layer by id without shipping its geometry with every query.
+
+export const OUTSIDE_BOUNDARY = '(outside layer)';
+export const BLANK_ATTRIBUTE = '(blank)';
+
+const layers = new Map<string, BoundaryLayer>();
+const joins = new Map<string, Map<string, number>>(); // layer id -> location -> feature index, -1 outside
+
+export const setBoundaryLayers = (list: BoundaryLayer[]) => {
+  layers.clear();
+  joins.clear();
+  list.forEach(layer => layers.set(layer.id, layer));
+};
+
+// Even-odd across every ring, so holes and multipolygon parts need no
+// bookkeeping of which ring is which
+const isInFeature = (lat: number, lng: number, feature: BoundaryFeature): boolean => {
+  const [minLat, minLng, maxLat, maxLng] = feature.bbox;
+  if (lat < minLat || lat > maxLat || lng < minLng || lng > maxLng) return false;
+  return feature.rings.filter(ring => isInPolygon(lat, lng, ring)).length % 2 === 1;
+};
+
+// The feature of a layer containing a location (the first, where features overlap)
+export const getBoundaryFeature = (layerId: string, lat: number, lng: number): BoundaryFeature | null => {
+  const layer = layers.get(layerId);
+  if (!layer) return null;
+  if (!joins.has(layerId)) joins.set(layerId, new Map());
+  const join = joins.get(layerId)!;
+  const key = `${lat},${lng}`;
+  let featureIndex = join.get(key);
+  if (featureIndex === undefined) {
+    featureIndex = layer.features.findIndex(feature => isInFeature(lat, lng, feature));
+    join.set(key, featureIndex);
+  }
+  return featureIndex === -1 ? null : layer.features[featureIndex];
+};
+
+export const getBoundaryValue = (layerId: string, attribute: string, lat: number, lng: number): string => {
+  const feature = getBoundaryFeature(layerId, lat, lng);
+  if (!feature) return OUTSIDE_BOUNDARY;
+  return feature.properties[attribute] || BLANK_ATTRIBUTE;
+};
+
+// Distinct values of an attribute, plus the label for cameras outside every polygon
+export const getBoundaryValues = (layer: BoundaryLayer, attribute: string): string[] => {
+  const values = new Set(layer.features.map(feature => feature.properties[attribute] || BLANK_ATTRIBUTE));
+  return [...Array.from(values).sort((a, b) => a.localeCompare(b, undefined, { numeric: true })), OUTSIDE_BOUNDARY];
+};
+
+// Attribute to join by when a layer is first loaded: the first that looks
+// like a name, else the first
+export const getDefaultAttribute = (layer: BoundaryLayer): string => {
+  return layer.attributes.find(attribute => /name/i.test(attribute)) || layer.attributes[0] || '';
+};
+
+const toBoundaryFeature = (properties: Record<string, unknown>, rings: [number, number][][]): BoundaryFeature => {
+  let [minLat, minLng, maxLat, maxLng] = [Infinity, Infinity, -Infinity, -Infinity];
+  rings.forEach(ring => ring.forEach(([lat, lng]) => {
+    minLat = Math.min(minLat, lat);
+    maxLat = Math.max(maxLat, lat);
+    minLng = Math.min(minLng, lng);
+    maxLng = Math.max(maxLng, lng);
+  }));
+  const stringProperties: Record<string, string> = {};
+  Object.entries(properties).forEach(([key, value]) => {
+    if (value !== null && value !== undefined && typeof value !== 'object') stringProperties[key] = String(value).trim();
+  });
+  return { properties: stringProperties, rings, bbox: [minLat, minLng, maxLat, maxLng] };
+};
+
+// Longitude/latitude check; projected coordinates (metres or feet) fall far outside
+const assertGeographic = (features: BoundaryFeature[], source: string) => {
+  const projected = features.some(({ bbox: [minLat, minLng, maxLat, maxLng] }) =>
+    minLat < -90 || maxLat > 90 || minLng < -180 || maxLng > 180
+  );
+  if (projected) {
+    throw new Error(`${source} uses projected coordinates; reproject it to WGS84 longitude/latitude (EPSG:4326) first`);
+  }
+};
+
+interface GeoJSONNode {
+  type?: string;
+  features?: GeoJSONNode[];
+  geometry?: GeoJSONNode | null;
+  geometries?: GeoJSONNode[];
+  properties?: Record<string, unknown> | null;
+  coordinates?: unknown;
+}
+
+const toRing = (positions: unknown): [number, number][] =>
+  (Array.isArray(positions) ? positions : [])
+    .filter((position): position is number[] => Array.isArray(position) && position.length >= 2)
+    .map(([lng, lat]) => [Number(lat), Number(lng)] as [number, number])
+    .filter(([lat, lng]) => isFinite(lat) && isFinite(lng));
+
+// Polygon and MultiPolygon features of a GeoJSON object; other geometries are skipped
+const parseGeoJSONFeatures = (json: unknown): BoundaryFeature[] => {
+  const features: BoundaryFeature[] = [];
+  const getRings = (geometry: GeoJSONNode | null | undefined): [number, number][][] => {
+    if (!geometry) return [];
+    if (geometry.type === 'Polygon') return ((geometry.coordinates as unknown[]) || []).map(toRing);
+    if (geometry.type === 'MultiPolygon') {
+      return ((geometry.coordinates as unknown[][]) || []).flatMap(polygon => (polygon || []).map(toRing));
+    }
+    if (geometry.type === 'GeometryCollection') return (geometry.geometries || []).flatMap(getRings);
+    return [];
+  };
+  const visit = (node: GeoJSONNode | null | undefined) => {
+    if (!node || typeof node !== 'object') return;
+    if (node.type === 'FeatureCollection') {
+      (node.features || []).forEach(visit);
+      return;
+    }
+    const rings = getRings(node.type === 'Feature' ? node.geometry : node).filter(ring => ring.length >= 3);
+    if (rings.length > 0) features.push(toBoundaryFeature(node.type === 'Feature' ? node.properties || {} : {}, rings));
+  };
+  visit(json as GeoJSONNode);
+  return features;
+};
+
+let nextLayerId = 0;
+
+const toLayer = (name: string, features: BoundaryFeature[]): BoundaryLayer => {
+  if (features.length === 0) throw new Error(`No polygons found in ${name}`);
+  assertGeographic(features, name);
+  const attributes = Array.from(new Set(features.flatMap(feature => Object.keys(feature.properties))));
+  return { id: `layer-${++nextLayerId}`, name, attributes, features };
+};
+
+// One layer per GeoJSON file, or per shapefile inside a zip
+export const readBoundaryFile = async (file: File): Promise<BoundaryLayer[]> => {
+  const baseName = file.name.replace(/\.[^.]+$/, '');
+  if (/\.zip$/i.test(file.name)) {
+    const shapefiles = await readShapefileZip(await file.arrayBuffer());
+    if (shapefiles.length === 0) throw new Error(`No shapefiles found in ${file.name}`);
+    return shapefiles.map(({ name, records }) => toLayer(
+      shapefiles.length === 1 ? baseName : name,
+      records.map(record => toBoundaryFeature(record.properties, record.rings))
+    ));
+  }
+  let json: unknown;
+  try {
+    json = JSON.parse(await file.text());
+  } catch {
+    throw new Error(`${file.name} is not valid GeoJSON`);
+  }
+  return [toLayer(baseName, parseGeoJSONFeatures(json))];
+};
@@ -0,0 +1,74 @@
+import { DetectionRecord } from '../types';
+
+// Maps each DetectionRecord field to a column in the user's file ('' = unmapped)
+export type ColumnMapping = Record<keyof DetectionRecord, string>;
+
+export const DETECTION_FIELDS: (keyof DetectionRecord)[] = [
+  'common_name',
+  'start_time',
+  'Latitude',
+  'Longitude',
+  'end_time',
+  'Year',
+  'group_size',
+  'class',
+  'order',
+  'family',
+  'genus',
+  'species',
+  'age',
+  'sex',
+  'identified_by',
+  'Region',
+  'Array Name',
+  'sequence_id',
+  'deployment_id'
+];
+
+export const REQUIRED_FIELDS: (keyof DetectionRecord)[] = ['common_name', 'start_time', 'Latitude', 'Longitude'];
+
+// Other names commonly used for the same columns in camera trap exports
+const FIELD_ALIASES: Partial<Record<keyof DetectionRecord, string[]>> = {
+  common_name: ['commonname', 'species_common_name', 'vernacular_name'],
+  start_time: ['timestamp', 'datetime', 'date_time', 'start'],
+  end_time: ['end'],
+  Latitude: ['lat', 'decimal_latitude'],
+  Longitude: ['lon', 'lng', 'long', 'decimal_longitude'],
+  group_size: ['count', 'number_of_objects', 'individuals'],
+  Region: ['project', 'study_area'],
+  'Array Name': ['array', 'array_name', 'subproject', 'site'],
+  sequence_id: ['sequence', 'event_id', 'image_id'],
+  deployment_id: ['deployment', 'camera_id', 'placename']
+};
+
+const normalizeHeader = (header: string): string => header.trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+// Best-guess mapping by exact name, case/spacing-insensitive name, then aliases
+export const suggestColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalized = new Map(headers.map(h => [normalizeHeader(h), h]));
+  const mapping = {} as ColumnMapping;
+
+  DETECTION_FIELDS.forEach(field => {
+    const candidates = [field, ...(FIELD_ALIASES[field] || [])].map(normalizeHeader);
+    const match = headers.includes(field)
+      ? field
+      : candidates.map(c => normalized.get(c)).find(h => h !== undefined);
+    mapping[field] = match || '';
+  });
+
+  return mapping;
+};
+
+export const getMissingRequiredFields = (mapping: ColumnMapping): (keyof DetectionRecord)[] => {
+  return REQUIRED_FIELDS.filter(field => !mapping[field]);
+};
+
+export const applyColumnMapping = (rows: Record<string, string>[], mapping: ColumnMapping): DetectionRecord[] => {
+  return rows.map(row => {
+    const record = {} as DetectionRecord;
+    DETECTION_FIELDS.forEach(field => {
+      record[field] = mapping[field] ? (row[mapping[field]] || '') : '';
+    });
+    return record;
+  });
+};
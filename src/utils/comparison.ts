@@ -0,0 +1,126 @@
+import { ComparisonRow, DetectionFilters, DetectionSummary } from '../types';
+import { getRAI } from './dataLoader';
+import { isFilterActive } from './detectionQuery';
+
+// Compare mode holds two filter sets; the sidebar edits one while the other
+// is kept aside and queried on its own
+export type CompareSet = 'A' | 'B';
+
+export const COMPARE_SETS: CompareSet[] = ['A', 'B'];
+export const COMPARE_COLORS: Record<CompareSet, string> = { A: '#4A90E2', B: '#E67E22' };
+
+export const getComparisonRow = (label: string, a: number, b: number): ComparisonRow => ({
+  label,
+  a,
+  b,
+  difference: b - a,
+  ratio: a > 0 ? b / a : null
+});
+
+// A species value for the chart or table: its count, its count per 100
+// camera-nights, or the camera locations that detected it
+export const getSpeciesValues = (
+  totals: Map<string, { count: number; cameras: number }>,
+  cameraNights: number,
+  metric: 'count' | 'rai' | 'cameras'
+): Map<string, number> => new Map(Array.from(totals, ([species, { count, cameras }]) => [
+  species,
+  metric === 'cameras' ? cameras : metric === 'rai' ? Number(getRAI(count, cameraNights).toFixed(2)) : count
+]));
+
+// Species detected in either set, largest value first
+export const getSpeciesComparison = (
+  a: Map<string, number>,
+  b: Map<string, number>
+): ComparisonRow[] => {
+  const species = new Set([...a.keys(), ...b.keys()]);
+  return Array.from(species, name => getComparisonRow(name, a.get(name) || 0, b.get(name) || 0))
+    .sort((x, y) => Math.max(y.a, y.b) - Math.max(x.a, x.b) || x.label.localeCompare(y.label));
+};
+
+// The summary cards' figures side by side
+export const getSummaryComparison = (a: DetectionSummary, b: DetectionSummary, countLabel: string): ComparisonRow[] => [
+  getComparisonRow(countLabel, a.totalCount, b.totalCount),
+  getComparisonRow(
+    `${countLabel} per 100 Camera-Nights`,
+    Number(getRAI(a.totalCount, a.totalCameraNights).toFixed(2)),
+    Number(getRAI(b.totalCount, b.totalCameraNights).toFixed(2))
+  ),
+  getComparisonRow('Camera Locations', a.totalCameraLocations, b.totalCameraLocations),
+  getComparisonRow('Camera-Nights', Math.round(a.totalCameraNights), Math.round(b.totalCameraNights)),
+  getComparisonRow('Cameras with Detections', a.distinctCameras, b.distinctCameras)
+];
+
+// A line on the compare-mode activity chart. Lines are pooled over species
+// unless the set selects species, as on the normal chart.
+export interface ComparisonLine {
+  key: string;
+  name: string;
+  set: CompareSet;
+  species: string | null;
+}
+
+// Both sets' hourly, monthly or diel density lines over the same bins, with
+// counts optionally scaled to each line's total
+export const getComparisonActivity = (
+  sets: { set: CompareSet; summary: DetectionSummary }[],
+  view: 'hour' | 'month' | 'diel',
+  proportion: boolean,
+  labels: string[]
+): { data: Record<string, number | string>[]; lines: ComparisonLine[] } => {
+  const lines: ComparisonLine[] = [];
+  const columns: number[][] = [];
+  const addLine = (line: ComparisonLine, values: number[], scale: boolean) => {
+    const total = values.reduce((sum, v) => sum + v, 0);
+    lines.push(line);
+    columns.push(scale && proportion ? values.map(v => (total > 0 ? v / total : 0)) : values);
+  };
+
+  sets.forEach(({ set, summary }) => {
+    if (view === 'diel') {
+      summary.dielActivity.forEach(curve => addLine({
+        key: `${set}: ${curve.species}`,
+        name: `Set ${set}: ${curve.species} (n = ${curve.sampleSize.toLocaleString()})`,
+        set,
+        species: curve.species === 'All Species' ? null : curve.species
+      }, curve.density, false));
+      return;
+    }
+    const series = view === 'hour' ? summary.hourlyBySpecies : summary.monthlyBySpecies;
+    if (series.length > 0) {
+      series.forEach(s => addLine({ key: `${set}: ${s.species}`, name: `Set ${set}: ${s.species}`, set, species: s.species }, s.counts, true));
+    } else {
+      const pooled = view === 'hour' ? summary.hourly : summary.monthly;
+      addLine({ key: `Set ${set}`, name: `Set ${set}`, set, species: null }, pooled.map(d => d.count), true);
+    }
+  });
+
+  const data = labels.map((label, i) => {
+    const row: Record<string, number | string> = { label };
+    lines.forEach((line, j) => {
+      row[line.key] = columns[j][i] ?? 0;
+    });
+    return row;
+  });
+  return { data, lines };
+};
+
+// What a set selects, e.g. "Black Bear · Upper Peninsula · Jan 2018 - Dec 2019"
+export const describeFilterSet = (filters: DetectionFilters, dateLabel: string): string => {
+  const lists = [
+    filters.species,
+    filters.regions,
+    filters.arrayNames,
+    filters.orders,
+    filters.families,
+    filters.genera,
+    filters.ageClasses,
+    filters.sexes,
+    ...filters.boundaries.map(f => f.values)
+  ];
+  const parts = lists
+    .filter(isFilterActive)
+    .map(values => values.length > 2 ? `${values.slice(0, 2).join(', ')} +${values.length - 2}` : values.join(', '));
+  if (filters.area.length > 0) parts.push('drawn area');
+  return [...parts, dateLabel].join(' · ');
+};
@@ -0,0 +1,107 @@
+import { CooccurrenceMatrix, CooccurrencePair, ProcessedDetection } from '../types';
+
+// Pairwise co-occurrence at camera locations. Scores follow Veech (2013): the
+// number of sites shared by two species is compared with the hypergeometric
+// distribution expected if each occupied its sites independently at random.
+// With a time window, two species only count as co-occurring at a site when
+// they were detected there within that many hours of each other.
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Time windows (hours) offered in the dashboard
+export const COOCCURRENCE_WINDOWS = [1, 24, 168];
+
+const getLocationKey = (d: ProcessedDetection) => `${d.latitude},${d.longitude}`;
+
+// log(n!) for 0..n
+const getLogFactorials = (n: number): Float64Array => {
+  const logs = new Float64Array(n + 1);
+  for (let i = 2; i <= n; i++) logs[i] = logs[i - 1] + Math.log(i);
+  return logs;
+};
+
+// True when any detection in two time-sorted lists falls within the window
+const hasDetectionsWithin = (a: number[], b: number[], windowMs: number): boolean => {
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (Math.abs(a[i] - b[j]) <= windowMs) return true;
+    if (a[i] < b[j]) i++;
+    else j++;
+  }
+  return false;
+};
+
+export const getCooccurrenceMatrix = (
+  rows: ProcessedDetection[],
+  topN: number,
+  windowHours: number | null
+): CooccurrenceMatrix => {
+  // Detection times per species per site
+  const timesBySpecies = new Map<string, Map<string, number[]>>();
+  const sites = new Set<string>();
+  rows.forEach(d => {
+    const site = getLocationKey(d);
+    sites.add(site);
+    if (!timesBySpecies.has(d.commonName)) timesBySpecies.set(d.commonName, new Map());
+    const bySite = timesBySpecies.get(d.commonName)!;
+    if (!bySite.has(site)) bySite.set(site, []);
+    bySite.get(site)!.push(d.startTime.getTime());
+  });
+  timesBySpecies.forEach(bySite => bySite.forEach(times => times.sort((a, b) => a - b)));
+
+  // Top species by the number of sites they were detected at
+  const species = Array.from(timesBySpecies.entries())
+    .sort((a, b) => b[1].size - a[1].size || a[0].localeCompare(b[0]))
+    .slice(0, topN)
+    .map(([name]) => name);
+
+  const totalSites = sites.size;
+  const logFactorials = getLogFactorials(totalSites);
+  const logChoose = (n: number, k: number) => logFactorials[n] - logFactorials[k] - logFactorials[n - k];
+
+  const pairs: CooccurrencePair[] = [];
+  species.forEach((speciesA, a) => {
+    species.slice(a + 1).forEach(speciesB => {
+      const sitesA = timesBySpecies.get(speciesA)!;
+      const sitesB = timesBySpecies.get(speciesB)!;
+      let cooccurrences = 0;
+      let shared = 0;
+      sitesA.forEach((timesA, site) => {
+        const timesB = sitesB.get(site);
+        if (!timesB) return;
+        shared++;
+        if (windowHours === null || hasDetectionsWithin(timesA, timesB, windowHours * HOUR_MS)) cooccurrences++;
+      });
+
+      const n1 = sitesA.size;
+      const n2 = sitesB.size;
+      const minShared = Math.max(0, n1 + n2 - totalSites);
+      const maxShared = Math.min(n1, n2);
+      let pLower = 0;
+      let pUpper = 0;
+      for (let j = minShared; j <= maxShared; j++) {
+        const probability = Math.exp(logChoose(n1, j) + logChoose(totalSites - n1, n2 - j) - logChoose(totalSites, n2));
+        if (j <= cooccurrences) pLower += probability;
+        if (j >= cooccurrences) pUpper += probability;
+      }
+      const expected = totalSites > 0 ? (n1 * n2) / totalSites : 0;
+      const union = n1 + n2 - shared;
+
+      pairs.push({
+        speciesA,
+        speciesB,
+        sitesA: n1,
+        sitesB: n2,
+        cooccurrences,
+        expected,
+        jaccard: union > 0 ? cooccurrences / union : 0,
+        effect: totalSites > 0 ? (cooccurrences - expected) / totalSites : 0,
+        pLower: Math.min(1, pLower),
+        pUpper: Math.min(1, pUpper)
+      });
+    });
+  });
+
+  return { species, sites: totalSites, pairs };
+};
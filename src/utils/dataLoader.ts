@@ -1,8 +1,109 @@
 import Papa from 'papaparse';
-import { DetectionRecord, ProcessedDetection } from '../types';
+import {
+  DetectionRecord,
+  DeploymentRecord,
+  DeploymentEffort,
+  ProcessedDetection,
+  LocationCount,
+  ArraySpeciesRow,
+  FilterOptions,
+  SpeciesTotal,
+  ValidationIssue,
+  ValidationReport,
+  TimeBasis,
+  DielPeriodShare,
+  SpeciesActivitySeries
+} from '../types';
+import { getSunTime, getTimeOfDayHours } from './solar';
 
-export const loadDetectionData = async (): Promise<ProcessedDetection[]> => {
-  const response = await fetch(`${import.meta.env.BASE_URL}All Michigan Mammal Monitoring Detections 15July2025_Data Release.csv`);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const BUNDLED_DATA_FILE = 'All Michigan Mammal Monitoring Detections 15July2025_Data Release.csv';
+
+// Convert raw CSV rows to ProcessedDetection, recording why each rejected
+// row was dropped. Row numbers are 1-based file lines (the header is line 1).
+// Rows without a Year are dropped unless yearFromStartTime is set (imports
+// with no Year column), in which case the report counts them.
+export const processDetectionRecords = (
+  records: DetectionRecord[],
+  source: string,
+  yearFromStartTime = false
+): { detections: ProcessedDetection[]; report: ValidationReport } => {
+  const detections: ProcessedDetection[] = [];
+  const dropped: ValidationIssue[] = [];
+  let derivedYears = 0;
+
+  records.forEach((row, index) => {
+    const issue = (reason: string) => dropped.push({
+      source,
+      rowNumber: index + 2,
+      reason,
+      sequenceId: row.sequence_id || '',
+      commonName: row.common_name || ''
+    });
+
+    const commonName = (row.common_name || '').trim();
+    if (commonName === '') return issue('Missing species (common_name)');
+    if (commonName === 'Blank') return issue('Blank species');
+
+    const latitude = parseFloat(row.Latitude) || 0;
+    const longitude = parseFloat(row.Longitude) || 0;
+    if (latitude === 0 || longitude === 0) return issue('Missing coordinates');
+
+    const startTime = new Date(row.start_time);
+    if (isNaN(startTime.getTime())) return issue('Unparseable start_time');
+
+    let year = parseInt(row.Year) || 0;
+    if (year <= 0 && yearFromStartTime) {
+      year = startTime.getFullYear();
+      derivedYears++;
+    }
+    if (year <= 0) return issue('Missing year');
+
+    const endTime = row.end_time ? new Date(row.end_time) : startTime;
+    detections.push({
+      year,
+      commonName: row.common_name,
+      taxonClass: row.class || '',
+      order: row.order || '',
+      family: row.family || '',
+      genus: row.genus || '',
+      species: row.species || '',
+      age: row.age || '',
+      sex: row.sex || '',
+      identifiedBy: row.identified_by || '',
+      startTime: startTime,
+      endTime: endTime,
+      groupSize: parseInt(row.group_size) || 1,
+      latitude,
+      longitude,
+      hour: startTime.getHours(),
+      month: startTime.getMonth(),
+      ...getSunTime(startTime, latitude, longitude),
+      region: row.Region || '',
+      arrayName: row['Array Name'] || '',
+      sequenceId: row.sequence_id || '',
+      deploymentId: row.deployment_id || '',
+      source,
+      rowNumber: index + 2
+    });
+  });
+
+  return {
+    detections,
+    report: {
+      source,
+      totalRows: records.length,
+      keptRows: detections.length,
+      duplicateRows: 0,
+      derivedYears,
+      dropped
+    }
+  };
+};
+
+export const loadDetectionData = async (): Promise<{ detections: ProcessedDetection[]; report: ValidationReport }> => {
+  const response = await fetch(`${import.meta.env.BASE_URL}${BUNDLED_DATA_FILE}`);
   const csvText = await response.text();
   
   return new Promise((resolve, reject) => {
@@ -11,28 +112,7 @@ export const loadDetectionData = async (): Promise<ProcessedDetection[]> => {
       skipEmptyLines: true,
       complete: (results) => {
         try {
-          const processed = results.data
-            .filter(row => row.common_name && row.common_name.trim() !== '' && row.common_name !== 'Blank')
-            .map(row => {
-              const startTime = new Date(row.start_time);
-              return {
-                year: parseInt(row.Year) || 0,
-                commonName: row.common_name,
-                startTime: startTime,
-                groupSize: parseInt(row.group_size) || 1,
-                latitude: parseFloat(row.Latitude) || 0,
-                longitude: parseFloat(row.Longitude) || 0,
-                hour: startTime.getHours(),
-                month: startTime.getMonth(),
-                region: row.Region || '',
-                arrayName: row['Array Name'] || '',
-                sequenceId: row.sequence_id || '',
-                deploymentId: row.deployment_id || ''
-              };
-            })
-            .filter(d => d.year > 0 && d.latitude !== 0 && d.longitude !== 0);
-          
-          resolve(processed);
+          resolve(processDetectionRecords(results.data, BUNDLED_DATA_FILE));
         } catch (error) {
           reject(error);
         }
@@ -42,6 +122,129 @@ export const loadDetectionData = async (): Promise<ProcessedDetection[]> => {
   });
 };
 
+// Parse a local CSV file in the browser, keeping its own column names
+export const parseCSVFile = (file: File): Promise<{ fields: string[]; rows: Record<string, string>[] }> => {
+  return new Promise((resolve, reject) => {
+    Papa.parse<Record<string, string>>(file, {
+      header: true,
+      skipEmptyLines: true,
+      complete: (results) => resolve({ fields: results.meta.fields || [], rows: results.data }),
+      error: (error: Error) => reject(error)
+    });
+  });
+};
+
+export const readCSVHeaders = (file: File): Promise<string[]> => {
+  return new Promise((resolve, reject) => {
+    Papa.parse<Record<string, string>>(file, {
+      header: true,
+      preview: 1,
+      complete: (results) => resolve(results.meta.fields || []),
+      error: (error: Error) => reject(error)
+    });
+  });
+};
+
+// Append incoming detections, skipping any whose sequence_id is already
+// present. Sequences hold one row per species, so the species is part of the
+// key; rows without a sequence_id are always kept.
+export const mergeDetections = (
+  base: ProcessedDetection[],
+  incoming: ProcessedDetection[]
+): { merged: ProcessedDetection[]; duplicates: number } => {
+  const seen = new Set(base.filter(d => d.sequenceId).map(d => `${d.sequenceId}|${d.commonName}`));
+  const merged = [...base];
+  let duplicates = 0;
+
+  incoming.forEach(d => {
+    if (d.sequenceId) {
+      const key = `${d.sequenceId}|${d.commonName}`;
+      if (seen.has(key)) {
+        duplicates++;
+        return;
+      }
+      seen.add(key);
+    }
+    merged.push(d);
+  });
+
+  return { merged, duplicates };
+};
+
+// Optional deployments file with explicit active dates. Resolves to an empty
+// list when the file is absent so effort falls back to inferred dates.
+export const loadDeploymentRecords = async (): Promise<DeploymentRecord[]> => {
+  try {
+    const response = await fetch(`${import.meta.env.BASE_URL}deployments.csv`);
+    if (!response.ok) return [];
+    const csvText = await response.text();
+    const results = Papa.parse<DeploymentRecord>(csvText, { header: true, skipEmptyLines: true });
+    if (!results.meta.fields?.includes('deployment_id')) return [];
+    return results.data.filter(row => row.deployment_id);
+  } catch {
+    return [];
+  }
+};
+
+// Build one effort entry per deployment seen in the detection data. Active
+// dates come from the deployments file when it has valid dates for the
+// deployment, otherwise from its first and last detection.
+export const getDeploymentEffort = (
+  data: ProcessedDetection[],
+  records: DeploymentRecord[] = []
+): DeploymentEffort[] => {
+  const recordsById = new Map(records.map(r => [r.deployment_id, r]));
+  const deployments = new Map<string, DeploymentEffort>();
+
+  data.forEach(d => {
+    if (!d.deploymentId || isNaN(d.startTime.getTime())) return;
+    const existing = deployments.get(d.deploymentId);
+    if (existing) {
+      if (d.startTime < existing.start) existing.start = d.startTime;
+      if (d.startTime > existing.end) existing.end = d.startTime;
+    } else {
+      deployments.set(d.deploymentId, {
+        deploymentId: d.deploymentId,
+        start: d.startTime,
+        end: d.startTime,
+        latitude: d.latitude,
+        longitude: d.longitude,
+        region: d.region,
+        arrayName: d.arrayName,
+        inferred: true
+      });
+    }
+  });
+
+  deployments.forEach(deployment => {
+    const record = recordsById.get(deployment.deploymentId);
+    if (!record) return;
+    const start = new Date(record.start_date);
+    const end = new Date(record.end_date);
+    if (!isNaN(start.getTime()) && !isNaN(end.getTime()) && end >= start) {
+      deployment.start = start;
+      deployment.end = end;
+      deployment.inferred = false;
+    }
+  });
+
+  return Array.from(deployments.values());
+};
+
+// Camera-nights for a deployment, optionally clipped to a date window. A
+// deployment active for part of a single day still counts as one night.
+export const getCameraNights = (deployment: DeploymentEffort, windowStart?: Date, windowEnd?: Date): number => {
+  const start = windowStart && windowStart > deployment.start ? windowStart : deployment.start;
+  const end = windowEnd && windowEnd < deployment.end ? windowEnd : deployment.end;
+  if (end < start) return 0;
+  return Math.max(1, (end.getTime() - start.getTime()) / DAY_MS);
+};
+
+// Relative abundance index: detections per 100 camera-nights
+export const getRAI = (count: number, cameraNights: number): number => {
+  return cameraNights > 0 ? (count / cameraNights) * 100 : 0;
+};
+
 export const getUniqueSpecies = (data: ProcessedDetection[]): string[] => {
   const species = new Set(data.map(d => d.commonName));
   return Array.from(species).sort();
@@ -57,6 +260,25 @@ export const getUniqueArrayNames = (data: ProcessedDetection[]): string[] => {
   return Array.from(arrayNames).sort();
 };
 
+export const getUniqueValues = (
+  data: ProcessedDetection[],
+  field: 'order' | 'family' | 'genus' | 'age' | 'sex'
+): string[] => {
+  const values = new Set(data.map(d => d[field]).filter(v => v));
+  return Array.from(values).sort();
+};
+
+export const getFilterOptions = (data: ProcessedDetection[]): FilterOptions => ({
+  species: getUniqueSpecies(data),
+  regions: getUniqueRegions(data),
+  arrayNames: getUniqueArrayNames(data),
+  orders: getUniqueValues(data, 'order'),
+  families: getUniqueValues(data, 'family'),
+  genera: getUniqueValues(data, 'genus'),
+  ageClasses: getUniqueValues(data, 'age'),
+  sexes: getUniqueValues(data, 'sex')
+});
+
 export const filterBySpecies = (data: ProcessedDetection[], species: string): ProcessedDetection[] => {
   return data.filter(d => d.commonName === species);
 };
@@ -69,10 +291,63 @@ export const filterByDateRange = (
   return data.filter(d => d.year >= startYear && d.year <= endYear);
 };
 
-export const getHourlyActivity = (data: ProcessedDetection[]) => {
+// Collapse detections into independent events: consecutive detections of the
+// same species at the same deployment less than `thresholdMinutes` apart (or
+// sharing a sequence) are one event. Each event is identified by the index of
+// its first detection in `data`, with the largest group seen during the event.
+export const getIndependentEventIndices = (
+  data: ProcessedDetection[],
+  thresholdMinutes: number
+): { index: number; groupSize: number }[] => {
+  const thresholdMs = thresholdMinutes * 60 * 1000;
+  const groups = new Map<string, number[]>();
+
+  data.forEach((d, i) => {
+    const site = d.deploymentId || `${d.latitude},${d.longitude}`;
+    const key = `${site}|${d.commonName}`;
+    if (!groups.has(key)) {
+      groups.set(key, []);
+    }
+    groups.get(key)!.push(i);
+  });
+
+  const events: { index: number; groupSize: number }[] = [];
+  groups.forEach(indices => {
+    indices.sort((a, b) => data[a].startTime.getTime() - data[b].startTime.getTime());
+
+    let current: { index: number; groupSize: number } | null = null;
+    let lastTime = 0;
+    let lastSequence = '';
+    indices.forEach(i => {
+      const d = data[i];
+      const time = d.startTime.getTime();
+      const sameSequence = d.sequenceId !== '' && d.sequenceId === lastSequence;
+      const withinThreshold = !isNaN(time) && !isNaN(lastTime) && time - lastTime < thresholdMs;
+
+      if (current && (sameSequence || withinThreshold)) {
+        current.groupSize = Math.max(current.groupSize, d.groupSize);
+      } else {
+        current = { index: i, groupSize: d.groupSize };
+        events.push(current);
+      }
+      lastTime = time;
+      lastSequence = d.sequenceId;
+    });
+  });
+
+  return events.sort((a, b) => data[a.index].startTime.getTime() - data[b.index].startTime.getTime());
+};
+
+const getActivityHour = (d: ProcessedDetection, timeBasis: TimeBasis): number => {
+  const hour = timeBasis === 'clock' ? d.hour : Math.floor(getTimeOfDayHours(d, timeBasis));
+  return Math.min(hour, 23);
+};
+
+// Detections per hour of day, on the camera clock, in solar time or in sun time
+export const getHourlyActivity = (data: ProcessedDetection[], timeBasis: TimeBasis = 'clock') => {
   const hourCounts = new Array(24).fill(0);
   data.forEach(d => {
-    hourCounts[d.hour]++;
+    hourCounts[getActivityHour(d, timeBasis)]++;
   });
   return hourCounts.map((count, hour) => ({ hour, count }));
 };
@@ -90,7 +365,57 @@ export const getMonthlyActivity = (data: ProcessedDetection[]) => {
   }));
 };
 
-export const exportToCSV = (data: ProcessedDetection[], filename: string) => {
+// Activity counts split by species, most detected species first
+const getActivityBySpecies = (
+  data: ProcessedDetection[],
+  bins: number,
+  getBin: (d: ProcessedDetection) => number
+): SpeciesActivitySeries[] => {
+  const series = new Map<string, SpeciesActivitySeries>();
+  data.forEach(d => {
+    if (!series.has(d.commonName)) {
+      series.set(d.commonName, { species: d.commonName, total: 0, counts: new Array(bins).fill(0) });
+    }
+    const entry = series.get(d.commonName)!;
+    entry.counts[getBin(d)]++;
+    entry.total++;
+  });
+  return Array.from(series.values()).sort((a, b) => b.total - a.total);
+};
+
+export const getHourlyActivityBySpecies = (data: ProcessedDetection[], timeBasis: TimeBasis = 'clock') => {
+  return getActivityBySpecies(data, 24, d => getActivityHour(d, timeBasis));
+};
+
+export const getMonthlyActivityBySpecies = (data: ProcessedDetection[]) => {
+  return getActivityBySpecies(data, 12, d => d.month);
+};
+
+// Proportion of each species' detections by day, twilight and night, for
+// the most detected species
+export const getDielPeriodShares = (data: ProcessedDetection[]): DielPeriodShare[] => {
+  const counts = new Map<string, DielPeriodShare>();
+  data.forEach(d => {
+    if (!counts.has(d.commonName)) {
+      counts.set(d.commonName, { species: d.commonName, total: 0, diurnal: 0, crepuscular: 0, nocturnal: 0 });
+    }
+    const entry = counts.get(d.commonName)!;
+    entry.total++;
+    entry[d.dielPeriod]++;
+  });
+  return Array.from(counts.values())
+    .sort((a, b) => b.total - a.total)
+    .slice(0, 15)
+    .map(entry => ({
+      ...entry,
+      diurnal: entry.diurnal / entry.total,
+      crepuscular: entry.crepuscular / entry.total,
+      nocturnal: entry.nocturnal / entry.total
+    }))
+    .sort((a, b) => b.nocturnal - a.nocturnal);
+};
+
+export const exportToCSV = <T extends object>(data: T[], filename: string) => {
   const csv = Papa.unparse(data);
   const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
   const link = document.createElement('a');
@@ -103,6 +428,27 @@ export const exportToCSV = (data: ProcessedDetection[], filename: string) => {
   document.body.removeChild(link);
 };
 
+// Per-location species detection counts for the map, keyed by `${latitude},${longitude}`
+export const getLocationCounts = (data: ProcessedDetection[]): LocationCount[] => {
+  const locations = new Map<string, { lat: number; lng: number; species: Map<string, number>; totalCount: number }>();
+  data.forEach(d => {
+    if (!d.latitude || !d.longitude) return;
+    const key = `${d.latitude},${d.longitude}`;
+    if (!locations.has(key)) {
+      locations.set(key, { lat: d.latitude, lng: d.longitude, species: new Map(), totalCount: 0 });
+    }
+    const location = locations.get(key)!;
+    location.species.set(d.commonName, (location.species.get(d.commonName) || 0) + 1);
+    location.totalCount++;
+  });
+  return Array.from(locations.values()).map(loc => ({
+    lat: loc.lat,
+    lng: loc.lng,
+    species: Array.from(loc.species.entries()).map(([species, count]) => ({ species, count })),
+    totalCount: loc.totalCount
+  }));
+};
+
 export const getSpeciesDetectionCounts = (data: ProcessedDetection[]) => {
   const camerasBySpecies = new Map<string, Set<string>>();
   data.forEach(d => {
@@ -118,19 +464,50 @@ export const getSpeciesDetectionCounts = (data: ProcessedDetection[]) => {
     .slice(0, 15); // Top 15 species
 };
 
-export const getSpeciesFrequency = (data: ProcessedDetection[]) => {
+// Detections per species: rows, or independent events once the caller has
+// reduced the rows to events. Group size is not counted, so one record of
+// six deer is one detection.
+const getDetectionsBySpecies = (data: ProcessedDetection[]): Map<string, number> => {
   const counts = new Map<string, number>();
   data.forEach(d => {
-    counts.set(d.commonName, (counts.get(d.commonName) || 0) + d.groupSize);
+    counts.set(d.commonName, (counts.get(d.commonName) || 0) + 1);
   });
-  return Array.from(counts.entries())
+  return counts;
+};
+
+export const getSpeciesFrequency = (data: ProcessedDetection[]) => {
+  return Array.from(getDetectionsBySpecies(data).entries())
     .map(([species, count]) => ({ species, count }))
     .sort((a, b) => b.count - a.count)
     .slice(0, 15); // Top 15 species
 };
 
-export const getArraySpeciesTable = (data: ProcessedDetection[]) => {
-  const speciesMap = new Map<string, { totalGroupSize: number, cameras: Set<string> }>();
+export const getSpeciesRAI = (data: ProcessedDetection[], cameraNights: number) => {
+  return Array.from(getDetectionsBySpecies(data).entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 15) // Top 15 species
+    .map(([species, count]) => ({
+      species,
+      count: Number(getRAI(count, cameraNights).toFixed(2))
+    }));
+};
+
+// Every species with its detections and the camera locations that detected
+// it. The species charts stop at the top 15, which would show a species just
+// outside one filter set's top 15 as absent in compare mode.
+export const getSpeciesTotals = (data: ProcessedDetection[]): SpeciesTotal[] => {
+  const cameras = new Map<string, Set<string>>();
+  data.forEach(d => {
+    if (!cameras.has(d.commonName)) cameras.set(d.commonName, new Set());
+    if (d.latitude && d.longitude) cameras.get(d.commonName)!.add(`${d.latitude},${d.longitude}`);
+  });
+  return Array.from(getDetectionsBySpecies(data).entries())
+    .map(([species, count]) => ({ species, count, cameras: cameras.get(species)!.size }))
+    .sort((a, b) => b.count - a.count);
+};
+
+export const getArraySpeciesTable = (data: ProcessedDetection[], cameraNights = 0): ArraySpeciesRow[] => {
+  const speciesMap = new Map<string, { detections: number, totalGroupSize: number, cameras: Set<string> }>();
   const allCameras = new Set<string>();
   
   data.forEach(d => {
@@ -139,10 +516,12 @@ export const getArraySpeciesTable = (data: ProcessedDetection[]) => {
     const existing = speciesMap.get(d.commonName);
     
     if (existing) {
+      existing.detections++;
       existing.totalGroupSize += d.groupSize;
       existing.cameras.add(locationKey);
     } else {
       speciesMap.set(d.commonName, {
+        detections: 1,
         totalGroupSize: d.groupSize,
         cameras: new Set([locationKey])
       });
@@ -154,10 +533,12 @@ export const getArraySpeciesTable = (data: ProcessedDetection[]) => {
   return Array.from(speciesMap.entries())
     .map(([species, data]) => ({
       species,
+      detections: data.detections,
       totalGroupSize: data.totalGroupSize,
       distinctCameras: data.cameras.size,
       totalCameras,
-      proportion: totalCameras > 0 ? (data.cameras.size / totalCameras * 100).toFixed(1) : '0.0'
+      proportion: totalCameras > 0 ? (data.cameras.size / totalCameras * 100).toFixed(1) : '0.0',
+      rai: getRAI(data.detections, cameraNights).toFixed(2)
     }))
-    .sort((a, b) => b.totalGroupSize - a.totalGroupSize);
+    .sort((a, b) => b.detections - a.detections || b.totalGroupSize - a.totalGroupSize);
 };
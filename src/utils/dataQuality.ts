@@ -0,0 +1,176 @@
+import { DataQualityIssue, DeploymentEffort, ProcessedDetection, ValidationReport } from '../types';
+
+// Generous bounding box around Michigan, including the Upper Peninsula and
+// the Great Lakes islands
+export const MICHIGAN_BOUNDS = {
+  minLat: 41.69,
+  maxLat: 48.31,
+  minLng: -90.42,
+  maxLng: -82.12
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const warning = (d: ProcessedDetection, reason: string, detail: string): DataQualityIssue => ({
+  source: d.source,
+  rowNumber: d.rowNumber,
+  reason,
+  detail,
+  severity: 'warning',
+  sequenceId: d.sequenceId,
+  commonName: d.commonName
+});
+
+const quantile = (sorted: number[], q: number): number => {
+  const pos = (sorted.length - 1) * q;
+  const lower = Math.floor(pos);
+  const upper = Math.ceil(pos);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+};
+
+const formatTaxonomy = (d: ProcessedDetection): string => {
+  return [d.taxonClass, d.order, d.family, d.genus, d.species].join(' / ');
+};
+
+const checkCoordinates = (data: ProcessedDetection[]): DataQualityIssue[] => {
+  return data
+    .filter(d =>
+      d.latitude < MICHIGAN_BOUNDS.minLat || d.latitude > MICHIGAN_BOUNDS.maxLat ||
+      d.longitude < MICHIGAN_BOUNDS.minLng || d.longitude > MICHIGAN_BOUNDS.maxLng
+    )
+    .map(d => warning(d, 'Coordinates outside Michigan', `${d.latitude}, ${d.longitude}`));
+};
+
+const checkTimes = (data: ProcessedDetection[]): DataQualityIssue[] => {
+  const issues: DataQualityIssue[] = [];
+  data.forEach(d => {
+    if (isNaN(d.endTime.getTime())) {
+      issues.push(warning(d, 'Unparseable end_time', ''));
+    } else if (d.endTime < d.startTime) {
+      issues.push(warning(d, 'end_time before start_time', `${d.startTime.toISOString()} → ${d.endTime.toISOString()}`));
+    }
+  });
+  return issues;
+};
+
+// Only deployments with dates from a deployments file can be checked; inferred
+// windows contain every detection by construction. Deployment end dates are
+// usually date-only, so the last day is included in full.
+const checkDeploymentWindows = (data: ProcessedDetection[], deployments: DeploymentEffort[]): DataQualityIssue[] => {
+  const windows = new Map(deployments.filter(d => !d.inferred).map(d => [d.deploymentId, d]));
+  return data
+    .filter(d => {
+      const deployment = windows.get(d.deploymentId);
+      if (!deployment) return false;
+      const time = d.startTime.getTime();
+      return time < deployment.start.getTime() || time >= deployment.end.getTime() + DAY_MS;
+    })
+    .map(d => {
+      const deployment = windows.get(d.deploymentId)!;
+      return warning(
+        d,
+        'Timestamp outside deployment window',
+        `${d.startTime.toISOString()} not in ${deployment.start.toISOString().split('T')[0]} – ${deployment.end.toISOString().split('T')[0]} (${d.deploymentId})`
+      );
+    });
+};
+
+// A sequence has one row per species, so repeats of sequence + species are
+// duplicates, as is a sequence that appears under more than one deployment
+const checkDuplicateSequences = (data: ProcessedDetection[]): DataQualityIssue[] => {
+  const issues: DataQualityIssue[] = [];
+  const seen = new Set<string>();
+  const deploymentBySequence = new Map<string, string>();
+
+  data.forEach(d => {
+    if (!d.sequenceId) return;
+    const key = `${d.sequenceId}|${d.commonName}`;
+    if (seen.has(key)) {
+      issues.push(warning(d, 'Duplicate sequence_id', `${d.sequenceId} already recorded for ${d.commonName}`));
+    }
+    seen.add(key);
+
+    const deploymentId = deploymentBySequence.get(d.sequenceId);
+    if (deploymentId === undefined) {
+      deploymentBySequence.set(d.sequenceId, d.deploymentId);
+    } else if (deploymentId !== d.deploymentId) {
+      issues.push(warning(d, 'Duplicate sequence_id', `${d.sequenceId} also recorded at deployment ${deploymentId}`));
+    }
+  });
+  return issues;
+};
+
+// Flag group sizes far above what is typical for the species (beyond Q3 + 3
+// IQR, with the IQR floored at 1 so species almost always seen alone aren't
+// flagged for a pair)
+const checkGroupSizes = (data: ProcessedDetection[]): DataQualityIssue[] => {
+  const sizesBySpecies = new Map<string, number[]>();
+  data.forEach(d => {
+    if (!sizesBySpecies.has(d.commonName)) sizesBySpecies.set(d.commonName, []);
+    sizesBySpecies.get(d.commonName)!.push(d.groupSize);
+  });
+
+  const limits = new Map<string, number>();
+  sizesBySpecies.forEach((sizes, species) => {
+    const sorted = [...sizes].sort((a, b) => a - b);
+    const q1 = quantile(sorted, 0.25);
+    const q3 = quantile(sorted, 0.75);
+    limits.set(species, q3 + 3 * Math.max(q3 - q1, 1));
+  });
+
+  return data
+    .filter(d => d.groupSize > limits.get(d.commonName)!)
+    .map(d => warning(
+      d,
+      'Group size outlier',
+      `${d.groupSize} (typical maximum for ${d.commonName} is ${Math.floor(limits.get(d.commonName)!)})`
+    ));
+};
+
+// Rows whose taxonomy differs from the most common taxonomy for the same common name
+const checkTaxonomy = (data: ProcessedDetection[]): DataQualityIssue[] => {
+  const taxonomyCounts = new Map<string, Map<string, number>>();
+  data.forEach(d => {
+    if (!taxonomyCounts.has(d.commonName)) taxonomyCounts.set(d.commonName, new Map());
+    const counts = taxonomyCounts.get(d.commonName)!;
+    const taxonomy = formatTaxonomy(d);
+    counts.set(taxonomy, (counts.get(taxonomy) || 0) + 1);
+  });
+
+  const expected = new Map<string, string>();
+  taxonomyCounts.forEach((counts, name) => {
+    if (counts.size > 1) {
+      expected.set(name, Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0][0]);
+    }
+  });
+
+  return data
+    .filter(d => expected.has(d.commonName) && formatTaxonomy(d) !== expected.get(d.commonName))
+    .map(d => warning(
+      d,
+      'Inconsistent taxonomy',
+      `${formatTaxonomy(d)} (most rows use ${expected.get(d.commonName)})`
+    ));
+};
+
+// Every dropped row from the load reports plus every suspicious kept row,
+// ordered by source file and row number
+export const getDataQualityIssues = (
+  data: ProcessedDetection[],
+  reports: ValidationReport[],
+  deployments: DeploymentEffort[]
+): DataQualityIssue[] => {
+  const dropped: DataQualityIssue[] = reports.flatMap(report =>
+    report.dropped.map(issue => ({ ...issue, severity: 'dropped' as const, detail: '' }))
+  );
+
+  return [
+    ...dropped,
+    ...checkCoordinates(data),
+    ...checkTimes(data),
+    ...checkDeploymentWindows(data, deployments),
+    ...checkDuplicateSequences(data),
+    ...checkGroupSizes(data),
+    ...checkTaxonomy(data)
+  ].sort((a, b) => a.source.localeCompare(b.source) || a.rowNumber - b.rowNumber);
+};
@@ -0,0 +1,139 @@
+import { ProcessedDetection } from '../types';
+
+export type DateResolution = 'month' | 'season' | 'day';
+
+export interface DateStep {
+  start: Date; // inclusive
+  end: Date; // exclusive
+  label: string;
+}
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Meteorological seasons; winter starts in December and is labelled with the
+// year it starts in and the year it ends in (e.g. "Winter 2020–21").
+const SEASONS = [
+  { name: 'Winter', startMonth: 11 },
+  { name: 'Spring', startMonth: 2 },
+  { name: 'Summer', startMonth: 5 },
+  { name: 'Fall', startMonth: 8 }
+];
+
+// First and last detection times in the data
+export interface DateDomain {
+  start: Date;
+  end: Date;
+}
+
+export const getDateDomain = (data: ProcessedDetection[]): DateDomain | null => {
+  let min = Infinity;
+  let max = -Infinity;
+  data.forEach(d => {
+    const time = d.startTime.getTime();
+    if (isNaN(time)) return;
+    if (time < min) min = time;
+    if (time > max) max = time;
+  });
+  if (min === Infinity) return null;
+  return { start: new Date(min), end: new Date(max) };
+};
+
+const getSeasonStart = (date: Date): Date => {
+  // Months 0-1 belong to the winter that started the previous December
+  const month = date.getMonth();
+  if (month < 2) return new Date(date.getFullYear() - 1, 11, 1);
+  const startMonth = month - ((month - 2) % 3);
+  return new Date(date.getFullYear(), startMonth, 1);
+};
+
+const getSeasonLabel = (start: Date): string => {
+  const season = SEASONS.find(s => s.startMonth === start.getMonth())!;
+  const year = start.getFullYear();
+  return season.name === 'Winter'
+    ? `Winter ${year}–${String(year + 1).slice(-2)}`
+    : `${season.name} ${year}`;
+};
+
+// Slider steps covering every month, season or day from the first to the last
+// detection in the data
+export const getDateSteps = (domain: DateDomain | null, resolution: DateResolution): DateStep[] => {
+  if (!domain) return [];
+
+  const steps: DateStep[] = [];
+  if (resolution === 'day') {
+    let current = new Date(domain.start.getFullYear(), domain.start.getMonth(), domain.start.getDate());
+    while (current <= domain.end) {
+      const next = new Date(current.getFullYear(), current.getMonth(), current.getDate() + 1);
+      steps.push({
+        start: current,
+        end: next,
+        label: `${MONTH_NAMES[current.getMonth()]} ${current.getDate()}, ${current.getFullYear()}`
+      });
+      current = next;
+    }
+  } else if (resolution === 'season') {
+    let current = getSeasonStart(domain.start);
+    while (current <= domain.end) {
+      const next = new Date(current.getFullYear(), current.getMonth() + 3, 1);
+      steps.push({ start: current, end: next, label: getSeasonLabel(current) });
+      current = next;
+    }
+  } else {
+    let current = new Date(domain.start.getFullYear(), domain.start.getMonth(), 1);
+    while (current <= domain.end) {
+      const next = new Date(current.getFullYear(), current.getMonth() + 1, 1);
+      steps.push({
+        start: current,
+        end: next,
+        label: `${MONTH_NAMES[current.getMonth()]} ${current.getFullYear()}`
+      });
+      current = next;
+    }
+  }
+  return steps;
+};
+
+// Index of the step containing `date`, clamped to the ends of the range
+export const findDateStep = (steps: DateStep[], date: Date): number => {
+  if (steps.length === 0) return 0;
+  if (date < steps[0].start) return 0;
+  const index = steps.findIndex(step => date >= step.start && date < step.end);
+  return index === -1 ? steps.length - 1 : index;
+};
+
+// Year marks for the slider, thinned so at most `maxMarks` labels are shown
+export const getSliderMarks = (steps: DateStep[], maxMarks = 5): Record<number, string> => {
+  const yearStarts: { index: number; year: number }[] = [];
+  steps.forEach((step, index) => {
+    const year = step.start.getFullYear();
+    if (index === 0 || year !== steps[index - 1].start.getFullYear()) {
+      yearStarts.push({ index, year });
+    }
+  });
+
+  const stride = Math.max(1, Math.ceil(yearStarts.length / maxMarks));
+  const marks: Record<number, string> = {};
+  yearStarts
+    .filter((_, i) => i % stride === 0)
+    .forEach(({ index, year }) => {
+      marks[index] = year.toString();
+    });
+  return marks;
+};
+
+// Start (inclusive) and end (exclusive) of a slider range, or null when there
+// are no steps to select from
+export const getDateWindow = (steps: DateStep[], range: [number, number]): { start: Date; end: Date } | null => {
+  if (steps.length === 0) return null;
+  const last = steps.length - 1;
+  return {
+    start: steps[Math.min(Math.max(range[0], 0), last)].start,
+    end: steps[Math.min(Math.max(range[1], 0), last)].end
+  };
+};
+
+export const getDateRangeLabel = (steps: DateStep[], range: [number, number]): string => {
+  if (steps.length === 0) return '';
+  const last = steps.length - 1;
+  return `${steps[Math.min(range[0], last)].label} - ${steps[Math.min(range[1], last)].label}`;
+};
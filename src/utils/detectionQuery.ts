@@ -0,0 +1,489 @@
+import {
+  AccumulationAxis,
+  BoundaryFilter,
+  AccumulationCurve,
+  CooccurrenceMatrix,
+  DeploymentEffort,
+  DetectionFilters,
+  DetectionQuery,
+  DetectionSummary,
+  DielActivityCurve,
+  GallerySequence,
+  OverlapEstimate,
+  ProcessedDetection,
+  SiteDetail,
+  TrendPeriod,
+  TrendResult,
+  TrendSeries
+} from '../types';
+import {
+  getIndependentEventIndices,
+  getHourlyActivity,
+  getHourlyActivityBySpecies,
+  getMonthlyActivityBySpecies,
+  getDielPeriodShares,
+  getMonthlyActivity,
+  getSpeciesDetectionCounts,
+  getSpeciesFrequency,
+  getSpeciesRAI,
+  getArraySpeciesTable,
+  getLocationCounts,
+  getCameraNights,
+  getSpeciesTotals
+} from './dataLoader';
+import { estimateOverlap, getActivityDensity, getTimeOfDayRadians } from './activityOverlap';
+import { getTrendPeriods, getTrendSeries } from './trend';
+import { getCommunitySummary } from './diversity';
+import { getAccumulationCurve } from './accumulation';
+import { getCooccurrenceMatrix } from './cooccurrence';
+import { isInArea } from './spatial';
+import { getBoundaryValue } from './boundaries';
+import { getSiteDetail, isAtLocation } from './siteDetail';
+import {
+  OccupancySiteKey,
+  OccupancySummary,
+  getOccupancySites,
+  getOccasions,
+  buildDetectionHistories,
+  getSiteCovariates
+} from './occupancy';
+
+// Row indices grouped by the fields the sidebar filters on most, so a filter
+// change only touches the rows that can match instead of the whole dataset
+export interface DetectionIndex {
+  bySpecies: Map<string, number[]>;
+  byRegion: Map<string, number[]>;
+  byArray: Map<string, number[]>;
+  byMonth: Map<number, number[]>; // key: year * 12 + month
+}
+
+const addToIndex = <K>(index: Map<K, number[]>, key: K, row: number) => {
+  const rows = index.get(key);
+  if (rows) {
+    rows.push(row);
+  } else {
+    index.set(key, [row]);
+  }
+};
+
+export const buildDetectionIndex = (data: ProcessedDetection[]): DetectionIndex => {
+  const index: DetectionIndex = {
+    bySpecies: new Map(),
+    byRegion: new Map(),
+    byArray: new Map(),
+    byMonth: new Map()
+  };
+  data.forEach((d, row) => {
+    addToIndex(index.bySpecies, d.commonName, row);
+    addToIndex(index.byRegion, d.region, row);
+    addToIndex(index.byArray, d.arrayName, row);
+    addToIndex(index.byMonth, d.startTime.getFullYear() * 12 + d.startTime.getMonth(), row);
+  });
+  return index;
+};
+
+export const isFilterActive = (selected: string[]): boolean => {
+  return selected.length > 0 && !selected.includes('All');
+};
+
+// Cameras whose polygon in each filtered boundary layer has a selected value
+const isInBoundaries = (lat: number, lng: number, boundaries: BoundaryFilter[]): boolean => {
+  return boundaries.every(f => f.values.includes(getBoundaryValue(f.layerId, f.attribute, lat, lng)));
+};
+
+const matchesDetectionFilters = (d: ProcessedDetection, filters: DetectionFilters): boolean => {
+  const matches = (selected: string[], value: string) => !isFilterActive(selected) || selected.includes(value);
+  const time = d.startTime.getTime();
+  return matches(filters.species, d.commonName)
+    && matches(filters.regions, d.region)
+    && matches(filters.arrayNames, d.arrayName)
+    && matches(filters.orders, d.order)
+    && matches(filters.families, d.family)
+    && matches(filters.genera, d.genus)
+    && matches(filters.ageClasses, d.age)
+    && matches(filters.sexes, d.sex)
+    && (!filters.dateStart || time >= filters.dateStart.getTime())
+    && (!filters.dateEnd || time < filters.dateEnd.getTime())
+    && isInArea(d.latitude, d.longitude, filters.area)
+    && isInBoundaries(d.latitude, d.longitude, filters.boundaries);
+};
+
+// Deployments at the cameras the region, array, map area and boundary filters select
+const matchesDeploymentFilters = (d: DeploymentEffort, filters: DetectionFilters): boolean => {
+  return (!isFilterActive(filters.regions) || filters.regions.includes(d.region))
+    && (!isFilterActive(filters.arrayNames) || filters.arrayNames.includes(d.arrayName))
+    && isInArea(d.latitude, d.longitude, filters.area)
+    && isInBoundaries(d.latitude, d.longitude, filters.boundaries);
+};
+
+// Candidate rows from the most selective indexed filter, then an exact check
+// of every filter on just those rows
+export const queryDetectionIndex = (
+  data: ProcessedDetection[],
+  index: DetectionIndex,
+  filters: DetectionFilters
+): Int32Array => {
+  const candidateLists: number[][][] = [];
+  const addCandidates = (selected: string[], byValue: Map<string, number[]>) => {
+    if (isFilterActive(selected)) {
+      candidateLists.push(selected.map(value => byValue.get(value) || []));
+    }
+  };
+  addCandidates(filters.species, index.bySpecies);
+  addCandidates(filters.regions, index.byRegion);
+  addCandidates(filters.arrayNames, index.byArray);
+  if (filters.dateStart || filters.dateEnd) {
+    const startKey = filters.dateStart ? filters.dateStart.getFullYear() * 12 + filters.dateStart.getMonth() : -Infinity;
+    const endKey = filters.dateEnd ? filters.dateEnd.getFullYear() * 12 + filters.dateEnd.getMonth() : Infinity;
+    candidateLists.push(
+      Array.from(index.byMonth.entries())
+        .filter(([key]) => key >= startKey && key <= endKey)
+        .map(([, rows]) => rows)
+    );
+  }
+
+  const size = (lists: number[][]) => lists.reduce((sum, rows) => sum + rows.length, 0);
+  const smallest = candidateLists.sort((a, b) => size(a) - size(b))[0];
+
+  const result: number[] = [];
+  if (smallest) {
+    smallest.forEach(rows => rows.forEach(row => {
+      if (matchesDetectionFilters(data[row], filters)) result.push(row);
+    }));
+    result.sort((a, b) => a - b);
+  } else {
+    data.forEach((d, row) => {
+      if (matchesDetectionFilters(d, filters)) result.push(row);
+    });
+  }
+  return Int32Array.from(result);
+};
+
+// Site-level views (camera locations, arrays, communities) ignore the
+// species-level filters
+const getSiteFilters = (filters: DetectionFilters): DetectionFilters => ({
+  ...filters,
+  species: ['All'],
+  orders: ['All'],
+  families: ['All'],
+  genera: ['All'],
+  ageClasses: ['All'],
+  sexes: ['All']
+});
+
+// The rows the charts count: the filtered rows themselves, or the first row of
+// each independent event carrying the event's group size
+const toAnalysisData = (rows: ProcessedDetection[], query: DetectionQuery): ProcessedDetection[] => {
+  if (query.countMode !== 'events') return rows;
+  return getIndependentEventIndices(rows, query.eventThreshold).map(({ index: i, groupSize }) => ({ ...rows[i], groupSize }));
+};
+
+// One density curve per selected species, or a single pooled curve when no
+// species filter is set
+const getDielActivity = (analysisData: ProcessedDetection[], query: DetectionQuery): DielActivityCurve[] => {
+  const timesBySpecies = new Map<string, number[]>();
+  const pooled = !isFilterActive(query.filters.species);
+  analysisData.forEach(d => {
+    const key = pooled ? 'All Species' : d.commonName;
+    if (!timesBySpecies.has(key)) timesBySpecies.set(key, []);
+    timesBySpecies.get(key)!.push(getTimeOfDayRadians(d, query.timeBasis));
+  });
+  return Array.from(timesBySpecies.entries())
+    .sort((a, b) => b[1].length - a[1].length)
+    .map(([species, times]) => ({ species, sampleSize: times.length, density: getActivityDensity(times) }));
+};
+
+// Diel overlap between two species under the current filters (other than
+// the species filter itself)
+export const estimateSpeciesOverlap = (
+  data: ProcessedDetection[],
+  index: DetectionIndex,
+  query: DetectionQuery,
+  speciesA: string,
+  speciesB: string,
+  iterations: number
+): OverlapEstimate | null => {
+  const timesFor = (species: string) => {
+    const rows = Array.from(queryDetectionIndex(data, index, { ...query.filters, species: [species] }), row => data[row]);
+    return toAnalysisData(rows, query).map(d => getTimeOfDayRadians(d, query.timeBasis));
+  };
+  const estimate = estimateOverlap(timesFor(speciesA), timesFor(speciesB), iterations);
+  return estimate ? { speciesA, speciesB, ...estimate } : null;
+};
+
+// Year (and optionally season) trends for each selected species, or all
+// species pooled, optionally split by region. Periods outside the date filter
+// are dropped; sampling effort follows the region, array and area filters.
+export const summarizeTrends = (
+  data: ProcessedDetection[],
+  index: DetectionIndex,
+  deployments: DeploymentEffort[],
+  query: DetectionQuery,
+  period: TrendPeriod,
+  splitByRegion: boolean,
+  metric: 'count' | 'rai'
+): TrendResult => {
+  const { filters } = query;
+  const rows = toAnalysisData(Array.from(queryDetectionIndex(data, index, filters), row => data[row]), query);
+  const effortDeployments = deployments.filter(d => matchesDeploymentFilters(d, filters));
+
+  const groups = new Map<string, { species: string; region: string; rows: ProcessedDetection[] }>();
+  const pooled = !isFilterActive(filters.species);
+  rows.forEach(d => {
+    const species = pooled ? 'All Species' : d.commonName;
+    const region = splitByRegion ? d.region : '';
+    const name = region ? `${species} – ${region}` : species;
+    if (!groups.has(name)) groups.set(name, { species, region, rows: [] });
+    groups.get(name)!.rows.push(d);
+  });
+
+  const inDateRange = (step: { start: Date; end: Date }) =>
+    (!filters.dateStart || step.end > filters.dateStart) && (!filters.dateEnd || step.start < filters.dateEnd);
+
+  const buildSeries = (seriesPeriod: TrendPeriod): TrendSeries[] => {
+    const periods = getTrendPeriods(data, seriesPeriod).filter(inDateRange);
+    return Array.from(groups.entries())
+      .sort((a, b) => b[1].rows.length - a[1].rows.length)
+      .map(([name, group]) => ({
+        name,
+        species: group.species,
+        region: group.region,
+        ...getTrendSeries(
+          group.rows,
+          periods,
+          group.region ? effortDeployments.filter(d => d.region === group.region) : effortDeployments,
+          metric,
+          seriesPeriod === 'season'
+        )
+      }));
+  };
+
+  const years = buildSeries('year');
+  return { period, metric, series: period === 'year' ? years : buildSeries('season'), years };
+};
+
+// Accumulation curves for each selected array, else each selected region,
+// else all cameras pooled. Every species counts whatever the species filters.
+export const summarizeAccumulation = (
+  data: ProcessedDetection[],
+  index: DetectionIndex,
+  deployments: DeploymentEffort[],
+  query: DetectionQuery,
+  axis: AccumulationAxis,
+  permutations: number
+): AccumulationCurve[] => {
+  const { filters } = query;
+  const rows = Array.from(queryDetectionIndex(data, index, getSiteFilters(filters)), row => data[row]);
+  const windowStart = filters.dateStart || undefined;
+  const windowEnd = filters.dateEnd || undefined;
+  const activeDeployments = deployments.filter(d =>
+    (!windowStart || d.end >= windowStart) && (!windowEnd || d.start < windowEnd) && isInArea(d.latitude, d.longitude, filters.area)
+      && isInBoundaries(d.latitude, d.longitude, filters.boundaries)
+  );
+
+  const byArray = isFilterActive(filters.arrayNames);
+  const groups = byArray ? filters.arrayNames : isFilterActive(filters.regions) ? filters.regions : ['All Cameras'];
+  const inGroup = (group: string, item: { arrayName: string; region: string }) =>
+    group === 'All Cameras' || (byArray ? item.arrayName === group : item.region === group);
+
+  return groups.map(group => getAccumulationCurve(
+    group,
+    rows.filter(d => inGroup(group, d)),
+    activeDeployments.filter(d => inGroup(group, d) && (!isFilterActive(filters.regions) || filters.regions.includes(d.region))),
+    axis,
+    permutations,
+    windowStart,
+    windowEnd
+  ));
+};
+
+// Co-occurrence among the most widespread species at the cameras matching the
+// site-level filters, so selecting a pair doesn't change the matrix
+export const summarizeCooccurrence = (
+  data: ProcessedDetection[],
+  index: DetectionIndex,
+  query: DetectionQuery,
+  topN: number,
+  windowHours: number | null
+): CooccurrenceMatrix => {
+  const rows = Array.from(queryDetectionIndex(data, index, getSiteFilters(query.filters)), row => data[row]);
+  return getCooccurrenceMatrix(rows, topN, windowHours);
+};
+
+// The filtered rows, optionally at one camera location, for CSV downloads
+export const selectDetections = (
+  data: ProcessedDetection[],
+  index: DetectionIndex,
+  filters: DetectionFilters,
+  location: { lat: number; lng: number } | null
+): ProcessedDetection[] => {
+  const rows = Array.from(queryDetectionIndex(data, index, filters), row => data[row]);
+  return location ? rows.filter(d => isAtLocation(d, location.lat, location.lng)) : rows;
+};
+
+// Rows sharing a sequence id are one burst of photos; newest first
+export const summarizeGallery = (
+  data: ProcessedDetection[],
+  index: DetectionIndex,
+  filters: DetectionFilters,
+  camera: { lat: number; lng: number } | null
+): GallerySequence[] => {
+  const sequences = new Map<string, GallerySequence>();
+  selectDetections(data, index, filters, camera).forEach(d => {
+    if (!d.sequenceId) return;
+    let sequence = sequences.get(d.sequenceId);
+    if (!sequence) {
+      sequence = {
+        sequenceId: d.sequenceId,
+        deploymentId: d.deploymentId,
+        startTime: d.startTime,
+        species: [],
+        groupSize: 0,
+        latitude: d.latitude,
+        longitude: d.longitude,
+        arrayName: d.arrayName
+      };
+      sequences.set(d.sequenceId, sequence);
+    }
+    if (d.startTime < sequence.startTime) sequence.startTime = d.startTime;
+    const entry = sequence.species.find(s => s.species === d.commonName);
+    if (entry) entry.groupSize += d.groupSize;
+    else sequence.species.push({ species: d.commonName, groupSize: d.groupSize });
+    sequence.groupSize += d.groupSize;
+  });
+  return Array.from(sequences.values()).sort((a, b) => b.startTime.getTime() - a.startTime.getTime());
+};
+
+// The detail drawer for one camera location. In events mode the rows are the
+// first of each independent event under the full filters.
+export const summarizeSite = (
+  data: ProcessedDetection[],
+  index: DetectionIndex,
+  deployments: DeploymentEffort[],
+  query: DetectionQuery,
+  lat: number,
+  lng: number
+): SiteDetail => {
+  const { filters } = query;
+  const rows = toAnalysisData(Array.from(queryDetectionIndex(data, index, filters), row => data[row]), query);
+  return getSiteDetail(
+    rows.filter(d => isAtLocation(d, lat, lng)),
+    deployments,
+    lat,
+    lng,
+    query.timeBasis,
+    filters.dateStart || undefined,
+    filters.dateEnd || undefined
+  );
+};
+
+// Sites follow the region/array/area filters; the study window follows the
+// date filter, or the span of the selected deployments
+export const summarizeOccupancy = (
+  data: ProcessedDetection[],
+  index: DetectionIndex,
+  deployments: DeploymentEffort[],
+  filters: DetectionFilters,
+  species: string[],
+  siteKey: OccupancySiteKey,
+  occasionDays: number
+): OccupancySummary => {
+  const sites = getOccupancySites(deployments.filter(d => matchesDeploymentFilters(d, filters)), siteKey);
+  const siteDeployments = sites.flatMap(site => site.deployments);
+  const occasions = siteDeployments.length === 0 ? [] : getOccasions(
+    filters.dateStart || new Date(Math.min(...siteDeployments.map(d => d.start.getTime()))),
+    filters.dateEnd || new Date(Math.max(...siteDeployments.map(d => d.end.getTime())) + 24 * 60 * 60 * 1000),
+    occasionDays
+  );
+  const rows = Array.from(queryDetectionIndex(data, index, { ...filters, species }), row => data[row]);
+  return {
+    occasionCount: occasions.length,
+    histories: occasions.length === 0 ? [] : buildDetectionHistories(rows, sites, occasions, species, siteKey),
+    siteCovariates: getSiteCovariates(sites, occasions)
+  };
+};
+
+// Every aggregate the dashboard renders for one query
+export const summarizeDetections = (
+  data: ProcessedDetection[],
+  index: DetectionIndex,
+  deployments: DeploymentEffort[],
+  query: DetectionQuery,
+  datasetVersion: number
+): DetectionSummary => {
+  const { filters } = query;
+  // Charts, map, cards and tables read from either the raw rows or the
+  // independent events derived from them
+  const analysisData = toAnalysisData(Array.from(queryDetectionIndex(data, index, filters), row => data[row]), query);
+
+  // Sampling effort for the selected regions/arrays/area, clipped to the date range
+  const windowStart = filters.dateStart || undefined;
+  const windowEnd = filters.dateEnd || undefined;
+  const effortDeployments = deployments.filter(d => matchesDeploymentFilters(d, filters));
+  let totalCameraNights = 0;
+  const cameraNightsByLocation = new Map<string, number>();
+  effortDeployments.forEach(d => {
+    const key = `${d.latitude},${d.longitude}`;
+    const nights = getCameraNights(d, windowStart, windowEnd);
+    totalCameraNights += nights;
+    cameraNightsByLocation.set(key, (cameraNightsByLocation.get(key) || 0) + nights);
+  });
+
+  // Camera locations and the array table ignore the species-level filters
+  const siteFilters = getSiteFilters(filters);
+  const siteRows = Array.from(queryDetectionIndex(data, index, { ...siteFilters, dateStart: null, dateEnd: null }));
+  const totalCameraLocations = new Set(
+    siteRows
+      .filter(row => data[row].latitude && data[row].longitude)
+      .map(row => `${data[row].latitude},${data[row].longitude}`)
+  ).size;
+
+  let arraySpeciesTable: DetectionSummary['arraySpeciesTable'] = [];
+  if (isFilterActive(filters.arrayNames)) {
+    const arrayData = Array.from(queryDetectionIndex(data, index, siteFilters), row => data[row]);
+    arraySpeciesTable = getArraySpeciesTable(toAnalysisData(arrayData, query), totalCameraNights);
+  }
+
+  // Community summaries compare every array, region and polygon, so only the
+  // date and area filters apply
+  const areaDeployments = deployments.filter(d => isInArea(d.latitude, d.longitude, filters.area));
+  const communityData = toAnalysisData(
+    Array.from(
+      queryDetectionIndex(data, index, { ...siteFilters, regions: ['All'], arrayNames: ['All'], boundaries: [] }),
+      row => data[row]
+    ),
+    query
+  );
+
+  return {
+    datasetVersion,
+    totalCount: analysisData.length,
+    distinctCameras: new Set(
+      analysisData
+        .filter(d => d.latitude && d.longitude)
+        .map(d => `${d.latitude},${d.longitude}`)
+    ).size,
+    totalCameraLocations,
+    totalCameraNights,
+    hourly: getHourlyActivity(analysisData, query.timeBasis),
+    hourlyBySpecies: isFilterActive(filters.species) ? getHourlyActivityBySpecies(analysisData, query.timeBasis) : [],
+    monthlyBySpecies: isFilterActive(filters.species) ? getMonthlyActivityBySpecies(analysisData) : [],
+    dielActivity: getDielActivity(analysisData, query),
+    dielPeriods: getDielPeriodShares(analysisData),
+    monthly: getMonthlyActivity(analysisData),
+    speciesFrequency: getSpeciesFrequency(analysisData),
+    speciesCameraCounts: getSpeciesDetectionCounts(analysisData),
+    speciesRAI: getSpeciesRAI(analysisData, totalCameraNights),
+    speciesTotals: getSpeciesTotals(analysisData),
+    locations: getLocationCounts(analysisData).map(loc => ({
+      ...loc,
+      cameraNights: cameraNightsByLocation.get(`${loc.lat},${loc.lng}`) || 0
+    })),
+    arraySpeciesTable,
+    communityByArray: getCommunitySummary(communityData, areaDeployments, 'arrayName', windowStart, windowEnd),
+    communityByRegion: getCommunitySummary(communityData, areaDeployments, 'region', windowStart, windowEnd),
+    communityByBoundary: query.communityBoundary
+      ? getCommunitySummary(communityData, areaDeployments, query.communityBoundary, windowStart, windowEnd)
+      : []
+  };
+};
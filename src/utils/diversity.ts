@@ -0,0 +1,116 @@
+import { CommunitySummaryRow, DeploymentEffort, ProcessedDetection } from '../types';
+import { getBoundaryValue } from './boundaries';
+
+// Community summaries comparing arrays, regions or boundary polygons: observed richness, the
+// bias-corrected Chao1 richness estimate, Shannon and Gini-Simpson diversity
+// from detection counts, and naive occupancy per species.
+
+export type CommunityGrouping = 'arrayName' | 'region' | { layerId: string; attribute: string };
+
+const getGroupName = (item: { arrayName: string; region: string; latitude: number; longitude: number }, grouping: CommunityGrouping) => {
+  if (grouping === 'arrayName') return item.arrayName;
+  if (grouping === 'region') return item.region;
+  return getBoundaryValue(grouping.layerId, grouping.attribute, item.latitude, item.longitude);
+};
+
+// Chao1 (bias-corrected form), from the number of species seen exactly once
+// (f1) and exactly twice (f2)
+export const getChao1 = (counts: number[]): number => {
+  const observed = counts.filter(c => c > 0).length;
+  const f1 = counts.filter(c => c === 1).length;
+  const f2 = counts.filter(c => c === 2).length;
+  return observed + (f1 * (f1 - 1)) / (2 * (f2 + 1));
+};
+
+export const getShannon = (counts: number[]): number => {
+  const total = counts.reduce((sum, c) => sum + c, 0);
+  if (total === 0) return 0;
+  return -counts.filter(c => c > 0).reduce((sum, c) => sum + (c / total) * Math.log(c / total), 0);
+};
+
+// Gini-Simpson index: probability two random detections are different species
+export const getSimpson = (counts: number[]): number => {
+  const total = counts.reduce((sum, c) => sum + c, 0);
+  if (total === 0) return 0;
+  return 1 - counts.reduce((sum, c) => sum + (c / total) ** 2, 0);
+};
+
+// One row per array, region or polygon attribute value. Cameras deployed come
+// from the deployments active in the date window, so cameras with no
+// detections still count.
+export const getCommunitySummary = (
+  data: ProcessedDetection[],
+  deployments: DeploymentEffort[],
+  grouping: CommunityGrouping,
+  windowStart?: Date,
+  windowEnd?: Date
+): CommunitySummaryRow[] => {
+  const groups = new Map<string, { cameras: Set<string>; speciesCounts: Map<string, number>; speciesCameras: Map<string, Set<string>>; detectedCameras: Set<string> }>();
+  const getGroup = (name: string) => {
+    if (!groups.has(name)) {
+      groups.set(name, { cameras: new Set(), speciesCounts: new Map(), speciesCameras: new Map(), detectedCameras: new Set() });
+    }
+    return groups.get(name)!;
+  };
+
+  deployments
+    .filter(d => (!windowStart || d.end >= windowStart) && (!windowEnd || d.start < windowEnd))
+    .forEach(d => {
+      const name = getGroupName(d, grouping);
+      if (name) getGroup(name).cameras.add(`${d.latitude},${d.longitude}`);
+    });
+
+  data.forEach(d => {
+    const name = getGroupName(d, grouping);
+    if (!name) return;
+    const group = getGroup(name);
+    const camera = `${d.latitude},${d.longitude}`;
+    group.cameras.add(camera);
+    group.detectedCameras.add(camera);
+    group.speciesCounts.set(d.commonName, (group.speciesCounts.get(d.commonName) || 0) + 1);
+    if (!group.speciesCameras.has(d.commonName)) group.speciesCameras.set(d.commonName, new Set());
+    group.speciesCameras.get(d.commonName)!.add(camera);
+  });
+
+  return Array.from(groups.entries())
+    .map(([group, { cameras, speciesCounts, speciesCameras, detectedCameras }]) => {
+      const counts = Array.from(speciesCounts.values());
+      const naiveOccupancy: Record<string, number> = {};
+      speciesCameras.forEach((speciesCameraSet, species) => {
+        naiveOccupancy[species] = speciesCameraSet.size / cameras.size;
+      });
+      return {
+        group,
+        cameras: cameras.size,
+        camerasWithDetections: detectedCameras.size,
+        detections: counts.reduce((sum, c) => sum + c, 0),
+        richness: speciesCounts.size,
+        chao1: getChao1(counts),
+        shannon: getShannon(counts),
+        simpson: getSimpson(counts),
+        naiveOccupancy
+      };
+    })
+    .sort((a, b) => a.group.localeCompare(b.group));
+};
+
+// Flat rows for CSV export, with a naive occupancy column per species
+export const getCommunitySummaryExport = (rows: CommunitySummaryRow[], groupLabel: string) => {
+  const species = Array.from(new Set(rows.flatMap(row => Object.keys(row.naiveOccupancy)))).sort();
+  return rows.map(row => {
+    const flat: Record<string, string | number> = {
+      [groupLabel]: row.group,
+      cameras: row.cameras,
+      camerasWithDetections: row.camerasWithDetections,
+      detections: row.detections,
+      richness: row.richness,
+      chao1: Number(row.chao1.toFixed(2)),
+      shannon: Number(row.shannon.toFixed(3)),
+      simpson: Number(row.simpson.toFixed(3))
+    };
+    species.forEach(name => {
+      flat[`naiveOccupancy_${name}`] = Number((row.naiveOccupancy[name] || 0).toFixed(3));
+    });
+    return flat;
+  });
+};
@@ -0,0 +1,660 @@
+import { DetectionFilters, FigureFont, FigureOptions } from '../types';
+import { isFilterActive } from './detectionQuery';
+import { writeFigurePdf } from './pdf';
+import { crc32 } from './zip';
+
+// Publication figures. A chart or the map is read from the page as a flat
+// list of paths, text and images in the element's pixel coordinates, laid out
+// on a page between its caption and footer, and written as SVG, PDF or PNG.
+
+export type FigureMatrix = [number, number, number, number, number, number]; // a b c d e f, as in SVG
+
+export interface FigurePaint {
+  color: string; // #rrggbb
+  opacity: number;
+}
+
+export type FigureItem =
+  | {
+      kind: 'path';
+      d: string;
+      matrix: FigureMatrix;
+      fill: FigurePaint | null;
+      fillRule: 'nonzero' | 'evenodd';
+      stroke: FigurePaint | null;
+      strokeWidth: number;
+      dash: number[];
+      lineCap: 'butt' | 'round' | 'square';
+      lineJoin: 'miter' | 'round' | 'bevel';
+    }
+  | {
+      kind: 'text';
+      text: string;
+      x: number; // anchor point on the baseline
+      y: number;
+      matrix: FigureMatrix;
+      fontSize: number;
+      bold: boolean;
+      fill: FigurePaint;
+      anchor: 'start' | 'middle' | 'end';
+    }
+  | { kind: 'image'; canvas: HTMLCanvasElement; x: number; y: number; width: number; height: number };
+
+export interface FigureScene {
+  width: number;
+  height: number;
+  items: FigureItem[];
+}
+
+// A caption or footer: wrapped lines, with the first baseline at y
+export interface FigureTextBlock {
+  lines: string[];
+  x: number;
+  y: number;
+  size: number;
+  lineHeight: number;
+  color: string;
+}
+
+// Page dimensions are in points; the scene is drawn at (x, y) times scale
+export interface FigureLayout {
+  options: FigureOptions;
+  width: number;
+  height: number;
+  caption: FigureTextBlock;
+  footer: FigureTextBlock;
+  scene: FigureScene;
+  x: number;
+  y: number;
+  scale: number;
+}
+
+export const DEFAULT_FIGURE_OPTIONS: FigureOptions = {
+  format: 'svg',
+  width: 6.5,
+  height: 4.5,
+  dpi: 300,
+  fontFamily: 'sans-serif',
+  fontSize: 8
+};
+
+export const FONT_STACKS: Record<FigureFont, string> = {
+  'sans-serif': 'Helvetica, Arial, sans-serif',
+  serif: '"Times New Roman", Times, serif',
+  monospace: '"Courier New", Courier, monospace'
+};
+
+const POINTS_PER_INCH = 72;
+const MARGIN = 0.25 * POINTS_PER_INCH;
+
+// Recharts animates lines and bars to a new size over 1.5 s
+const RELAYOUT_DELAY = 1700;
+
+// Overlays that are part of the page rather than the figure
+const SKIPPED = '.recharts-tooltip-wrapper, .leaflet-control-zoom, .leaflet-popup-pane, button, input, select';
+
+const SVG_SKIPPED_TAGS = new Set([
+  'defs', 'clippath', 'mask', 'lineargradient', 'radialgradient', 'pattern', 'marker', 'symbol',
+  'title', 'desc', 'style', 'metadata', 'foreignobject'
+]);
+
+const fmt = (n: number) => String(Math.round(n * 1000) / 1000);
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+const getTextWidth = (text: string, font: string) => {
+  if (!measureContext) measureContext = document.createElement('canvas').getContext('2d')!;
+  measureContext.font = font;
+  return measureContext.measureText(text).width;
+};
+
+// Width of text in the figure font, in the same units as size
+export const measureText = (text: string, size: number, font: FigureFont, bold: boolean) =>
+  getTextWidth(text, `${bold ? 'bold ' : ''}${size}px ${FONT_STACKS[font]}`);
+
+const wrapText = (text: string, size: number, font: FigureFont, width: number): string[] =>
+  text.split('\n').flatMap(paragraph => {
+    const lines: string[] = [];
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      const last = lines.length - 1;
+      if (last >= 0 && measureText(`${lines[last]} ${word}`, size, font, false) <= width) lines[last] += ` ${word}`;
+      else lines.push(word);
+    });
+    return lines;
+  });
+
+const parseColor = (value: string, opacity: number): FigurePaint | null => {
+  const match = value.match(/rgba?\(([^)]+)\)/);
+  if (!match) return null;
+  const [r, g, b, a = 1] = match[1].split(/[\s,/]+/).filter(Boolean).map(Number);
+  if (a * opacity <= 0) return null;
+  return {
+    color: `#${[r, g, b].map(v => Math.round(v).toString(16).padStart(2, '0')).join('')}`,
+    opacity: a * opacity
+  };
+};
+
+// Gradient fills (Recharts area shading) are flattened to their first stop
+const resolvePaint = (value: string, opacity: number): FigurePaint | null => {
+  const ref = value.match(/url\(["']?#([^"')]+)/);
+  if (!ref) return parseColor(value, opacity);
+  const stop = document.getElementById(ref[1])?.querySelector('stop');
+  if (!stop) return null;
+  const style = getComputedStyle(stop);
+  return parseColor(style.stopColor, opacity * Number(style.stopOpacity || 1));
+};
+
+const isBold = (weight: string) => weight === 'bold' || Number(weight) >= 600;
+
+const toFigureMatrix = (m: DOMMatrix | null, origin: DOMRect): FigureMatrix | null =>
+  m ? [m.a, m.b, m.c, m.d, m.e - origin.left, m.f - origin.top] : null;
+
+const attr = (el: Element, name: string) => parseFloat(el.getAttribute(name) || '0') || 0;
+
+const ellipsePath = (cx: number, cy: number, rx: number, ry: number) =>
+  `M${cx - rx},${cy}A${rx},${ry} 0 1 0 ${cx + rx},${cy}A${rx},${ry} 0 1 0 ${cx - rx},${cy}Z`;
+
+const roundedRectPath = (x: number, y: number, w: number, h: number, radius: number) => {
+  const r = Math.min(radius, w / 2, h / 2);
+  if (r <= 0) return `M${x},${y}H${x + w}V${y + h}H${x}Z`;
+  return `M${x + r},${y}H${x + w - r}A${r},${r} 0 0 1 ${x + w},${y + r}V${y + h - r}`
+    + `A${r},${r} 0 0 1 ${x + w - r},${y + h}H${x + r}A${r},${r} 0 0 1 ${x},${y + h - r}V${y + r}`
+    + `A${r},${r} 0 0 1 ${x + r},${y}Z`;
+};
+
+// Path data for an SVG shape element, or null for containers
+const getShapePath = (el: Element): string | null => {
+  const tag = el.tagName.toLowerCase();
+  switch (tag) {
+    case 'path':
+      return el.getAttribute('d') || '';
+    case 'rect':
+      return roundedRectPath(attr(el, 'x'), attr(el, 'y'), attr(el, 'width'), attr(el, 'height'), attr(el, 'rx') || attr(el, 'ry'));
+    case 'circle':
+      return ellipsePath(attr(el, 'cx'), attr(el, 'cy'), attr(el, 'r'), attr(el, 'r'));
+    case 'ellipse':
+      return ellipsePath(attr(el, 'cx'), attr(el, 'cy'), attr(el, 'rx'), attr(el, 'ry'));
+    case 'line':
+      return `M${attr(el, 'x1')},${attr(el, 'y1')}L${attr(el, 'x2')},${attr(el, 'y2')}`;
+    case 'polyline':
+    case 'polygon': {
+      const points = (el.getAttribute('points') || '').trim().split(/[\s,]+/).map(Number);
+      if (points.length < 4) return '';
+      const pairs = [];
+      for (let i = 0; i + 1 < points.length; i += 2) pairs.push(`${points[i]},${points[i + 1]}`);
+      return `M${pairs.join('L')}${tag === 'polygon' ? 'Z' : ''}`;
+    }
+    default:
+      return null;
+  }
+};
+
+// Children in paint order: positioned elements by z-index, then document order
+const getPaintOrder = (el: Element): ChildNode[] =>
+  Array.from(el.childNodes)
+    .map((node, i) => {
+      const z = node instanceof Element ? parseInt(getComputedStyle(node).zIndex, 10) : 0;
+      return { node, i, z: Number.isNaN(z) ? 0 : z };
+    })
+    .sort((a, b) => a.z - b.z || a.i - b.i)
+    .map(({ node }) => node);
+
+// Tiles from another origin are fetched again with CORS so the canvas can be
+// read back; blob, data and same-origin images are drawn as they are
+const loadImage = async (img: HTMLImageElement): Promise<CanvasImageSource> => {
+  if (/^(blob|data):/.test(img.src) || new URL(img.src, location.href).origin === location.origin) return img;
+  const response = await fetch(img.src, { mode: 'cors' });
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  return createImageBitmap(await response.blob());
+};
+
+// Reads an element's charts, legends and map layers into a scene. Images and
+// canvases (basemap tiles, the heatmap layer) are composited into one raster
+// at the given resolution.
+export const captureFigure = async (root: HTMLElement, dpi: number): Promise<FigureScene> => {
+  const origin = root.getBoundingClientRect();
+  const items: FigureItem[] = [];
+  const images: { source: HTMLImageElement | HTMLCanvasElement; rect: DOMRect; opacity: number }[] = [];
+  let imageSlot = -1;
+
+  const addShape = (el: SVGGraphicsElement, d: string, style: CSSStyleDeclaration, opacity: number) => {
+    const matrix = toFigureMatrix(el.getScreenCTM(), origin);
+    if (!matrix || !d) return;
+    const strokeWidth = parseFloat(style.strokeWidth) || 0;
+    const fill = el.tagName.toLowerCase() === 'line' ? null : resolvePaint(style.fill, opacity * Number(style.fillOpacity));
+    const stroke = strokeWidth > 0 ? resolvePaint(style.stroke, opacity * Number(style.strokeOpacity)) : null;
+    if (!fill && !stroke) return;
+    const dash = style.strokeDasharray === 'none' ? [] : style.strokeDasharray.split(/[\s,]+/).map(parseFloat).filter(n => !Number.isNaN(n));
+    items.push({
+      kind: 'path',
+      d,
+      matrix,
+      fill,
+      fillRule: style.fillRule === 'evenodd' ? 'evenodd' : 'nonzero',
+      stroke,
+      strokeWidth,
+      dash: dash.some(n => n > 0) ? dash : [],
+      lineCap: style.strokeLinecap === 'round' || style.strokeLinecap === 'square' ? style.strokeLinecap : 'butt',
+      lineJoin: style.strokeLinejoin === 'round' || style.strokeLinejoin === 'bevel' ? style.strokeLinejoin : 'miter'
+    });
+  };
+
+  // Each tspan is placed from the browser's glyph positions, so dy offsets
+  // and rotated axis labels come out where they are on screen
+  const addSvgText = (el: SVGTextElement, opacity: number) => {
+    const matrix = toFigureMatrix(el.getScreenCTM(), origin);
+    if (!matrix) return;
+    const tspans = Array.from(el.children).filter((child): child is SVGTSpanElement => child instanceof SVGTSpanElement);
+    (tspans.length > 0 ? tspans : [el]).forEach(part => {
+      const style = getComputedStyle(part);
+      const text = (part.textContent || '').replace(/\s+/g, ' ');
+      const count = part.getNumberOfChars();
+      const fill = resolvePaint(style.fill, opacity * Number(style.fillOpacity));
+      if (!text.trim() || count === 0 || !fill || style.display === 'none' || style.visibility === 'hidden') return;
+      try {
+        const start = part.getStartPositionOfChar(0);
+        const end = part.getEndPositionOfChar(count - 1);
+        const anchor = style.textAnchor === 'middle' || style.textAnchor === 'end' ? style.textAnchor : 'start';
+        items.push({
+          kind: 'text',
+          text: text.trim(),
+          x: anchor === 'middle' ? (start.x + end.x) / 2 : anchor === 'end' ? end.x : start.x,
+          y: start.y,
+          matrix,
+          fontSize: parseFloat(style.fontSize),
+          bold: isBold(style.fontWeight),
+          fill,
+          anchor
+        });
+      } catch {
+        // Characters that are not rendered have no position
+      }
+    });
+  };
+
+  const walkSvg = (el: Element, opacity: number) => {
+    const tag = el.tagName.toLowerCase();
+    if (SVG_SKIPPED_TAGS.has(tag)) return;
+    const style = getComputedStyle(el);
+    const alpha = opacity * Number(style.opacity || 1);
+    if (style.display === 'none' || alpha <= 0) return;
+    if (tag === 'text') {
+      addSvgText(el as SVGTextElement, alpha);
+      return;
+    }
+    const d = getShapePath(el);
+    if (d !== null) {
+      if (style.visibility !== 'hidden') addShape(el as SVGGraphicsElement, d, style, alpha);
+      return;
+    }
+    Array.from(el.children).forEach(child => walkSvg(child, alpha));
+  };
+
+  const addHtmlBox = (el: Element, style: CSSStyleDeclaration, opacity: number) => {
+    const rect = el.getBoundingClientRect();
+    if (rect.width <= 0 || rect.height <= 0) return;
+    const x = rect.left - origin.left;
+    const y = rect.top - origin.top;
+    const radius = style.borderTopLeftRadius.endsWith('%')
+      ? Math.min(rect.width, rect.height) * parseFloat(style.borderTopLeftRadius) / 100
+      : parseFloat(style.borderTopLeftRadius) || 0;
+    const border = style.borderTopStyle === 'none' ? 0 : parseFloat(style.borderTopWidth) || 0;
+    const fill = parseColor(style.backgroundColor, opacity);
+    const stroke = border > 0 ? parseColor(style.borderTopColor, opacity) : null;
+    const box = { kind: 'path' as const, matrix: [1, 0, 0, 1, 0, 0] as FigureMatrix, fillRule: 'nonzero' as const, dash: [], lineCap: 'butt' as const, lineJoin: 'miter' as const };
+
+    if (fill) items.push({ ...box, d: roundedRectPath(x, y, rect.width, rect.height, radius), fill, stroke: null, strokeWidth: 0 });
+
+    // Legend ramps: a linear gradient drawn as thin bands
+    const stops = style.backgroundImage.startsWith('linear-gradient')
+      ? (style.backgroundImage.match(/rgba?\([^)]+\)/g) || []).map(c => parseColor(c, opacity))
+      : [];
+    if (stops.length > 1) {
+      const horizontal = !style.backgroundImage.includes('to bottom') && !style.backgroundImage.includes('to top');
+      const bands = 48;
+      for (let i = 0; i < bands; i++) {
+        const t = (i + 0.5) / bands * (stops.length - 1);
+        const [a, b] = [stops[Math.floor(t)], stops[Math.min(Math.floor(t) + 1, stops.length - 1)]];
+        if (!a || !b) continue;
+        const mix = (c: string, d: string, k: number) => Math.round(parseInt(c, 16) * (1 - k) + parseInt(d, 16) * k);
+        const k = t - Math.floor(t);
+        const color = `#${[1, 3, 5].map(j => mix(a.color.slice(j, j + 2), b.color.slice(j, j + 2), k).toString(16).padStart(2, '0')).join('')}`;
+        const d = horizontal
+          ? roundedRectPath(x + rect.width * i / bands, y, rect.width / bands + 0.5, rect.height, 0)
+          : roundedRectPath(x, y + rect.height * i / bands, rect.width, rect.height / bands + 0.5, 0);
+        items.push({ ...box, d, fill: { color, opacity: a.opacity }, stroke: null, strokeWidth: 0 });
+      }
+    }
+
+    if (stroke) {
+      items.push({
+        ...box,
+        d: roundedRectPath(x + border / 2, y + border / 2, rect.width - border, rect.height - border, radius - border / 2),
+        fill: null,
+        stroke,
+        strokeWidth: border
+      });
+    }
+  };
+
+  // HTML text (Recharts legends, map legends, cluster counts) is placed from
+  // its line boxes; wrapped text is split between them by measured width
+  const addHtmlText = (node: Text, style: CSSStyleDeclaration, opacity: number) => {
+    let text = (node.textContent || '').replace(/\s+/g, ' ').trim();
+    const fill = parseColor(style.color, opacity);
+    if (!text || !fill) return;
+    if (style.textTransform === 'uppercase') text = text.toUpperCase();
+    const range = document.createRange();
+    range.selectNodeContents(node);
+    const rects = Array.from(range.getClientRects()).filter(r => r.width > 0);
+    const fontSize = parseFloat(style.fontSize);
+
+    // Vertical headings (the co-occurrence table's columns) are turned a
+    // quarter so they read as on screen: upward when the box is flipped
+    if (style.writingMode.startsWith('vertical')) {
+      const rect = rects[0];
+      if (!rect) return;
+      const upward = style.transform !== 'none' && new DOMMatrix(style.transform).a < 0;
+      const x = rect.left - origin.left + rect.width / 2;
+      items.push({
+        kind: 'text',
+        text,
+        x: 0,
+        y: fontSize * 0.35,
+        matrix: upward ? [0, -1, 1, 0, x, rect.bottom - origin.top] : [0, 1, -1, 0, x, rect.top - origin.top],
+        fontSize,
+        bold: isBold(style.fontWeight),
+        fill,
+        anchor: 'start'
+      });
+      return;
+    }
+
+    const font = `${style.fontWeight} ${style.fontSize} ${style.fontFamily}`;
+    const words = text.split(' ');
+    rects.forEach((rect, i) => {
+      const line: string[] = [];
+      while (words.length > 0 && (line.length === 0 || i === rects.length - 1
+        || getTextWidth([...line, words[0]].join(' '), font) <= rect.width + 1)) {
+        line.push(words.shift()!);
+      }
+      if (line.length === 0) return;
+      items.push({
+        kind: 'text',
+        text: line.join(' '),
+        x: rect.left - origin.left,
+        y: rect.top - origin.top + rect.height / 2 + fontSize * 0.35,
+        matrix: [1, 0, 0, 1, 0, 0],
+        fontSize,
+        bold: isBold(style.fontWeight),
+        fill,
+        anchor: 'start'
+      });
+    });
+  };
+
+  const walk = (el: Element, opacity: number) => {
+    if (el.matches(SKIPPED)) return;
+    if (el instanceof SVGElement) {
+      walkSvg(el, opacity);
+      return;
+    }
+    const style = getComputedStyle(el);
+    const alpha = opacity * Number(style.opacity || 1);
+    if (style.display === 'none' || alpha <= 0) return;
+    const visible = style.visibility !== 'hidden';
+    if (el instanceof HTMLImageElement || el instanceof HTMLCanvasElement) {
+      const ready = el instanceof HTMLCanvasElement ? el.width > 0 && el.height > 0 : el.complete && el.naturalWidth > 0;
+      if (visible && ready) {
+        if (imageSlot < 0) imageSlot = items.length;
+        images.push({ source: el, rect: el.getBoundingClientRect(), opacity: alpha });
+      }
+      return;
+    }
+    if (visible) addHtmlBox(el, style, alpha);
+    getPaintOrder(el).forEach(node => {
+      if (node instanceof Text) {
+        if (visible) addHtmlText(node, style, alpha);
+      } else if (node instanceof Element) {
+        walk(node, alpha);
+      }
+    });
+  };
+
+  walk(root, 1);
+
+  if (images.length > 0) {
+    const scale = Math.min(dpi / 96, 4);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(origin.width * scale);
+    canvas.height = Math.round(origin.height * scale);
+    const ctx = canvas.getContext('2d')!;
+    ctx.scale(scale, scale);
+    for (const { source, rect, opacity } of images) {
+      ctx.globalAlpha = opacity;
+      try {
+        const image = source instanceof HTMLCanvasElement ? source : await loadImage(source);
+        ctx.drawImage(image, rect.left - origin.left, rect.top - origin.top, rect.width, rect.height);
+      } catch {
+        // Tiles served without CORS headers can't be read back and are left out
+      }
+    }
+    items.splice(imageSlot, 0, { kind: 'image', canvas, x: 0, y: 0, width: origin.width, height: origin.height });
+  }
+
+  return { width: origin.width, height: origin.height, items };
+};
+
+const getTextBlock = (text: string, size: number, x: number, width: number, color: string, font: FigureFont): FigureTextBlock => ({
+  lines: wrapText(text.trim(), size, font, width),
+  x,
+  y: 0,
+  size,
+  lineHeight: size * 1.3,
+  color
+});
+
+// Caption above, footer below, and the scene scaled to fit between them
+export const layoutFigure = (scene: FigureScene, options: FigureOptions, caption: string, footer: string): FigureLayout => {
+  const width = options.width * POINTS_PER_INCH;
+  const height = options.height * POINTS_PER_INCH;
+  const inner = width - 2 * MARGIN;
+  const captionBlock = getTextBlock(caption, options.fontSize, MARGIN, inner, '#222222', options.fontFamily);
+  const footerBlock = getTextBlock(footer, options.fontSize * 0.8, MARGIN, inner, '#555555', options.fontFamily);
+  const captionHeight = captionBlock.lines.length * captionBlock.lineHeight;
+  const footerHeight = footerBlock.lines.length * footerBlock.lineHeight;
+  captionBlock.y = MARGIN + captionBlock.size;
+  footerBlock.y = height - MARGIN - footerHeight + footerBlock.size;
+
+  const top = MARGIN + captionHeight + (captionHeight > 0 ? captionBlock.size * 0.5 : 0);
+  const bottom = height - MARGIN - footerHeight - (footerHeight > 0 ? footerBlock.size * 0.5 : 0);
+  const scale = Math.max(0, Math.min(inner / scene.width, (bottom - top) / scene.height));
+  return {
+    options,
+    width,
+    height,
+    caption: captionBlock,
+    footer: footerBlock,
+    scene,
+    x: MARGIN + (inner - scene.width * scale) / 2,
+    y: top,
+    scale
+  };
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[c]!);
+
+const svgPaint = (name: 'fill' | 'stroke', paint: FigurePaint | null) =>
+  paint
+    ? ` ${name}="${paint.color}"${paint.opacity < 1 ? ` ${name}-opacity="${fmt(paint.opacity)}"` : ''}`
+    : ` ${name}="none"`;
+
+const svgMatrix = (matrix: FigureMatrix) =>
+  matrix.every((v, i) => v === [1, 0, 0, 1, 0, 0][i]) ? '' : ` transform="matrix(${matrix.map(fmt).join(' ')})"`;
+
+const renderSvgItem = (item: FigureItem): string => {
+  switch (item.kind) {
+    case 'path': {
+      const stroke = item.stroke
+        ? `${svgPaint('stroke', item.stroke)} stroke-width="${fmt(item.strokeWidth)}"`
+          + (item.lineCap !== 'butt' ? ` stroke-linecap="${item.lineCap}"` : '')
+          + (item.lineJoin !== 'miter' ? ` stroke-linejoin="${item.lineJoin}"` : '')
+          + (item.dash.length > 0 ? ` stroke-dasharray="${item.dash.map(fmt).join(' ')}"` : '')
+        : '';
+      const rule = item.fillRule === 'evenodd' ? ' fill-rule="evenodd"' : '';
+      return `<path d="${escapeXml(item.d)}"${svgMatrix(item.matrix)}${svgPaint('fill', item.fill)}${rule}${stroke}/>`;
+    }
+    case 'text':
+      return `<text x="${fmt(item.x)}" y="${fmt(item.y)}"${svgMatrix(item.matrix)} font-size="${fmt(item.fontSize)}"`
+        + `${item.bold ? ' font-weight="bold"' : ''}${item.anchor !== 'start' ? ` text-anchor="${item.anchor}"` : ''}`
+        + `${svgPaint('fill', item.fill)}>${escapeXml(item.text)}</text>`;
+    case 'image':
+      return `<image x="${fmt(item.x)}" y="${fmt(item.y)}" width="${fmt(item.width)}" height="${fmt(item.height)}"`
+        + ` preserveAspectRatio="none" href="${item.canvas.toDataURL('image/png')}"/>`;
+  }
+};
+
+const renderSvgTextBlock = (block: FigureTextBlock) =>
+  block.lines.map((line, i) =>
+    `<text x="${fmt(block.x)}" y="${fmt(block.y + i * block.lineHeight)}" font-size="${fmt(block.size)}" fill="${block.color}">${escapeXml(line)}</text>`
+  );
+
+export const renderFigureSvg = (layout: FigureLayout): string => {
+  const { options, scene } = layout;
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${options.width}in" height="${options.height}in"`
+      + ` viewBox="0 0 ${fmt(layout.width)} ${fmt(layout.height)}" font-family='${FONT_STACKS[options.fontFamily]}'>`,
+    `<rect width="${fmt(layout.width)}" height="${fmt(layout.height)}" fill="#ffffff"/>`,
+    ...renderSvgTextBlock(layout.caption),
+    `<defs><clipPath id="figure-clip"><rect width="${fmt(scene.width)}" height="${fmt(scene.height)}"/></clipPath></defs>`,
+    `<g transform="translate(${fmt(layout.x)} ${fmt(layout.y)}) scale(${fmt(layout.scale)})" clip-path="url(#figure-clip)">`,
+    ...scene.items.map(renderSvgItem),
+    '</g>',
+    ...renderSvgTextBlock(layout.footer),
+    '</svg>'
+  ].join('\n');
+};
+
+// Records the DPI in a pHYs chunk right after the PNG header, so page layout
+// programs place the image at its intended size
+const setPngResolution = (png: Uint8Array, dpi: number): Blob => {
+  const chunk = new Uint8Array(21);
+  const view = new DataView(chunk.buffer);
+  const pixelsPerMetre = Math.round(dpi / 0.0254);
+  view.setUint32(0, 9);
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4); // pHYs
+  view.setUint32(8, pixelsPerMetre);
+  view.setUint32(12, pixelsPerMetre);
+  chunk[16] = 1; // metres
+  view.setUint32(17, crc32(chunk.subarray(4, 17)));
+  const headerEnd = 8 + 25; // signature, then the IHDR chunk
+  return new Blob([png.slice(0, headerEnd), chunk, png.slice(headerEnd)], { type: 'image/png' });
+};
+
+const renderFigurePng = async (layout: FigureLayout): Promise<Blob> => {
+  const { options } = layout;
+  const url = URL.createObjectURL(new Blob([renderFigureSvg(layout)], { type: 'image/svg+xml' }));
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(options.width * options.dpi);
+    canvas.height = Math.round(options.height * options.dpi);
+    canvas.getContext('2d')!.drawImage(image, 0, 0, canvas.width, canvas.height);
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error('The figure is too large to draw at this resolution');
+    return setPngResolution(new Uint8Array(await blob.arrayBuffer()), options.dpi);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Captures root, lays it out and downloads it as filename plus the format's
+// extension. Charts (relayout) are first resized to the page's width so 12px
+// text prints at the chosen font size; the map is captured as it is shown.
+export const exportFigure = async (
+  root: HTMLElement,
+  options: FigureOptions,
+  caption: string,
+  footer: string,
+  filename: string,
+  relayout: boolean
+) => {
+  let scene: FigureScene;
+  if (relayout) {
+    const previous = root.style.width;
+    root.style.width = `${Math.round((options.width * POINTS_PER_INCH - 2 * MARGIN) * 12 / options.fontSize)}px`;
+    try {
+      await new Promise(resolve => setTimeout(resolve, RELAYOUT_DELAY));
+      scene = await captureFigure(root, options.dpi);
+    } finally {
+      root.style.width = previous;
+    }
+  } else {
+    scene = await captureFigure(root, options.dpi);
+  }
+
+  const layout = layoutFigure(scene, options, caption, footer);
+  const blob = options.format === 'pdf'
+    ? await writeFigurePdf(layout)
+    : options.format === 'png'
+      ? await renderFigurePng(layout)
+      : new Blob([renderFigureSvg(layout)], { type: 'image/svg+xml' });
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+  link.href = url;
+  link.download = `${filename}.${options.format}`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const FILTER_LABELS: [keyof DetectionFilters, string][] = [
+  ['orders', 'orders'],
+  ['families', 'families'],
+  ['genera', 'genera'],
+  ['ageClasses', 'age classes'],
+  ['sexes', 'sexes']
+];
+
+const describeList = (values: string[], all: string) => (isFilterActive(values) ? values.join(', ') : all);
+
+// The selections behind a figure, e.g. "species: Black Bear; regions: all
+// regions; arrays: all arrays; Jan 2018 - Dec 2019"
+const describeFigureFilters = (filters: DetectionFilters, dateLabel: string) => [
+  `species: ${describeList(filters.species, 'all species')}`,
+  `regions: ${describeList(filters.regions, 'all regions')}`,
+  `arrays: ${describeList(filters.arrayNames, 'all arrays')}`,
+  ...FILTER_LABELS
+    .filter(([key]) => isFilterActive(filters[key] as string[]))
+    .map(([key, label]) => `${label}: ${(filters[key] as string[]).join(', ')}`),
+  ...filters.boundaries.filter(f => isFilterActive(f.values)).map(f => `${f.attribute}: ${f.values.join(', ')}`),
+  ...(filters.area.length > 0 ? ['within the drawn map area'] : []),
+  dateLabel
+].join('; ');
+
+// Default caption: the title, then each filter set's selections and how
+// detections were counted
+export const getFigureCaption = (
+  title: string,
+  sets: { name?: string; filters: DetectionFilters; dateLabel: string }[],
+  countNote: string
+): string => {
+  const selections = sets.map(({ name, filters, dateLabel }) => {
+    const description = describeFigureFilters(filters, dateLabel);
+    return name ? `${name}: ${description}.` : `${description[0].toUpperCase()}${description.slice(1)}.`;
+  });
+  return [`${title}.`, ...selections, countNote].join(' ');
+};
+
+// Default footer: the project, the data releases loaded and the export date
+export const getFigureFooter = (sources: string[]): string => {
+  const releases = sources.map(source => source.replace(/\.csv$/i, '').replace(/_Data Release$/i, '').trim());
+  return [
+    'Michigan Mammal Monitoring Project',
+    `data release: ${releases.length > 0 ? releases.join('; ') : 'none loaded'}`,
+    `exported ${new Date().toLocaleDateString()}`
+  ].join(' · ');
+};
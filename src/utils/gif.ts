@@ -0,0 +1,206 @@
+// Minimal animated GIF (GIF89a) encoder for map playback exports. Frames are
+// added one at a time as they are captured: each is quantized to its own
+// 256-colour palette, compressed into one Blob part and can then be dropped,
+// so memory holds one frame of pixels rather than the whole animation.
+
+const MAX_CODE = 4096;
+
+// Colours are binned at 4 bits per channel; the palette is the average colour
+// of the 256 busiest bins
+const getPalette = (frame: ImageData): { palette: Uint8Array; lookup: Uint8Array } => {
+  const counts = new Float64Array(4096);
+  const sums = new Float64Array(4096 * 3);
+  const pixels = frame.data;
+  for (let i = 0; i < pixels.length; i += 4) {
+    const bin = ((pixels[i] >> 4) << 8) | ((pixels[i + 1] >> 4) << 4) | (pixels[i + 2] >> 4);
+    counts[bin]++;
+    sums[bin * 3] += pixels[i];
+    sums[bin * 3 + 1] += pixels[i + 1];
+    sums[bin * 3 + 2] += pixels[i + 2];
+  }
+
+  const bins = Array.from(counts.keys())
+    .filter(bin => counts[bin] > 0)
+    .sort((a, b) => counts[b] - counts[a])
+    .slice(0, 256);
+  const palette = new Uint8Array(256 * 3);
+  bins.forEach((bin, i) => {
+    for (let c = 0; c < 3; c++) palette[i * 3 + c] = Math.round(sums[bin * 3 + c] / counts[bin]);
+  });
+
+  // Nearest palette entry to each bin's average colour (or its centre when
+  // empty), so pixels map with one lookup
+  const lookup = new Uint8Array(4096);
+  for (let bin = 0; bin < 4096; bin++) {
+    const [r, g, b] = counts[bin] > 0
+      ? [0, 1, 2].map(c => sums[bin * 3 + c] / counts[bin])
+      : [bin >> 8, (bin >> 4) & 15, bin & 15].map(v => (v << 4) + 8);
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let i = 0; i < Math.max(1, bins.length); i++) {
+      const distance = (palette[i * 3] - r) ** 2 + (palette[i * 3 + 1] - g) ** 2 + (palette[i * 3 + 2] - b) ** 2;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = i;
+      }
+    }
+    lookup[bin] = best;
+  }
+  return { palette, lookup };
+};
+
+// Growable byte buffer that doubles when full
+const createByteWriter = (initialSize: number) => {
+  let bytes = new Uint8Array(Math.max(16, initialSize));
+  let length = 0;
+  const reserve = (extra: number) => {
+    if (length + extra <= bytes.length) return;
+    let size = bytes.length * 2;
+    while (size < length + extra) size *= 2;
+    const grown = new Uint8Array(size);
+    grown.set(bytes.subarray(0, length));
+    bytes = grown;
+  };
+  return {
+    byte: (value: number) => {
+      reserve(1);
+      bytes[length++] = value;
+    },
+    short: (value: number) => {
+      reserve(2);
+      bytes[length++] = value & 255;
+      bytes[length++] = (value >> 8) & 255;
+    },
+    string: (value: string) => {
+      reserve(value.length);
+      for (let i = 0; i < value.length; i++) bytes[length++] = value.charCodeAt(i);
+    },
+    bytes: (values: Uint8Array) => {
+      reserve(values.length);
+      bytes.set(values, length);
+      length += values.length;
+    },
+    // Trimmed copy, so the spare capacity can be freed
+    result: () => bytes.slice(0, length)
+  };
+};
+
+type ByteWriter = ReturnType<typeof createByteWriter>;
+
+// Variable-length LZW as the GIF spec uses it, with 8-bit pixel indices,
+// written straight into 255-byte data sub-blocks
+const compress = (indices: Uint8Array, out: ByteWriter) => {
+  const clearCode = 256;
+  const endCode = 257;
+  const block = new Uint8Array(255);
+  let blockLength = 0;
+  let buffer = 0;
+  let bufferBits = 0;
+  let codeSize = 9;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+
+  const flushBlock = () => {
+    out.byte(blockLength);
+    out.bytes(block.subarray(0, blockLength));
+    blockLength = 0;
+  };
+  const pushByte = (value: number) => {
+    block[blockLength++] = value;
+    if (blockLength === 255) flushBlock();
+  };
+  const write = (code: number) => {
+    buffer |= code << bufferBits;
+    bufferBits += codeSize;
+    while (bufferBits >= 8) {
+      pushByte(buffer & 255);
+      buffer >>>= 8;
+      bufferBits -= 8;
+    }
+  };
+
+  write(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const key = (prefix << 8) | indices[i];
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    write(prefix);
+    if (nextCode === MAX_CODE) {
+      write(clearCode);
+      table = new Map();
+      codeSize = 9;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = indices[i];
+  }
+  write(prefix);
+  write(endCode);
+  if (bufferBits > 0) pushByte(buffer & 255);
+  if (blockLength > 0) flushBlock();
+  out.byte(0); // block terminator
+};
+
+export interface GifEncoder {
+  addFrame: (frame: ImageData) => void;
+  finish: () => Blob;
+}
+
+export const createGifEncoder = (width: number, height: number, delayMs: number): GifEncoder => {
+  const parts: BlobPart[] = [];
+
+  const header = createByteWriter(64);
+  header.string('GIF89a');
+  header.short(width);
+  header.short(height);
+  header.byte(0x70); // no global palette; each frame carries its own
+  header.byte(0);
+  header.byte(0);
+
+  // Loop forever
+  header.bytes(new Uint8Array([0x21, 0xff, 11]));
+  header.string('NETSCAPE2.0');
+  header.bytes(new Uint8Array([3, 1]));
+  header.short(0);
+  header.byte(0);
+  parts.push(header.result());
+
+  const addFrame = (frame: ImageData) => {
+    const { palette, lookup } = getPalette(frame);
+    const out = createByteWriter((width * height) >> 1);
+
+    out.bytes(new Uint8Array([0x21, 0xf9, 4, 0x04])); // graphic control: keep previous frame, no transparency
+    out.short(Math.round(delayMs / 10));
+    out.byte(0);
+    out.byte(0);
+
+    out.byte(0x2c);
+    out.short(0);
+    out.short(0);
+    out.short(width);
+    out.short(height);
+    out.byte(0x87); // 256-colour local palette
+    out.bytes(palette);
+
+    const pixels = frame.data;
+    const indices = new Uint8Array(width * height);
+    for (let i = 0; i < indices.length; i++) {
+      const p = i * 4;
+      indices[i] = lookup[((pixels[p] >> 4) << 8) | ((pixels[p + 1] >> 4) << 4) | (pixels[p + 2] >> 4)];
+    }
+
+    out.byte(8);
+    compress(indices, out);
+    parts.push(out.result());
+  };
+
+  const finish = () => new Blob([...parts, new Uint8Array([0x3b])], { type: 'image/gif' });
+
+  return { addFrame, finish };
+};
@@ -0,0 +1,139 @@
+// Where the gallery finds a sequence's photos. Three adapters share one
+// interface: a URL template with {sequenceId} and {deploymentId}
+// placeholders, a manifest JSON mapping sequence ids to image files, and a
+// local folder picked in the browser (with or without a manifest.json).
+// Set VITE_IMAGE_URL_TEMPLATE or VITE_IMAGE_MANIFEST_URL at build time to
+// give the deployed dashboard a default.
+
+export interface ImageSource {
+  label: string;
+  // Images of a sequence, in order; a template source always returns one
+  // URL, which may not exist
+  getImages: (sequence: { sequenceId: string; deploymentId: string }) => string[];
+  listed: boolean; // true when the source lists every image, so sequences without any can be left out
+  imageCount?: number;
+}
+
+const IMAGE_FILE = /\.(jpe?g|png|gif|webp)$/i;
+
+export const createTemplateSource = (template: string): ImageSource => ({
+  label: `URL template ${template}`,
+  listed: false,
+  getImages: (sequence) => sequence.sequenceId
+    ? [template.replace(/\{(sequenceId|deploymentId)\}/g, (_, key: 'sequenceId' | 'deploymentId') =>
+        encodeURIComponent(sequence[key]))]
+    : []
+});
+
+const createListedSource = (label: string, images: Map<string, string[]>): ImageSource => ({
+  label,
+  listed: true,
+  imageCount: new Set(Array.from(images.values()).flat()).size,
+  getImages: (sequence) => images.get(sequence.sequenceId) || []
+});
+
+// Either { "<sequence_id>": "file" | ["file", ...] } or
+// [{ "sequence_id": "...", "file" | "files" | "url" | "image" | "images": ... }].
+// Paths are returned as written, for the caller to resolve.
+export const parseImageManifest = (json: unknown): Map<string, string[]> => {
+  const images = new Map<string, string[]>();
+  const add = (sequenceId: unknown, files: unknown) => {
+    const paths = (Array.isArray(files) ? files : [files]).filter((f): f is string => typeof f === 'string' && f !== '');
+    if (typeof sequenceId !== 'string' && typeof sequenceId !== 'number') return;
+    if (paths.length === 0) return;
+    const key = String(sequenceId);
+    images.set(key, [...(images.get(key) || []), ...paths]);
+  };
+
+  if (Array.isArray(json)) {
+    json.forEach(entry => {
+      if (typeof entry !== 'object' || entry === null) return;
+      const record = entry as Record<string, unknown>;
+      add(
+        record.sequence_id ?? record.sequenceId,
+        record.files ?? record.images ?? record.file ?? record.url ?? record.image ?? record.path
+      );
+    });
+  } else if (typeof json === 'object' && json !== null) {
+    Object.entries(json).forEach(([sequenceId, files]) => add(sequenceId, files));
+  }
+  if (images.size === 0) throw new Error('No sequence ids with image files found in the manifest');
+  return images;
+};
+
+export const loadManifestSource = async (url: string): Promise<ImageSource> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+  const manifest = parseImageManifest(await response.json());
+  const base = new URL(url, window.location.href);
+  const images = new Map(Array.from(manifest, ([id, paths]) => [id, paths.map(path => new URL(path, base).href)]));
+  return createListedSource(`Manifest ${url}`, images);
+};
+
+// A manifest opened on its own can only point at absolute URLs
+export const readManifestFile = async (file: File): Promise<ImageSource> => {
+  const manifest = parseImageManifest(JSON.parse(await file.text()));
+  return createListedSource(`Manifest ${file.name}`, manifest);
+};
+
+const getPath = (file: File) => file.webkitRelativePath || file.name;
+
+// Object URLs are made as images are first shown, not for the whole folder up front
+const createFolderSource = (label: string, files: Map<string, File[]>): ImageSource => {
+  const urls = new Map<File, string>();
+  const getUrl = (file: File) => {
+    if (!urls.has(file)) urls.set(file, URL.createObjectURL(file));
+    return urls.get(file)!;
+  };
+  return {
+    label,
+    listed: true,
+    imageCount: new Set(Array.from(files.values()).flat()).size,
+    getImages: (sequence) => (files.get(sequence.sequenceId) || []).map(getUrl)
+  };
+};
+
+// A folder of photos, matched to sequences by a manifest.json inside it, or
+// else by name: a subfolder named for the sequence, or files named for it
+// (optionally numbered, as in SEQ123_01.jpg)
+export const readImageFolder = async (fileList: File[]): Promise<ImageSource> => {
+  const imageFiles = fileList.filter(file => IMAGE_FILE.test(file.name));
+  if (imageFiles.length === 0) throw new Error('No JPEG, PNG, GIF or WebP images in the folder');
+  const root = getPath(fileList[0]).split('/')[0];
+  const label = `Local folder ${root}`;
+  const files = new Map<string, File[]>();
+  const add = (sequenceId: string, file: File) => {
+    if (!files.has(sequenceId)) files.set(sequenceId, []);
+    if (!files.get(sequenceId)!.includes(file)) files.get(sequenceId)!.push(file);
+  };
+
+  const manifestFile = fileList.find(file => /(^|\/)manifest\.json$/i.test(getPath(file)));
+  if (manifestFile) {
+    const manifestDir = getPath(manifestFile).replace(/[^/]*$/, '');
+    const byPath = new Map(imageFiles.map(file => [getPath(file), file]));
+    parseImageManifest(JSON.parse(await manifestFile.text())).forEach((paths, sequenceId) => {
+      paths.forEach(path => {
+        const file = byPath.get(`${manifestDir}${path.replace(/^\.\//, '')}`) || byPath.get(path);
+        if (file) add(sequenceId, file);
+      });
+    });
+  } else {
+    imageFiles
+      .sort((a, b) => getPath(a).localeCompare(getPath(b), undefined, { numeric: true }))
+      .forEach(file => {
+        const parts = getPath(file).split('/');
+        const baseName = parts[parts.length - 1].replace(IMAGE_FILE, '');
+        if (parts.length > 2) add(parts[parts.length - 2], file);
+        add(baseName, file);
+        add(baseName.replace(/[_-]\d+$/, ''), file);
+      });
+  }
+  if (files.size === 0) throw new Error('No images in the folder matched the manifest');
+  return createFolderSource(label, files);
+};
+
+export const getDefaultImageSource = (): Promise<ImageSource | null> => {
+  const { VITE_IMAGE_MANIFEST_URL: manifestUrl, VITE_IMAGE_URL_TEMPLATE: template } = import.meta.env;
+  if (manifestUrl) return loadManifestSource(manifestUrl);
+  return Promise.resolve(template ? createTemplateSource(template) : null);
+};
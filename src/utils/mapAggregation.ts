@@ -0,0 +1,84 @@
+// Screen-space aggregation for the detection map. Points are given as pixel
+// coordinates at the current zoom, so hexagons and clusters keep the same size
+// on screen whatever the zoom level.
+
+export interface PixelPoint {
+  x: number;
+  y: number;
+}
+
+export interface PixelGroup extends PixelPoint {
+  members: number[]; // indices into the input points
+}
+
+const SQRT3 = Math.sqrt(3);
+
+// Pointy-top hexagonal bins of the given radius (pixels), one per occupied cell
+export const getHexBins = (points: PixelPoint[], radius: number): PixelGroup[] => {
+  const bins = new Map<string, PixelGroup>();
+  points.forEach((p, i) => {
+    // Fractional axial coordinates, rounded to the nearest hexagon in cube space
+    const q = ((SQRT3 / 3) * p.x - p.y / 3) / radius;
+    const r = ((2 / 3) * p.y) / radius;
+    let rq = Math.round(q);
+    let rr = Math.round(r);
+    const rs = Math.round(-q - r);
+    const dq = Math.abs(rq - q);
+    const dr = Math.abs(rr - r);
+    const ds = Math.abs(rs + q + r);
+    if (dq > dr && dq > ds) rq = -rr - rs;
+    else if (dr > ds) rr = -rq - rs;
+
+    const key = `${rq},${rr}`;
+    if (!bins.has(key)) {
+      bins.set(key, { x: radius * SQRT3 * (rq + rr / 2), y: radius * 1.5 * rr, members: [] });
+    }
+    bins.get(key)!.members.push(i);
+  });
+  return Array.from(bins.values());
+};
+
+export const getHexagonVertices = (center: PixelPoint, radius: number): PixelPoint[] =>
+  Array.from({ length: 6 }, (_, i) => {
+    const angle = (Math.PI / 3) * i - Math.PI / 6;
+    return { x: center.x + radius * Math.cos(angle), y: center.y + radius * Math.sin(angle) };
+  });
+
+// Greedy clustering: in the given order, each point joins the first cluster
+// whose seed lies within the distance (pixels), or seeds a new one. Cluster
+// positions are the mean of their members.
+export const getClusters = (points: PixelPoint[], distance: number, order?: number[]): PixelGroup[] => {
+  const seeds: PixelPoint[] = [];
+  const clusters: PixelGroup[] = [];
+  (order || points.map((_, i) => i)).forEach(i => {
+    const p = points[i];
+    const c = seeds.findIndex(seed => Math.hypot(seed.x - p.x, seed.y - p.y) <= distance);
+    if (c === -1) {
+      seeds.push(p);
+      clusters.push({ x: p.x, y: p.y, members: [i] });
+    } else {
+      clusters[c].members.push(i);
+    }
+  });
+  clusters.forEach(cluster => {
+    cluster.x = cluster.members.reduce((sum, i) => sum + points[i].x, 0) / cluster.members.length;
+    cluster.y = cluster.members.reduce((sum, i) => sum + points[i].y, 0) / cluster.members.length;
+  });
+  return clusters;
+};
+
+// Sequential colour ramp (pale yellow to dark red) shared by the heatmap, the
+// hexagons and their legend
+export const HEAT_RAMP = ['#ffffb2', '#fecc5c', '#fd8d3c', '#f03b20', '#bd0026'];
+
+const RAMP_RGB = HEAT_RAMP.map(hex => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16)));
+
+export const getRampRgb = (t: number): [number, number, number] => {
+  const position = Math.min(1, Math.max(0, t)) * (RAMP_RGB.length - 1);
+  const i = Math.min(RAMP_RGB.length - 2, Math.floor(position));
+  const f = position - i;
+  const [r, g, b] = RAMP_RGB[i].map((v, k) => Math.round(v + (RAMP_RGB[i + 1][k] - v) * f));
+  return [r, g, b];
+};
+
+export const getRampColor = (t: number): string => `rgb(${getRampRgb(t).join(', ')})`;
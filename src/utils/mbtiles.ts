@@ -0,0 +1,226 @@
+// Raster MBTiles read in the browser. An MBTiles file is a SQLite database,
+// so this walks SQLite's table b-trees directly: enough of the file format to
+// list the schema and scan whole tables, which is all tile lookup needs.
+// Both the plain `tiles` table and the deduplicated map/images layout that
+// mb-util writes (with `tiles` as a view over them) are supported.
+
+export interface MBTilesArchive {
+  format: string; // png, jpg or webp
+  minZoom: number;
+  maxZoom: number;
+  attribution: string;
+  getTile: (z: number, x: number, y: number) => Uint8Array | undefined; // XYZ rows, north at the top
+}
+
+type SqlValue = number | string | Uint8Array | null;
+
+// Big-endian base-128, at most 9 bytes with the last one contributing all 8 bits
+const readVarint = (data: Uint8Array, offset: number): [number, number] => {
+  let value = 0;
+  for (let i = 0; i < 8; i++) {
+    const byte = data[offset + i];
+    value = value * 128 + (byte & 0x7f);
+    if (byte < 0x80) return [value, i + 1];
+  }
+  return [value * 256 + data[offset + 8], 9];
+};
+
+// Big-endian two's complement integer of 1 to 6 bytes
+const readInt = (data: Uint8Array, offset: number, size: number): number => {
+  let value = 0;
+  for (let i = 0; i < size; i++) value = value * 256 + data[offset + i];
+  return data[offset] & 0x80 ? value - 2 ** (8 * size) : value;
+};
+
+const decodeRecord = (payload: Uint8Array, decoder: TextDecoder): SqlValue[] => {
+  const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+  const [headerSize, headerStart] = readVarint(payload, 0);
+  const values: SqlValue[] = [];
+  let headerOffset = headerStart;
+  let offset = headerSize;
+  while (headerOffset < headerSize) {
+    const [serialType, length] = readVarint(payload, headerOffset);
+    headerOffset += length;
+    if (serialType >= 1 && serialType <= 6) {
+      const size = [1, 2, 3, 4, 6, 8][serialType - 1];
+      values.push(size === 8 ? Number(view.getBigInt64(offset)) : readInt(payload, offset, size));
+      offset += size;
+    } else if (serialType === 7) {
+      values.push(view.getFloat64(offset));
+      offset += 8;
+    } else if (serialType === 8 || serialType === 9) {
+      values.push(serialType - 8);
+    } else if (serialType >= 12) {
+      const size = Math.floor((serialType - 12) / 2);
+      const bytes = payload.subarray(offset, offset + size);
+      values.push(serialType % 2 === 0 ? bytes : decoder.decode(bytes));
+      offset += size;
+    } else {
+      values.push(null);
+    }
+  }
+  return values;
+};
+
+const openDatabase = (buffer: ArrayBuffer) => {
+  const data = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  if (new TextDecoder().decode(data.subarray(0, 15)) !== 'SQLite format 3') {
+    throw new Error('Not an MBTiles (SQLite) file');
+  }
+  const pageSize = view.getUint16(16) === 1 ? 65536 : view.getUint16(16);
+  const usableSize = pageSize - data[20];
+  const decoder = new TextDecoder(['utf-8', 'utf-16le', 'utf-16be'][view.getUint32(56) - 1] || 'utf-8');
+
+  // A cell's payload: the part stored on the page, then any overflow pages,
+  // each starting with the number of the next
+  const readPayload = (offset: number, size: number): Uint8Array => {
+    const maxLocal = usableSize - 35;
+    if (size <= maxLocal) return data.subarray(offset, offset + size);
+    const minLocal = Math.floor(((usableSize - 12) * 32) / 255) - 23;
+    const spill = minLocal + ((size - minLocal) % (usableSize - 4));
+    const local = spill <= maxLocal ? spill : minLocal;
+    const payload = new Uint8Array(size);
+    payload.set(data.subarray(offset, offset + local));
+    let written = local;
+    let page = view.getUint32(offset + local);
+    while (written < size && page > 0) {
+      const pageStart = (page - 1) * pageSize;
+      const chunk = Math.min(size - written, usableSize - 4);
+      payload.set(data.subarray(pageStart + 4, pageStart + 4 + chunk), written);
+      written += chunk;
+      page = view.getUint32(pageStart);
+    }
+    return payload;
+  };
+
+  // Every row of a table b-tree, in rowid order
+  const scanTable = (rootPage: number, onRow: (rowid: number, values: SqlValue[]) => void) => {
+    const visit = (page: number) => {
+      const pageStart = (page - 1) * pageSize;
+      const header = pageStart + (page === 1 ? 100 : 0);
+      const pageType = data[header];
+      const cellCount = view.getUint16(header + 3);
+      if (pageType === 0x05) {
+        for (let i = 0; i < cellCount; i++) {
+          visit(view.getUint32(pageStart + view.getUint16(header + 12 + i * 2)));
+        }
+        visit(view.getUint32(header + 8));
+      } else if (pageType === 0x0d) {
+        for (let i = 0; i < cellCount; i++) {
+          let offset = pageStart + view.getUint16(header + 8 + i * 2);
+          const [size, sizeLength] = readVarint(data, offset);
+          offset += sizeLength;
+          const [rowid, rowidLength] = readVarint(data, offset);
+          offset += rowidLength;
+          onRow(rowid, decodeRecord(readPayload(offset, size), decoder));
+        }
+      } else {
+        throw new Error('Unsupported table layout in MBTiles file');
+      }
+    };
+    visit(rootPage);
+  };
+
+  const schema: { type: string; name: string; rootPage: number; sql: string }[] = [];
+  scanTable(1, (_, [type, name, , rootPage, sql]) => {
+    schema.push({ type: String(type), name: String(name), rootPage: Number(rootPage), sql: String(sql ?? '') });
+  });
+
+  // Rows as objects keyed by column name; an INTEGER PRIMARY KEY column is
+  // stored as null and takes the rowid
+  const scanRows = (tableName: string, onRow: (row: Record<string, SqlValue>) => void) => {
+    const table = schema.find(entry => entry.type === 'table' && entry.name.toLowerCase() === tableName);
+    if (!table) throw new Error(`MBTiles file has no ${tableName} table`);
+    const columns = getColumns(table.sql);
+    scanTable(table.rootPage, (rowid, values) => {
+      const row: Record<string, SqlValue> = {};
+      columns.forEach(({ name, isRowid }, i) => {
+        row[name] = isRowid && values[i] === null ? rowid : values[i] ?? null;
+      });
+      onRow(row);
+    });
+  };
+
+  const hasTable = (tableName: string) =>
+    schema.some(entry => entry.type === 'table' && entry.name.toLowerCase() === tableName);
+
+  return { scanRows, hasTable };
+};
+
+// Column names from a CREATE TABLE statement, skipping table constraints
+const getColumns = (sql: string): { name: string; isRowid: boolean }[] => {
+  const body = sql.slice(sql.indexOf('(') + 1, sql.lastIndexOf(')'));
+  const definitions: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of body) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      definitions.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  definitions.push(current);
+  return definitions
+    .map(definition => definition.trim())
+    .filter(definition => !/^(constraint|primary|unique|check|foreign)\b/i.test(definition))
+    .map(definition => {
+      const match = /^(?:"([^"]+)"|`([^`]+)`|\[([^\]]+)\]|(\S+))/.exec(definition);
+      const name = match ? (match[1] || match[2] || match[3] || match[4]).toLowerCase() : '';
+      return { name, isRowid: /^\S+\s+integer\s+primary\s+key/i.test(definition) };
+    });
+};
+
+const toNumber = (value: SqlValue | undefined): number => (typeof value === 'number' ? value : Number(value));
+
+export const readMBTiles = (buffer: ArrayBuffer): MBTilesArchive => {
+  const database = openDatabase(buffer);
+
+  const metadata: Record<string, string> = {};
+  if (database.hasTable('metadata')) {
+    database.scanRows('metadata', row => {
+      metadata[String(row.name).toLowerCase()] = String(row.value ?? '');
+    });
+  }
+  const format = (metadata.format || 'png').toLowerCase();
+  if (format === 'pbf' || format === 'mvt') {
+    throw new Error('Vector MBTiles are not supported; use raster (PNG, JPEG or WebP) tiles');
+  }
+
+  // Keyed by zoom/column/row with rows counted from the south, as stored
+  const tiles = new Map<string, Uint8Array>();
+  let [minZoom, maxZoom] = [Infinity, -Infinity];
+  const addTile = (z: number, x: number, row: number, tileData: SqlValue | undefined) => {
+    if (!(tileData instanceof Uint8Array)) return;
+    tiles.set(`${z}/${x}/${row}`, tileData);
+    minZoom = Math.min(minZoom, z);
+    maxZoom = Math.max(maxZoom, z);
+  };
+
+  if (database.hasTable('tiles')) {
+    database.scanRows('tiles', row => {
+      addTile(toNumber(row.zoom_level), toNumber(row.tile_column), toNumber(row.tile_row), row.tile_data);
+    });
+  } else if (database.hasTable('map') && database.hasTable('images')) {
+    const images = new Map<string, SqlValue>();
+    database.scanRows('images', row => images.set(String(row.tile_id), row.tile_data));
+    database.scanRows('map', row => {
+      addTile(toNumber(row.zoom_level), toNumber(row.tile_column), toNumber(row.tile_row), images.get(String(row.tile_id)));
+    });
+  } else {
+    throw new Error('MBTiles file has no tiles table');
+  }
+  if (tiles.size === 0) throw new Error('MBTiles file contains no tiles');
+
+  return {
+    format: format === 'jpeg' ? 'jpg' : format,
+    minZoom: isFinite(Number(metadata.minzoom)) && metadata.minzoom ? Number(metadata.minzoom) : minZoom,
+    maxZoom: isFinite(Number(metadata.maxzoom)) && metadata.maxzoom ? Number(metadata.maxzoom) : maxZoom,
+    attribution: metadata.attribution || '',
+    getTile: (z, x, y) => tiles.get(`${z}/${x}/${2 ** z - 1 - y}`)
+  };
+};
@@ -0,0 +1,31 @@
+// Simplified Michigan shoreline and state line as [lat, lng] rings, bundled so
+// the map has a background with no tile server at all. Accurate to a few
+// kilometres: enough to place cameras, not to measure anything.
+
+const LOWER_PENINSULA: [number, number][] = [
+  [41.76, -86.82], [41.76, -85.79], [41.71, -84.81], [41.73, -83.45], [41.95, -83.26], [42.05, -83.16],
+  [42.33, -83.05], [42.36, -82.92], [42.56, -82.82], [42.67, -82.57], [43.0, -82.42], [43.34, -82.52],
+  [43.6, -82.6], [43.86, -82.7], [44.02, -82.85], [44.06, -83.02], [43.92, -83.4], [43.73, -83.66],
+  [43.6, -83.9], [43.78, -83.94], [44.02, -83.86], [44.26, -83.53], [44.56, -83.32], [44.86, -83.33],
+  [45.03, -83.26], [45.08, -83.43], [45.34, -83.48], [45.44, -83.81], [45.6, -84.17], [45.69, -84.47],
+  [45.79, -84.74], [45.72, -85.01], [45.45, -85.03], [45.32, -85.25], [45.1, -85.37], [44.9, -85.42],
+  [44.76, -85.61], [45.21, -85.62], [45.02, -85.76], [44.88, -86.05], [44.63, -86.25], [44.25, -86.33],
+  [43.95, -86.45], [43.65, -86.54], [43.23, -86.34], [43.06, -86.24], [42.79, -86.21], [42.4, -86.28],
+  [42.1, -86.49], [41.9, -86.65]
+];
+
+const UPPER_PENINSULA: [number, number][] = [
+  [45.85, -84.72], [45.98, -84.35], [45.98, -84.0], [46.1, -83.62], [46.25, -84.1], [46.5, -84.35],
+  [46.5, -84.66], [46.77, -84.96], [46.67, -85.4], [46.68, -85.98], [46.41, -86.65], [46.55, -87.4],
+  [46.88, -87.9], [46.8, -88.3], [46.76, -88.45], [47.0, -88.25], [47.38, -87.8], [47.47, -87.7],
+  [47.47, -87.9], [47.4, -88.3], [47.2, -88.6], [47.0, -88.9], [46.87, -89.31], [46.77, -89.75],
+  [46.57, -90.42], [46.4, -90.16], [46.25, -89.9], [46.12, -89.12], [45.99, -88.65], [45.79, -88.05],
+  [45.6, -87.8], [45.37, -87.75], [45.1, -87.61], [45.4, -87.45], [45.75, -87.07], [45.85, -86.95],
+  [45.7, -86.6], [45.95, -86.25], [46.08, -85.45], [45.95, -85.0]
+];
+
+const ISLE_ROYALE: [number, number][] = [
+  [47.87, -89.25], [48.02, -88.93], [48.18, -88.42], [48.12, -88.4], [47.95, -88.75], [47.88, -89.05]
+];
+
+export const MICHIGAN_OUTLINE: [number, number][][] = [LOWER_PENINSULA, UPPER_PENINSULA, ISLE_ROYALE];
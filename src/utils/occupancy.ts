@@ -0,0 +1,150 @@
+import { DeploymentEffort, ProcessedDetection } from '../types';
+import { getCameraNights } from './dataLoader';
+import { formatDateParam } from './urlState';
+
+// Detection histories in the wide site × occasion layout that `unmarked`
+// (unmarkedFrameOccu) and RPresence read: 1 = detected, 0 = camera running
+// but not detected, NA = camera not running during the occasion.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type OccupancySiteKey = 'deployment' | 'location';
+
+export interface OccupancyOccasion {
+  start: Date; // inclusive
+  end: Date; // exclusive
+}
+
+export interface OccupancySite {
+  site: string;
+  region: string;
+  arrayName: string;
+  latitude: number;
+  longitude: number;
+  deployments: DeploymentEffort[];
+}
+
+export interface DetectionHistory {
+  species: string;
+  rows: Record<string, string | number>[];
+}
+
+// What the export downloads: a history per species plus the site covariates
+export interface OccupancySummary {
+  occasionCount: number;
+  histories: DetectionHistory[];
+  siteCovariates: Record<string, string | number>[];
+}
+
+const getSiteKey = (siteKey: OccupancySiteKey, deploymentId: string, latitude: number, longitude: number) => {
+  return siteKey === 'deployment' ? deploymentId : `${latitude},${longitude}`;
+};
+
+// One site per deployment, or per camera location with its deployments merged
+export const getOccupancySites = (deployments: DeploymentEffort[], siteKey: OccupancySiteKey): OccupancySite[] => {
+  const sites = new Map<string, OccupancySite>();
+  deployments.forEach(d => {
+    const key = getSiteKey(siteKey, d.deploymentId, d.latitude, d.longitude);
+    const existing = sites.get(key);
+    if (existing) {
+      existing.deployments.push(d);
+    } else {
+      sites.set(key, {
+        site: key,
+        region: d.region,
+        arrayName: d.arrayName,
+        latitude: d.latitude,
+        longitude: d.longitude,
+        deployments: [d]
+      });
+    }
+  });
+  return Array.from(sites.values()).sort((a, b) => a.site.localeCompare(b.site));
+};
+
+// Back-to-back occasions of `occasionDays` from the start of the study
+// window; the last occasion may be shorter
+export const getOccasions = (start: Date, end: Date, occasionDays: number): OccupancyOccasion[] => {
+  const occasions: OccupancyOccasion[] = [];
+  let current = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+  while (current < end) {
+    const next = new Date(current.getFullYear(), current.getMonth(), current.getDate() + occasionDays);
+    occasions.push({ start: current, end: next < end ? next : end });
+    current = next;
+  }
+  return occasions;
+};
+
+// Deployment end dates from a deployments file are whole days, so the last
+// day counts as running
+const isRunning = (deployment: DeploymentEffort, occasion: OccupancyOccasion): boolean => {
+  const end = deployment.inferred ? deployment.end.getTime() : deployment.end.getTime() + DAY_MS;
+  return deployment.start < occasion.end && end > occasion.start.getTime();
+};
+
+const getOccasionLabel = (occasion: OccupancyOccasion) => formatDateParam(occasion.start);
+
+// A site × occasion matrix per species. Detections mark an occasion as 1 even
+// when the deployment window says the camera wasn't running.
+export const buildDetectionHistories = (
+  detections: ProcessedDetection[],
+  sites: OccupancySite[],
+  occasions: OccupancyOccasion[],
+  species: string[],
+  siteKey: OccupancySiteKey
+): DetectionHistory[] => {
+  const occasionIndex = (time: number) => {
+    let low = 0;
+    let high = occasions.length - 1;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (time < occasions[mid].start.getTime()) {
+        high = mid - 1;
+      } else if (time >= occasions[mid].end.getTime()) {
+        low = mid + 1;
+      } else {
+        return mid;
+      }
+    }
+    return -1;
+  };
+
+  const detected = new Set<string>();
+  detections.forEach(d => {
+    const occasion = occasionIndex(d.startTime.getTime());
+    if (occasion === -1) return;
+    detected.add(`${d.commonName}|${getSiteKey(siteKey, d.deploymentId, d.latitude, d.longitude)}|${occasion}`);
+  });
+
+  const running = sites.map(site => occasions.map(occasion => site.deployments.some(d => isRunning(d, occasion))));
+
+  return species.map(name => ({
+    species: name,
+    rows: sites.map((site, s) => {
+      const row: Record<string, string | number> = { site: site.site };
+      occasions.forEach((occasion, o) => {
+        row[getOccasionLabel(occasion)] = detected.has(`${name}|${site.site}|${o}`) ? 1 : running[s][o] ? 0 : 'NA';
+      });
+      return row;
+    })
+  }));
+};
+
+// Site covariates in the same row order as the detection histories
+export const getSiteCovariates = (sites: OccupancySite[], occasions: OccupancyOccasion[]) => {
+  const windowStart = occasions.length > 0 ? occasions[0].start : undefined;
+  const windowEnd = occasions.length > 0 ? occasions[occasions.length - 1].end : undefined;
+  return sites.map(site => ({
+    site: site.site,
+    region: site.region,
+    arrayName: site.arrayName,
+    latitude: site.latitude,
+    longitude: site.longitude,
+    deployments: site.deployments.map(d => d.deploymentId).join(';'),
+    cameraNights: Number(site.deployments
+      .filter(d => !windowStart || !windowEnd || (d.start < windowEnd && d.end >= windowStart))
+      .reduce((sum, d) => sum + getCameraNights(d, windowStart, windowEnd), 0)
+      .toFixed(1)),
+    occasionsSampled: occasions.filter(occasion => site.deployments.some(d => isRunning(d, occasion))).length
+  }));
+};
@@ -0,0 +1,343 @@
+import { FigureFont } from '../types';
+import { FigureItem, FigureLayout, FigureMatrix, FigurePaint, FigureTextBlock, measureText } from './figureExport';
+
+// Minimal single-page PDF 1.4 writer for exported figures: vector paths, text
+// in the standard Helvetica, Times or Courier faces (not embedded), and
+// images as Flate-compressed RGB with a soft mask, so transparent areas show
+// what is drawn underneath. The page is flipped once so figure items keep
+// their top-left origin.
+
+type PathSegment =
+  | ['M' | 'L', number, number]
+  | ['C', number, number, number, number, number, number]
+  | ['Z'];
+
+const BASE_FONTS: Record<FigureFont, [string, string]> = {
+  'sans-serif': ['Helvetica', 'Helvetica-Bold'],
+  serif: ['Times-Roman', 'Times-Bold'],
+  monospace: ['Courier', 'Courier-Bold']
+};
+
+// Characters the standard fonts' WinAnsi encoding has outside Latin-1
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88,
+  '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93,
+  '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b,
+  'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f, '−': 0x2d, '′': 0x27, '″': 0x22
+};
+
+const PATH_TOKEN = /[MmLlHhVvCcSsQqTtAaZz]|[-+]?(?:\d*\.\d+|\d+\.?)(?:[eE][-+]?\d+)?/g;
+
+const fmt = (n: number) => String(Math.round(n * 1000) / 1000);
+
+// SVG elliptical arc as cubic Béziers of at most a quarter turn each
+// (endpoint to centre conversion from the SVG spec, appendix F.6)
+const arcToCubics = (
+  x1: number, y1: number, rx: number, ry: number, angle: number,
+  largeArc: boolean, sweep: boolean, x2: number, y2: number
+): PathSegment[] => {
+  if (x1 === x2 && y1 === y2) return [];
+  if (rx === 0 || ry === 0) return [['L', x2, y2]];
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  const phi = angle * Math.PI / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+  const dx = (x1 - x2) / 2;
+  const dy = (y1 - y2) / 2;
+  const x1p = cos * dx + sin * dy;
+  const y1p = -sin * dx + cos * dy;
+  const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+  const numerator = rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p;
+  const denominator = rx * rx * y1p * y1p + ry * ry * x1p * x1p;
+  const coef = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator));
+  const cxp = coef * rx * y1p / ry;
+  const cyp = -coef * ry * x1p / rx;
+  const cx = cos * cxp - sin * cyp + (x1 + x2) / 2;
+  const cy = sin * cxp + cos * cyp + (y1 + y2) / 2;
+
+  const vectorAngle = (ux: number, uy: number, vx: number, vy: number) => Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const theta = vectorAngle(1, 0, (x1p - cxp) / rx, (y1p - cyp) / ry);
+  let delta = vectorAngle((x1p - cxp) / rx, (y1p - cyp) / ry, (-x1p - cxp) / rx, (-y1p - cyp) / ry);
+  if (!sweep && delta > 0) delta -= 2 * Math.PI;
+  else if (sweep && delta < 0) delta += 2 * Math.PI;
+
+  const count = Math.max(1, Math.ceil(Math.abs(delta) / (Math.PI / 2) - 1e-9));
+  const step = delta / count;
+  const k = (4 / 3) * Math.tan(step / 4);
+  const point = (t: number) => [
+    cx + rx * Math.cos(t) * cos - ry * Math.sin(t) * sin,
+    cy + rx * Math.cos(t) * sin + ry * Math.sin(t) * cos
+  ];
+  const tangent = (t: number) => [
+    -rx * Math.sin(t) * cos - ry * Math.cos(t) * sin,
+    -rx * Math.sin(t) * sin + ry * Math.cos(t) * cos
+  ];
+  const segments: PathSegment[] = [];
+  for (let i = 0; i < count; i++) {
+    const t1 = theta + i * step;
+    const t2 = t1 + step;
+    const [px1, py1] = point(t1);
+    const [px2, py2] = i === count - 1 ? [x2, y2] : point(t2);
+    const [dx1, dy1] = tangent(t1);
+    const [dx2, dy2] = tangent(t2);
+    segments.push(['C', px1 + k * dx1, py1 + k * dy1, px2 - k * dx2, py2 - k * dy2, px2, py2]);
+  }
+  return segments;
+};
+
+// SVG path data as absolute moves, lines, cubics and closes
+const parsePath = (d: string): PathSegment[] => {
+  const tokens = d.match(PATH_TOKEN) || [];
+  const segments: PathSegment[] = [];
+  let i = 0;
+  let command = '';
+  let x = 0;
+  let y = 0;
+  let startX = 0;
+  let startY = 0;
+  let cubicControl: [number, number] | null = null;
+  let quadControl: [number, number] | null = null;
+  const next = () => Number(tokens[i++]);
+
+  while (i < tokens.length) {
+    if (/[a-zA-Z]/.test(tokens[i])) command = tokens[i++];
+    else if (!command) break;
+    const relative = command === command.toLowerCase();
+    const ox = relative ? x : 0;
+    const oy = relative ? y : 0;
+    const type = command.toUpperCase();
+    let nextCubic: [number, number] | null = null;
+    let nextQuad: [number, number] | null = null;
+
+    switch (type) {
+      case 'M':
+        x = ox + next();
+        y = oy + next();
+        startX = x;
+        startY = y;
+        segments.push(['M', x, y]);
+        command = relative ? 'l' : 'L'; // further pairs are lines
+        break;
+      case 'L':
+        x = ox + next();
+        y = oy + next();
+        segments.push(['L', x, y]);
+        break;
+      case 'H':
+        x = ox + next();
+        segments.push(['L', x, y]);
+        break;
+      case 'V':
+        y = oy + next();
+        segments.push(['L', x, y]);
+        break;
+      case 'C':
+      case 'S': {
+        const [x1, y1] = type === 'C'
+          ? [ox + next(), oy + next()]
+          : cubicControl ? [2 * x - cubicControl[0], 2 * y - cubicControl[1]] : [x, y];
+        const x2 = ox + next();
+        const y2 = oy + next();
+        x = ox + next();
+        y = oy + next();
+        segments.push(['C', x1, y1, x2, y2, x, y]);
+        nextCubic = [x2, y2];
+        break;
+      }
+      case 'Q':
+      case 'T': {
+        const control: [number, number] | null = quadControl;
+        const qx: number = type === 'Q' ? ox + next() : control ? 2 * x - control[0] : x;
+        const qy: number = type === 'Q' ? oy + next() : control ? 2 * y - control[1] : y;
+        const ex = ox + next();
+        const ey = oy + next();
+        segments.push(['C', x + (2 / 3) * (qx - x), y + (2 / 3) * (qy - y), ex + (2 / 3) * (qx - ex), ey + (2 / 3) * (qy - ey), ex, ey]);
+        x = ex;
+        y = ey;
+        nextQuad = [qx, qy];
+        break;
+      }
+      case 'A': {
+        const rx = next();
+        const ry = next();
+        const angle = next();
+        const largeArc = next() !== 0;
+        const sweep = next() !== 0;
+        const ex = ox + next();
+        const ey = oy + next();
+        segments.push(...arcToCubics(x, y, rx, ry, angle, largeArc, sweep, ex, ey));
+        x = ex;
+        y = ey;
+        break;
+      }
+      case 'Z':
+        segments.push(['Z']);
+        x = startX;
+        y = startY;
+        command = ''; // numbers may not follow a close
+        break;
+      default:
+        return segments;
+    }
+    if (i > tokens.length || Number.isNaN(x) || Number.isNaN(y)) {
+      segments.pop(); // ran out of numbers mid-command
+      break;
+    }
+    cubicControl = nextCubic;
+    quadControl = nextQuad;
+  }
+  return segments;
+};
+
+const encodeText = (text: string) =>
+  Array.from(text, ch => {
+    const code = ch.codePointAt(0)!;
+    const byte = WIN_ANSI[ch] ?? (code < 0x80 || (code >= 0xa0 && code <= 0xff) ? code : 0x3f);
+    return byte.toString(16).padStart(2, '0');
+  }).join('');
+
+const colorOperands = (paint: FigurePaint) =>
+  [1, 3, 5].map(i => fmt(parseInt(paint.color.slice(i, i + 2), 16) / 255)).join(' ');
+
+const deflate = async (bytes: Uint8Array): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(new CompressionStream('deflate'))).arrayBuffer());
+
+const LINE_CAPS = { butt: 0, round: 1, square: 2 };
+const LINE_JOINS = { miter: 0, round: 1, bevel: 2 };
+
+export const writeFigurePdf = async (layout: FigureLayout): Promise<Blob> => {
+  const { options, scene } = layout;
+  const graphicsStates = new Map<string, string>(); // "fill stroke" opacities -> resource name
+  const images: { name: string; canvas: HTMLCanvasElement }[] = [];
+
+  const setOpacity = (fill: number, stroke: number) => {
+    if (fill >= 1 && stroke >= 1) return '';
+    const key = `${fmt(fill)} ${fmt(stroke)}`;
+    if (!graphicsStates.has(key)) graphicsStates.set(key, `GS${graphicsStates.size}`);
+    return `/${graphicsStates.get(key)} gs\n`;
+  };
+
+  const cm = (m: FigureMatrix) => `${m.map(fmt).join(' ')} cm\n`;
+
+  const text = (value: string, x: number, y: number, size: number, bold: boolean, paint: FigurePaint) =>
+    `${colorOperands(paint)} rg\nBT /${bold ? 'F2' : 'F1'} ${fmt(size)} Tf 1 0 0 -1 ${fmt(x)} ${fmt(y)} Tm <${encodeText(value)}> Tj ET\n`;
+
+  const renderItem = (item: FigureItem): string => {
+    switch (item.kind) {
+      case 'path': {
+        const segments = parsePath(item.d);
+        if (segments.length === 0 || segments[0][0] !== 'M') return '';
+        let ops = `q\n${cm(item.matrix)}${setOpacity(item.fill?.opacity ?? 1, item.stroke?.opacity ?? 1)}`;
+        if (item.fill) ops += `${colorOperands(item.fill)} rg\n`;
+        if (item.stroke) {
+          ops += `${colorOperands(item.stroke)} RG\n${fmt(item.strokeWidth)} w ${LINE_CAPS[item.lineCap]} J ${LINE_JOINS[item.lineJoin]} j`
+            + ` [${item.dash.map(fmt).join(' ')}] 0 d\n`;
+        }
+        ops += segments.map(s => {
+          switch (s[0]) {
+            case 'M': return `${fmt(s[1])} ${fmt(s[2])} m`;
+            case 'L': return `${fmt(s[1])} ${fmt(s[2])} l`;
+            case 'C': return `${s.slice(1).map(v => fmt(v as number)).join(' ')} c`;
+            default: return 'h';
+          }
+        }).join('\n');
+        const evenOdd = item.fillRule === 'evenodd' ? '*' : '';
+        return `${ops}\n${item.fill && item.stroke ? `B${evenOdd}` : item.fill ? `f${evenOdd}` : 'S'}\nQ\n`;
+      }
+      case 'text': {
+        const width = measureText(item.text, item.fontSize, options.fontFamily, item.bold);
+        const x = item.anchor === 'middle' ? item.x - width / 2 : item.anchor === 'end' ? item.x - width : item.x;
+        return `q\n${cm(item.matrix)}${setOpacity(item.fill.opacity, 1)}${text(item.text, x, item.y, item.fontSize, item.bold, item.fill)}Q\n`;
+      }
+      case 'image': {
+        const name = `Im${images.length}`;
+        images.push({ name, canvas: item.canvas });
+        return `q\n${fmt(item.width)} 0 0 ${fmt(-item.height)} ${fmt(item.x)} ${fmt(item.y + item.height)} cm\n/${name} Do\nQ\n`;
+      }
+    }
+  };
+
+  const renderBlock = (block: FigureTextBlock) =>
+    block.lines.map((line, i) => text(line, block.x, block.y + i * block.lineHeight, block.size, false, { color: block.color, opacity: 1 })).join('');
+
+  const content = [
+    `1 0 0 -1 0 ${fmt(layout.height)} cm\n`,
+    renderBlock(layout.caption),
+    `q\n${cm([layout.scale, 0, 0, layout.scale, layout.x, layout.y])}0 0 ${fmt(scene.width)} ${fmt(scene.height)} re W n\n`,
+    ...scene.items.map(renderItem),
+    'Q\n',
+    renderBlock(layout.footer)
+  ].join('');
+
+  // Objects: catalog, pages, page, two fonts, graphics states, images (each
+  // followed by its alpha mask), content
+  const encoder = new TextEncoder();
+  const objects: (string | Uint8Array)[][] = [];
+  const stream = (dictionary: string, bytes: Uint8Array) => [`<< ${dictionary} /Length ${bytes.length} >>\nstream\n`, bytes, '\nendstream'];
+  const firstState = 6;
+  const firstImage = firstState + graphicsStates.size;
+  const contentObject = firstImage + images.length * 2;
+  const resources = [
+    '/Font << /F1 4 0 R /F2 5 0 R >>',
+    graphicsStates.size > 0
+      ? `/ExtGState << ${Array.from(graphicsStates.values(), (name, i) => `/${name} ${firstState + i} 0 R`).join(' ')} >>`
+      : '',
+    images.length > 0 ? `/XObject << ${images.map((image, i) => `/${image.name} ${firstImage + i * 2} 0 R`).join(' ')} >>` : ''
+  ].join(' ');
+
+  objects.push(['<< /Type /Catalog /Pages 2 0 R >>']);
+  objects.push(['<< /Type /Pages /Kids [3 0 R] /Count 1 >>']);
+  objects.push([`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${fmt(layout.width)} ${fmt(layout.height)}] /Resources << ${resources} >> /Contents ${contentObject} 0 R >>`]);
+  BASE_FONTS[options.fontFamily].forEach(font => {
+    objects.push([`<< /Type /Font /Subtype /Type1 /BaseFont /${font} /Encoding /WinAnsiEncoding >>`]);
+  });
+  graphicsStates.forEach((_, key) => {
+    const [fill, stroke] = key.split(' ');
+    objects.push([`<< /Type /ExtGState /ca ${fill} /CA ${stroke} >>`]);
+  });
+  for (const { canvas } of images) {
+    const pixels = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height).data;
+    const rgb = new Uint8Array(canvas.width * canvas.height * 3);
+    const alpha = new Uint8Array(canvas.width * canvas.height);
+    for (let i = 0; i < alpha.length; i++) {
+      rgb[i * 3] = pixels[i * 4];
+      rgb[i * 3 + 1] = pixels[i * 4 + 1];
+      rgb[i * 3 + 2] = pixels[i * 4 + 2];
+      alpha[i] = pixels[i * 4 + 3];
+    }
+    const size = `/Width ${canvas.width} /Height ${canvas.height} /BitsPerComponent 8 /Filter /FlateDecode`;
+    objects.push(stream(
+      `/Type /XObject /Subtype /Image ${size} /ColorSpace /DeviceRGB /SMask ${objects.length + 2} 0 R`,
+      await deflate(rgb)
+    ));
+    objects.push(stream(`/Type /XObject /Subtype /Image ${size} /ColorSpace /DeviceGray`, await deflate(alpha)));
+  }
+  objects.push(stream('/Filter /FlateDecode', await deflate(encoder.encode(content))));
+
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  write('%PDF-1.4\n');
+  write(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a])); // binary marker
+  const offsets = objects.map((parts, i) => {
+    const offset = length;
+    write(`${i + 1} 0 obj\n`);
+    parts.forEach(write);
+    write('\nendobj\n');
+    return offset;
+  });
+  const xref = length;
+  write(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach(offset => write(`${String(offset).padStart(10, '0')} 00000 n \n`));
+  write(`trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+  return new Blob(chunks, { type: 'application/pdf' });
+};
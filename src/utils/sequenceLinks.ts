@@ -0,0 +1,15 @@
+// Links from a sequence to its photos on the project's photo hosting. The
+// template takes {sequenceId} and {deploymentId} placeholders, e.g.
+// https://photos.example.org/{deploymentId}/{sequenceId}, and defaults to
+// VITE_SEQUENCE_URL_TEMPLATE at build time.
+export const DEFAULT_SEQUENCE_URL_TEMPLATE = import.meta.env.VITE_SEQUENCE_URL_TEMPLATE || '';
+
+export const getSequenceUrl = (
+  template: string,
+  sequence: { sequenceId: string; deploymentId: string }
+): string | null => {
+  if (!template.trim() || !sequence.sequenceId) return null;
+  return template.replace(/\{(sequenceId|deploymentId)\}/g, (_, key: 'sequenceId' | 'deploymentId') =>
+    encodeURIComponent(sequence[key])
+  );
+};
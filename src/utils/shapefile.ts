@@ -0,0 +1,160 @@
+// Zipped ESRI shapefiles, read in the browser: the zip's central directory,
+// polygon records from the .shp and attributes from the .dbf. Only polygon
+// shape types are read, and coordinates must already be longitude/latitude.
+
+export interface ShapefileRecord {
+  properties: Record<string, unknown>;
+  rings: [number, number][][]; // [lat, lng]
+}
+
+export interface Shapefile {
+  name: string;
+  records: ShapefileRecord[];
+}
+
+const POLYGON_TYPES = [5, 15, 25]; // Polygon, PolygonZ, PolygonM
+
+const readZipEntries = async (buffer: ArrayBuffer): Promise<Map<string, Uint8Array>> => {
+  const view = new DataView(buffer);
+  // End of central directory record, searched backwards past any comment
+  let end = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) throw new Error('Not a zip file');
+
+  const entries = new Map<string, Uint8Array>();
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new Error('Corrupt zip directory');
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = new TextDecoder().decode(new Uint8Array(buffer, offset + 46, nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/') || name.startsWith('__MACOSX/')) continue;
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = new Uint8Array(buffer, dataStart, compressedSize);
+    if (method === 0) {
+      entries.set(name, data);
+    } else if (method === 8) {
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      entries.set(name, new Uint8Array(await new Response(stream).arrayBuffer()));
+    } else {
+      throw new Error(`${name} uses an unsupported zip compression method`);
+    }
+  }
+  return entries;
+};
+
+// Each part of a polygon record is a ring; holes are told apart by winding,
+// which the even-odd join does not need
+const readShpRecords = (data: Uint8Array): ([number, number][][] | null)[] => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const shapeType = view.getInt32(32, true);
+  if (!POLYGON_TYPES.includes(shapeType)) {
+    throw new Error('Only polygon shapefiles can be used as boundaries');
+  }
+  const records: ([number, number][][] | null)[] = [];
+  let offset = 100;
+  while (offset + 8 <= data.byteLength) {
+    const contentLength = view.getInt32(offset + 4, false) * 2; // 16-bit words, big-endian
+    const start = offset + 8;
+    offset = start + contentLength;
+    // Null shapes keep their place so records stay aligned with the .dbf
+    if (view.getInt32(start, true) === 0) {
+      records.push(null);
+      continue;
+    }
+    const numParts = view.getInt32(start + 36, true);
+    const numPoints = view.getInt32(start + 40, true);
+    const pointsStart = start + 44 + numParts * 4;
+    const rings: [number, number][][] = [];
+    for (let part = 0; part < numParts; part++) {
+      const first = view.getInt32(start + 44 + part * 4, true);
+      const last = part + 1 < numParts ? view.getInt32(start + 44 + (part + 1) * 4, true) : numPoints;
+      const ring: [number, number][] = [];
+      for (let point = first; point < last; point++) {
+        const x = view.getFloat64(pointsStart + point * 16, true);
+        const y = view.getFloat64(pointsStart + point * 16 + 8, true);
+        ring.push([y, x]);
+      }
+      if (ring.length >= 3) rings.push(ring);
+    }
+    records.push(rings);
+  }
+  return records;
+};
+
+const readDbfRecords = (data: Uint8Array, encoding: string): Record<string, unknown>[] => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let decoder: TextDecoder;
+  try {
+    decoder = new TextDecoder(encoding);
+  } catch {
+    decoder = new TextDecoder('utf-8');
+  }
+  const recordCount = view.getUint32(4, true);
+  const headerLength = view.getUint16(8, true);
+  const recordLength = view.getUint16(10, true);
+
+  const fields: { name: string; type: string; length: number }[] = [];
+  for (let offset = 32; offset + 32 <= headerLength && data[offset] !== 0x0d; offset += 32) {
+    fields.push({
+      name: decoder.decode(data.subarray(offset, offset + 11)).replace(/\0.*$/, '').trim(),
+      type: String.fromCharCode(data[offset + 11]),
+      length: data[offset + 16]
+    });
+  }
+
+  const records: Record<string, unknown>[] = [];
+  for (let i = 0; i < recordCount; i++) {
+    let offset = headerLength + i * recordLength + 1; // skip the deletion flag
+    const record: Record<string, unknown> = {};
+    fields.forEach(field => {
+      const raw = decoder.decode(data.subarray(offset, offset + field.length)).replace(/\0/g, '').trim();
+      offset += field.length;
+      if ((field.type === 'N' || field.type === 'F') && raw !== '') record[field.name] = Number(raw);
+      else if (field.type === 'L') record[field.name] = /^[YyTt]$/.test(raw) ? 'true' : /^[NnFf]$/.test(raw) ? 'false' : '';
+      else record[field.name] = raw;
+    });
+    records.push(record);
+  }
+  return records;
+};
+
+// One shapefile per .shp in the zip, with its .dbf, .prj and .cpg siblings
+export const readShapefileZip = async (buffer: ArrayBuffer): Promise<Shapefile[]> => {
+  const entries = await readZipEntries(buffer);
+  const findSibling = (base: string, extension: string) => {
+    const key = Array.from(entries.keys()).find(name => name.toLowerCase() === `${base}.${extension}`.toLowerCase());
+    return key ? entries.get(key) : undefined;
+  };
+
+  return Array.from(entries.keys())
+    .filter(name => /\.shp$/i.test(name))
+    .map(shpName => {
+      const base = shpName.replace(/\.shp$/i, '');
+      const name = base.split('/').pop() || base;
+      const prj = findSibling(base, 'prj');
+      if (prj && /^\s*PROJCS/i.test(new TextDecoder().decode(prj))) {
+        throw new Error(`${name} uses projected coordinates; reproject it to WGS84 longitude/latitude (EPSG:4326) first`);
+      }
+      const cpg = findSibling(base, 'cpg');
+      const dbf = findSibling(base, 'dbf');
+      const attributes = dbf ? readDbfRecords(dbf, cpg ? new TextDecoder().decode(cpg).trim() : 'utf-8') : [];
+      const records: ShapefileRecord[] = [];
+      readShpRecords(entries.get(shpName)!).forEach((rings, i) => {
+        if (rings && rings.length > 0) records.push({ properties: attributes[i] || {}, rings });
+      });
+      return { name, records };
+    });
+};
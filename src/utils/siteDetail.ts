@@ -0,0 +1,58 @@
+import { DeploymentEffort, ProcessedDetection, SiteDetail, SiteSequence, TimeBasis } from '../types';
+import { getCameraNights, getHourlyActivity, getRAI } from './dataLoader';
+
+export const isAtLocation = (item: { latitude: number; longitude: number }, lat: number, lng: number) =>
+  item.latitude === lat && item.longitude === lng;
+
+// Summary of one camera location. `rows` are the filtered analysis rows at
+// the location (raw detections, or the first row of each independent event);
+// effort counts every deployment there, clipped to the date window.
+export const getSiteDetail = (
+  rows: ProcessedDetection[],
+  deployments: DeploymentEffort[],
+  lat: number,
+  lng: number,
+  timeBasis: TimeBasis,
+  windowStart?: Date,
+  windowEnd?: Date
+): SiteDetail => {
+  const siteDeployments = deployments
+    .filter(d => isAtLocation(d, lat, lng))
+    .map(d => ({ ...d, cameraNights: getCameraNights(d, windowStart, windowEnd) }))
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+  const cameraNights = siteDeployments.reduce((sum, d) => sum + d.cameraNights, 0);
+
+  const speciesCounts = new Map<string, number>();
+  const sequences = new Map<string, SiteSequence>();
+  rows.forEach(d => {
+    speciesCounts.set(d.commonName, (speciesCounts.get(d.commonName) || 0) + 1);
+    // Rows without a sequence id stand alone
+    const key = d.sequenceId || `${d.source}:${d.rowNumber}`;
+    if (!sequences.has(key)) {
+      sequences.set(key, { sequenceId: d.sequenceId, deploymentId: d.deploymentId, startTime: d.startTime, species: [] });
+    }
+    const sequence = sequences.get(key)!;
+    if (d.startTime < sequence.startTime) sequence.startTime = d.startTime;
+    if (!sequence.species.includes(d.commonName)) sequence.species.push(d.commonName);
+  });
+
+  const times = rows.map(d => d.startTime.getTime());
+  const unique = (values: string[]) => Array.from(new Set(values.filter(v => v))).sort();
+
+  return {
+    latitude: lat,
+    longitude: lng,
+    arrayNames: unique([...siteDeployments.map(d => d.arrayName), ...rows.map(d => d.arrayName)]),
+    regions: unique([...siteDeployments.map(d => d.region), ...rows.map(d => d.region)]),
+    deployments: siteDeployments,
+    cameraNights,
+    totalCount: rows.length,
+    firstDetection: times.length > 0 ? new Date(Math.min(...times)) : null,
+    lastDetection: times.length > 0 ? new Date(Math.max(...times)) : null,
+    species: Array.from(speciesCounts.entries())
+      .map(([species, count]) => ({ species, count, rai: Number(getRAI(count, cameraNights).toFixed(2)) }))
+      .sort((a, b) => b.count - a.count),
+    hourly: getHourlyActivity(rows, timeBasis),
+    sequences: Array.from(sequences.values()).sort((a, b) => a.startTime.getTime() - b.startTime.getTime())
+  };
+};
@@ -0,0 +1,125 @@
+import { DielPeriod, ProcessedDetection, TimeBasis } from '../types';
+
+// Offline solar calculations for detection timestamps. Camera times are local
+// Michigan clock times, so they are converted to UTC before any solar math.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Nth weekday (0 = Sunday) of a month, as a day-of-month number
+const nthSunday = (year: number, month: number, n: number): number => {
+  const first = new Date(year, month, 1).getDay();
+  return 1 + ((7 - first) % 7) + (n - 1) * 7;
+};
+
+// US daylight saving time (second Sunday of March to first Sunday of
+// November, since 2007), evaluated on the local clock time
+const isDaylightSavingTime = (clock: Date): boolean => {
+  const year = clock.getFullYear();
+  const start = new Date(year, 2, nthSunday(year, 2, 2), 2);
+  const end = new Date(year, 10, nthSunday(year, 10, 1), 2);
+  return clock >= start && clock < end;
+};
+
+// Michigan is on Eastern time except the four Upper Peninsula counties that
+// border Wisconsin, approximated here as anything west of 87.6°W
+export const getUtcOffsetHours = (clock: Date, longitude: number): number => {
+  const standardOffset = longitude < -87.6 ? -6 : -5;
+  return standardOffset + (isDaylightSavingTime(clock) ? 1 : 0);
+};
+
+// Milliseconds since the epoch (UTC) for a Michigan clock time
+export const getUtcTime = (clock: Date, longitude: number): number => {
+  const clockAsUtc = Date.UTC(
+    clock.getFullYear(),
+    clock.getMonth(),
+    clock.getDate(),
+    clock.getHours(),
+    clock.getMinutes(),
+    clock.getSeconds()
+  );
+  return clockAsUtc - getUtcOffsetHours(clock, longitude) * 60 * 60 * 1000;
+};
+
+// Fractional year in radians and the equation of time in minutes (NOAA
+// general solar position approximation)
+const getEquationOfTime = (utcTime: number): { gamma: number; minutes: number } => {
+  const date = new Date(utcTime);
+  const startOfYear = Date.UTC(date.getUTCFullYear(), 0, 1);
+  const dayOfYear = Math.floor((utcTime - startOfYear) / DAY_MS) + 1;
+  const hour = date.getUTCHours() + date.getUTCMinutes() / 60;
+  const gamma = (2 * Math.PI / 365) * (dayOfYear - 1 + (hour - 12) / 24);
+  const minutes = 229.18 * (
+    0.000075 +
+    0.001868 * Math.cos(gamma) -
+    0.032077 * Math.sin(gamma) -
+    0.014615 * Math.cos(2 * gamma) -
+    0.040849 * Math.sin(2 * gamma)
+  );
+  return { gamma, minutes };
+};
+
+// Apparent solar time of day in hours [0, 24): 12 is solar noon at the camera
+export const getSolarTimeHours = (clock: Date, longitude: number): number => {
+  const utcTime = getUtcTime(clock, longitude);
+  const date = new Date(utcTime);
+  const utcMinutes = date.getUTCHours() * 60 + date.getUTCMinutes() + date.getUTCSeconds() / 60;
+  const solarMinutes = utcMinutes + 4 * longitude + getEquationOfTime(utcTime).minutes;
+  return (((solarMinutes / 60) % 24) + 24) % 24;
+};
+
+// Sunrise and sunset in apparent solar time (hours) on the day of a
+// detection, for the standard -0.833° altitude that allows for refraction
+export const getSunriseSunset = (clock: Date, latitude: number, longitude: number): { sunrise: number; sunset: number } => {
+  const { gamma } = getEquationOfTime(getUtcTime(clock, longitude));
+  const declination =
+    0.006918 -
+    0.399912 * Math.cos(gamma) +
+    0.070257 * Math.sin(gamma) -
+    0.006758 * Math.cos(2 * gamma) +
+    0.000907 * Math.sin(2 * gamma) -
+    0.002697 * Math.cos(3 * gamma) +
+    0.00148 * Math.sin(3 * gamma);
+  const lat = (latitude * Math.PI) / 180;
+  const cosHourAngle =
+    Math.cos((90.833 * Math.PI) / 180) / (Math.cos(lat) * Math.cos(declination)) -
+    Math.tan(lat) * Math.tan(declination);
+  const hourAngle = (Math.acos(Math.max(-1, Math.min(1, cosHourAngle))) * 180) / Math.PI;
+  return { sunrise: 12 - hourAngle / 15, sunset: 12 + hourAngle / 15 };
+};
+
+const CREPUSCULAR_HOURS = 1;
+
+// Sun time maps the day onto [6, 18) and the night onto [18, 30) mod 24, so
+// sunrise is always 6:00 and sunset 18:00 whatever the season or latitude
+export const getSunTime = (
+  clock: Date,
+  latitude: number,
+  longitude: number
+): { sunTime: number; dielPeriod: DielPeriod } => {
+  const solarHours = getSolarTimeHours(clock, longitude);
+  const { sunrise, sunset } = getSunriseSunset(clock, latitude, longitude);
+  const dayLength = sunset - sunrise;
+  const isDay = solarHours >= sunrise && solarHours < sunset;
+  const sunTime = isDay
+    ? 6 + (12 * (solarHours - sunrise)) / dayLength
+    : (18 + (12 * ((solarHours - sunset + 24) % 24)) / (24 - dayLength)) % 24;
+
+  const hoursFrom = (event: number) => {
+    const diff = Math.abs(solarHours - event) % 24;
+    return Math.min(diff, 24 - diff);
+  };
+  const dielPeriod: DielPeriod =
+    hoursFrom(sunrise) <= CREPUSCULAR_HOURS || hoursFrom(sunset) <= CREPUSCULAR_HOURS
+      ? 'crepuscular'
+      : isDay ? 'diurnal' : 'nocturnal';
+
+  return { sunTime, dielPeriod };
+};
+
+// Fractional hour of day [0, 24) on the camera clock, in solar time or in
+// sun time
+export const getTimeOfDayHours = (d: ProcessedDetection, basis: TimeBasis): number => {
+  if (basis === 'solar') return getSolarTimeHours(d.startTime, d.longitude);
+  if (basis === 'sun') return d.sunTime;
+  return d.startTime.getHours() + d.startTime.getMinutes() / 60 + d.startTime.getSeconds() / 3600;
+};
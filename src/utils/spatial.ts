@@ -0,0 +1,134 @@
+import { SpatialShape } from '../types';
+
+// Geometry for areas drawn on the map, and their GeoJSON round trip. GeoJSON
+// has no circle, so circles are written as a Point with a `radius` property
+// in metres, the convention Leaflet drawing tools use.
+
+const EARTH_RADIUS = 6371008.8; // metres
+
+export const getDistanceMeters = (a: [number, number], b: [number, number]): number => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b[0] - a[0]);
+  const dLng = toRadians(b[1] - a[1]);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a[0])) * Math.cos(toRadians(b[0])) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+// Ray casting, with longitude as x and latitude as y
+export const isInPolygon = (lat: number, lng: number, vertices: [number, number][]): boolean => {
+  let inside = false;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const [latI, lngI] = vertices[i];
+    const [latJ, lngJ] = vertices[j];
+    if ((latI > lat) !== (latJ > lat) && lng < ((lngJ - lngI) * (lat - latI)) / (latJ - latI) + lngI) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+export const isInShape = (lat: number, lng: number, shape: SpatialShape): boolean => {
+  if (shape.type === 'circle') return getDistanceMeters(shape.center, [lat, lng]) <= shape.radius;
+  return isInPolygon(lat, lng, shape.vertices);
+};
+
+// Detections share a handful of camera locations, so each location is tested
+// once per area
+const areaCache = new WeakMap<SpatialShape[], Map<string, boolean>>();
+
+export const isInArea = (lat: number, lng: number, area: SpatialShape[]): boolean => {
+  if (area.length === 0) return true;
+  let cache = areaCache.get(area);
+  if (!cache) {
+    cache = new Map();
+    areaCache.set(area, cache);
+  }
+  const key = `${lat},${lng}`;
+  let inside = cache.get(key);
+  if (inside === undefined) {
+    inside = area.some(shape => isInShape(lat, lng, shape));
+    cache.set(key, inside);
+  }
+  return inside;
+};
+
+export const shapesToGeoJSON = (shapes: SpatialShape[]) => ({
+  type: 'FeatureCollection',
+  features: shapes.map(shape => shape.type === 'circle'
+    ? {
+        type: 'Feature',
+        properties: { shape: 'circle', radius: shape.radius },
+        geometry: { type: 'Point', coordinates: [shape.center[1], shape.center[0]] }
+      }
+    : {
+        type: 'Feature',
+        properties: { shape: shape.type },
+        geometry: {
+          type: 'Polygon',
+          coordinates: [[...shape.vertices, shape.vertices[0]].map(([lat, lng]) => [lng, lat])]
+        }
+      })
+});
+
+interface GeoJSONObject {
+  type?: string;
+  features?: GeoJSONObject[];
+  geometry?: GeoJSONObject | null;
+  geometries?: GeoJSONObject[];
+  properties?: Record<string, unknown> | null;
+  coordinates?: unknown;
+}
+
+// Outer ring of a GeoJSON polygon as [lat, lng] vertices, without the closing point
+const toVertices = (ring: unknown): [number, number][] | null => {
+  if (!Array.isArray(ring)) return null;
+  const vertices = ring
+    .filter((position): position is number[] => Array.isArray(position) && position.length >= 2)
+    .map(([lng, lat]) => [Number(lat), Number(lng)] as [number, number])
+    .filter(([lat, lng]) => isFinite(lat) && isFinite(lng));
+  const [first, last] = [vertices[0], vertices[vertices.length - 1]];
+  if (first && last && vertices.length > 1 && first[0] === last[0] && first[1] === last[1]) vertices.pop();
+  return vertices.length >= 3 ? vertices : null;
+};
+
+// Polygons, multipolygons (each outer ring) and points with a radius, from a
+// FeatureCollection, Feature, GeometryCollection or bare geometry. Holes and
+// other geometry types are ignored.
+export const shapesFromGeoJSON = (json: unknown): SpatialShape[] => {
+  const shapes: SpatialShape[] = [];
+  const visit = (node: GeoJSONObject | null | undefined, properties: Record<string, unknown>) => {
+    if (!node || typeof node !== 'object') return;
+    switch (node.type) {
+      case 'FeatureCollection':
+        (node.features || []).forEach(feature => visit(feature, {}));
+        break;
+      case 'Feature':
+        visit(node.geometry, node.properties || {});
+        break;
+      case 'GeometryCollection':
+        (node.geometries || []).forEach(geometry => visit(geometry, properties));
+        break;
+      case 'Polygon':
+      case 'MultiPolygon': {
+        const polygons = node.type === 'Polygon' ? [node.coordinates] : (node.coordinates as unknown[]) || [];
+        polygons.forEach(polygon => {
+          const vertices = Array.isArray(polygon) ? toVertices(polygon[0]) : null;
+          if (vertices) shapes.push({ type: properties.shape === 'rectangle' ? 'rectangle' : 'polygon', vertices });
+        });
+        break;
+      }
+      case 'Point': {
+        const [lng, lat] = (node.coordinates as number[]) || [];
+        const radius = Number(properties.radius);
+        if (isFinite(lat) && isFinite(lng) && radius > 0) shapes.push({ type: 'circle', center: [lat, lng], radius });
+        break;
+      }
+    }
+  };
+
+  visit(json as GeoJSONObject, {});
+  if (shapes.length === 0) {
+    throw new Error('No polygons or circles (points with a radius) found in the GeoJSON');
+  }
+  return shapes;
+};
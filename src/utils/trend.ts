@@ -0,0 +1,173 @@
+import { DeploymentEffort, ProcessedDetection, TrendPeriod, TrendPoint, TrendSeries, TrendSlope } from '../types';
+import { getCameraNights, getRAI } from './dataLoader';
+import { DateStep, getDateDomain, getDateSteps } from './dateRange';
+
+// Year and season trends fitted with a log-linear Poisson GLM (log camera-
+// nights as an offset for RAI). Standard errors are inflated by the Pearson
+// dispersion, so overdispersed counts get honest, wider intervals.
+
+const YEAR_MS = 365.25 * 24 * 60 * 60 * 1000;
+const Z_95 = 1.959964;
+
+// Calendar years or meteorological seasons spanning the whole dataset, so
+// years with no detections still count as zeros
+export const getTrendPeriods = (data: ProcessedDetection[], period: TrendPeriod): DateStep[] => {
+  const domain = getDateDomain(data);
+  if (period === 'season') return getDateSteps(domain, 'season');
+  const years = getDateSteps(domain, 'month').map(step => step.start.getFullYear());
+  if (years.length === 0) return [];
+  const steps: DateStep[] = [];
+  for (let year = years[0]; year <= years[years.length - 1]; year++) {
+    steps.push({ start: new Date(year, 0, 1), end: new Date(year + 1, 0, 1), label: String(year) });
+  }
+  return steps;
+};
+
+const getPeriodCameraNights = (deployments: DeploymentEffort[], step: DateStep): number => {
+  return deployments
+    .filter(d => d.start < step.end && d.end > step.start)
+    .reduce((sum, d) => sum + getCameraNights(d, step.start, step.end), 0);
+};
+
+// Inverse of a small symmetric matrix by Gauss-Jordan elimination
+const invert = (matrix: number[][]): number[][] | null => {
+  const n = matrix.length;
+  const a = matrix.map((row, i) => [...row, ...row.map((_, j) => (i === j ? 1 : 0))]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-12) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    const scale = a[col][col];
+    for (let j = 0; j < 2 * n; j++) a[col][j] /= scale;
+    for (let row = 0; row < n; row++) {
+      if (row === col) continue;
+      const factor = a[row][col];
+      for (let j = 0; j < 2 * n; j++) a[row][j] -= factor * a[col][j];
+    }
+  }
+  return a.map(row => row.slice(n));
+};
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26)
+const normalCdf = (z: number): number => {
+  const t = 1 / (1 + 0.3275911 * Math.abs(z) / Math.SQRT2);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))))
+    * Math.exp(-(z * z) / 2);
+  return z >= 0 ? 0.5 * (1 + erf) : 0.5 * (1 - erf);
+};
+
+interface PoissonFit {
+  coefficients: number[];
+  covariance: number[][];
+  dispersion: number;
+}
+
+// Iteratively reweighted least squares for log(mu) = X·beta + offset
+const fitPoissonGLM = (x: number[][], y: number[], offset: number[]): PoissonFit | null => {
+  const n = y.length;
+  const p = x[0].length;
+  let mu = y.map(v => v + 0.5);
+  let eta = mu.map(Math.log);
+  let beta = new Array(p).fill(0);
+  let xtwxInverse: number[][] | null = null;
+
+  for (let iteration = 0; iteration < 50; iteration++) {
+    const xtwx = Array.from({ length: p }, () => new Array(p).fill(0));
+    const xtwz = new Array(p).fill(0);
+    for (let i = 0; i < n; i++) {
+      const z = eta[i] - offset[i] + (y[i] - mu[i]) / mu[i];
+      for (let j = 0; j < p; j++) {
+        xtwz[j] += x[i][j] * mu[i] * z;
+        for (let k = 0; k < p; k++) xtwx[j][k] += x[i][j] * mu[i] * x[i][k];
+      }
+    }
+    xtwxInverse = invert(xtwx);
+    if (!xtwxInverse) return null;
+    const next = xtwxInverse.map(row => row.reduce((sum, value, k) => sum + value * xtwz[k], 0));
+    const change = Math.max(...next.map((value, j) => Math.abs(value - beta[j])));
+    beta = next;
+    eta = x.map((row, i) => row.reduce((sum, value, j) => sum + value * beta[j], offset[i]));
+    mu = eta.map(value => Math.max(Math.exp(value), 1e-10));
+    if (change < 1e-8) break;
+  }
+  if (!xtwxInverse || beta.some(value => !isFinite(value))) return null;
+
+  const pearson = y.reduce((sum, value, i) => sum + ((value - mu[i]) ** 2) / mu[i], 0);
+  const dispersion = n > p ? Math.max(1, pearson / (n - p)) : 1;
+  return {
+    coefficients: beta,
+    covariance: xtwxInverse.map(row => row.map(value => value * dispersion)),
+    dispersion
+  };
+};
+
+// Observed values per period plus the fitted trend. Seasonal series get a
+// season term so the slope isn't driven by the summer peak.
+export const getTrendSeries = (
+  rows: ProcessedDetection[],
+  periods: DateStep[],
+  deployments: DeploymentEffort[],
+  metric: 'count' | 'rai',
+  seasonal: boolean
+): Pick<TrendSeries, 'points' | 'slope'> => {
+  const counts = new Array(periods.length).fill(0);
+  rows.forEach(d => {
+    const index = periods.findIndex(step => d.startTime >= step.start && d.startTime < step.end);
+    if (index !== -1) counts[index]++;
+  });
+
+  // Periods without any camera running are left out rather than shown as zeros
+  const observed = periods
+    .map((step, i) => ({ step, count: counts[i], cameraNights: getPeriodCameraNights(deployments, step) }))
+    .filter(p => p.cameraNights > 0);
+
+  const points: TrendPoint[] = observed.map(({ step, count, cameraNights }) => ({
+    label: step.label,
+    start: step.start,
+    count,
+    cameraNights,
+    value: metric === 'rai' ? Number(getRAI(count, cameraNights).toFixed(3)) : count,
+    fitted: null,
+    lower: null,
+    upper: null
+  }));
+
+  const totalCount = observed.reduce((sum, p) => sum + p.count, 0);
+  if (observed.length < 3 || totalCount === 0) return { points, slope: null };
+
+  const meanTime = observed.reduce((sum, p) => sum + p.step.start.getTime(), 0) / observed.length;
+  const seasonMonths = seasonal ? Array.from(new Set(observed.map(p => p.step.start.getMonth()))).slice(1) : [];
+  const design = observed.map(p => [
+    1,
+    (p.step.start.getTime() - meanTime) / YEAR_MS,
+    ...seasonMonths.map(month => (p.step.start.getMonth() === month ? 1 : 0))
+  ]);
+  if (design.length <= design[0].length) return { points, slope: null };
+
+  const offset = observed.map(p => (metric === 'rai' ? Math.log(p.cameraNights / 100) : 0));
+  const fit = fitPoissonGLM(design, observed.map(p => p.count), offset);
+  if (!fit) return { points, slope: null };
+
+  const { coefficients, covariance, dispersion } = fit;
+  design.forEach((row, i) => {
+    const eta = row.reduce((sum, value, j) => sum + value * coefficients[j], 0);
+    const variance = row.reduce((sum, a, j) => sum + row.reduce((inner, b, k) => inner + a * covariance[j][k] * b, 0), 0);
+    const se = Math.sqrt(Math.max(variance, 0));
+    points[i].fitted = Number(Math.exp(eta).toFixed(3));
+    points[i].lower = Number(Math.exp(eta - Z_95 * se).toFixed(3));
+    points[i].upper = Number(Math.exp(eta + Z_95 * se).toFixed(3));
+  });
+
+  const slopeSe = Math.sqrt(covariance[1][1]);
+  const slope: TrendSlope = {
+    annualChange: Math.exp(coefficients[1]) - 1,
+    lower: Math.exp(coefficients[1] - Z_95 * slopeSe) - 1,
+    upper: Math.exp(coefficients[1] + Z_95 * slopeSe) - 1,
+    pValue: 2 * (1 - normalCdf(Math.abs(coefficients[1] / slopeSe))),
+    dispersion
+  };
+  return { points, slope };
+};
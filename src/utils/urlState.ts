@@ -0,0 +1,218 @@
+import { AccumulationAxis, MapLayerMode, SpatialShape, TimeBasis, TrendPeriod } from '../types';
+import { DateResolution } from './dateRange';
+import { COOCCURRENCE_WINDOWS } from './cooccurrence';
+
+// Dashboard state mirrored into the URL hash so a view can be shared as a
+// link. The hash is used rather than the path so links keep working under
+// the GitHub Pages base path without any server-side rewrites.
+export interface DashboardUrlState {
+  species: string[];
+  regions: string[];
+  arrayNames: string[];
+  orders: string[];
+  families: string[];
+  genera: string[];
+  ageClasses: string[];
+  sexes: string[];
+  dateResolution: DateResolution;
+  dateFrom: string | null; // YYYY-MM-DD, inclusive
+  dateTo: string | null; // YYYY-MM-DD, inclusive
+  activityView: 'hour' | 'month' | 'diel';
+  timeBasis: TimeBasis;
+  activityScale: 'count' | 'proportion';
+  speciesView: 'frequency' | 'cameras';
+  trendPeriod: TrendPeriod;
+  trendByRegion: boolean;
+  communityGrouping: 'arrayName' | 'region';
+  accumulationAxis: AccumulationAxis;
+  cooccurrenceMetric: 'jaccard' | 'veech';
+  cooccurrenceWindow: number | null; // hours
+  mapLayer: MapLayerMode;
+  basemap: string; // basemap id, built in or from basemaps.json
+  clusterMarkers: boolean;
+  area: SpatialShape[];
+  countMode: 'raw' | 'events';
+  eventThreshold: number;
+  abundanceMetric: 'count' | 'rai';
+  mapViewport: MapViewport | null;
+}
+
+export interface MapViewport {
+  lat: number;
+  lng: number;
+  zoom: number;
+}
+
+export const DEFAULT_URL_STATE: DashboardUrlState = {
+  species: ['All'],
+  regions: ['All'],
+  arrayNames: ['All'],
+  orders: ['All'],
+  families: ['All'],
+  genera: ['All'],
+  ageClasses: ['All'],
+  sexes: ['All'],
+  dateResolution: 'month',
+  dateFrom: null,
+  dateTo: null,
+  activityView: 'hour',
+  timeBasis: 'clock',
+  activityScale: 'count',
+  speciesView: 'frequency',
+  trendPeriod: 'year',
+  trendByRegion: false,
+  communityGrouping: 'arrayName',
+  accumulationAxis: 'cameras',
+  cooccurrenceMetric: 'veech',
+  cooccurrenceWindow: null,
+  mapLayer: 'markers',
+  basemap: 'osm',
+  clusterMarkers: false,
+  area: [],
+  countMode: 'raw',
+  eventThreshold: 30,
+  abundanceMetric: 'count',
+  mapViewport: null
+};
+
+const LIST_PARAMS = {
+  species: 'species',
+  regions: 'region',
+  arrayNames: 'array',
+  orders: 'order',
+  families: 'family',
+  genera: 'genus',
+  ageClasses: 'age',
+  sexes: 'sex'
+} as const;
+
+const pickOption = <T extends string>(value: string | null, options: readonly T[], fallback: T): T => {
+  return options.includes(value as T) ? (value as T) : fallback;
+};
+
+export const formatDateParam = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Parse YYYY-MM-DD as a local date, matching how detection times are parsed
+export const parseDateParam = (value: string): Date | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+  const date = new Date(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3]));
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// One `area` param per drawn shape: "circle:lat,lng,radius" or
+// "polygon:lat,lng;lat,lng;..." (likewise "rectangle:...")
+const formatShapeParam = (shape: SpatialShape): string => {
+  const formatPoint = ([lat, lng]: [number, number]) => `${lat.toFixed(5)},${lng.toFixed(5)}`;
+  return shape.type === 'circle'
+    ? `circle:${formatPoint(shape.center)},${Math.round(shape.radius)}`
+    : `${shape.type}:${shape.vertices.map(formatPoint).join(';')}`;
+};
+
+const parseShapeParam = (value: string): SpatialShape | null => {
+  const [type, body = ''] = value.split(':');
+  if (type === 'circle') {
+    const [lat, lng, radius] = body.split(',').map(parseFloat);
+    return isNaN(lat) || isNaN(lng) || !(radius > 0) ? null : { type, center: [lat, lng], radius };
+  }
+  if (type !== 'polygon' && type !== 'rectangle') return null;
+  const vertices = body.split(';').map(point => point.split(',').map(parseFloat) as [number, number]);
+  if (vertices.length < 3 || vertices.some(([lat, lng]) => isNaN(lat) || isNaN(lng))) return null;
+  return { type, vertices };
+};
+
+export const serializeUrlState = (state: DashboardUrlState): string => {
+  const params = new URLSearchParams();
+
+  (Object.keys(LIST_PARAMS) as (keyof typeof LIST_PARAMS)[]).forEach(key => {
+    const values = state[key];
+    if (!values.includes('All')) {
+      values.forEach(value => params.append(LIST_PARAMS[key], value));
+    }
+  });
+
+  if (state.dateResolution !== DEFAULT_URL_STATE.dateResolution) params.set('res', state.dateResolution);
+  if (state.dateFrom) params.set('from', state.dateFrom);
+  if (state.dateTo) params.set('to', state.dateTo);
+  if (state.activityView !== DEFAULT_URL_STATE.activityView) params.set('activity', state.activityView);
+  if (state.timeBasis !== DEFAULT_URL_STATE.timeBasis) params.set('time', state.timeBasis);
+  if (state.activityScale !== DEFAULT_URL_STATE.activityScale) params.set('scale', state.activityScale);
+  if (state.speciesView !== DEFAULT_URL_STATE.speciesView) params.set('speciesView', state.speciesView);
+  if (state.trendPeriod !== DEFAULT_URL_STATE.trendPeriod) params.set('trend', state.trendPeriod);
+  if (state.trendByRegion) params.set('trendRegions', '1');
+  if (state.communityGrouping !== DEFAULT_URL_STATE.communityGrouping) params.set('community', state.communityGrouping);
+  if (state.accumulationAxis !== DEFAULT_URL_STATE.accumulationAxis) params.set('accumulation', state.accumulationAxis);
+  if (state.cooccurrenceMetric !== DEFAULT_URL_STATE.cooccurrenceMetric) params.set('cooccurrence', state.cooccurrenceMetric);
+  if (state.cooccurrenceWindow !== null) params.set('cooccurrenceWindow', String(state.cooccurrenceWindow));
+  if (state.mapLayer !== DEFAULT_URL_STATE.mapLayer) params.set('layer', state.mapLayer);
+  if (state.basemap !== DEFAULT_URL_STATE.basemap) params.set('basemap', state.basemap);
+  if (state.clusterMarkers) params.set('cluster', '1');
+  state.area.forEach(shape => params.append('area', formatShapeParam(shape)));
+  if (state.countMode !== DEFAULT_URL_STATE.countMode) params.set('count', state.countMode);
+  if (state.eventThreshold !== DEFAULT_URL_STATE.eventThreshold) params.set('threshold', String(state.eventThreshold));
+  if (state.abundanceMetric !== DEFAULT_URL_STATE.abundanceMetric) params.set('metric', state.abundanceMetric);
+  if (state.mapViewport) {
+    const { lat, lng, zoom } = state.mapViewport;
+    params.set('map', `${lat.toFixed(4)},${lng.toFixed(4)},${zoom}`);
+  }
+
+  return params.toString();
+};
+
+export const parseUrlState = (hash: string): DashboardUrlState => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const state: DashboardUrlState = { ...DEFAULT_URL_STATE };
+
+  (Object.keys(LIST_PARAMS) as (keyof typeof LIST_PARAMS)[]).forEach(key => {
+    const values = params.getAll(LIST_PARAMS[key]).filter(v => v);
+    state[key] = values.length > 0 ? values : ['All'];
+  });
+
+  state.dateResolution = pickOption(params.get('res'), ['month', 'season', 'day'], DEFAULT_URL_STATE.dateResolution);
+  state.dateFrom = params.get('from') && parseDateParam(params.get('from')!) ? params.get('from') : null;
+  state.dateTo = params.get('to') && parseDateParam(params.get('to')!) ? params.get('to') : null;
+  state.activityView = pickOption(params.get('activity'), ['hour', 'month', 'diel'], DEFAULT_URL_STATE.activityView);
+  state.timeBasis = pickOption(params.get('time'), ['clock', 'solar', 'sun'], DEFAULT_URL_STATE.timeBasis);
+  state.activityScale = pickOption(params.get('scale'), ['count', 'proportion'], DEFAULT_URL_STATE.activityScale);
+  state.speciesView = pickOption(params.get('speciesView'), ['frequency', 'cameras'], DEFAULT_URL_STATE.speciesView);
+  state.trendPeriod = pickOption(params.get('trend'), ['year', 'season'], DEFAULT_URL_STATE.trendPeriod);
+  state.trendByRegion = params.get('trendRegions') === '1';
+  state.communityGrouping = pickOption(params.get('community'), ['arrayName', 'region'], DEFAULT_URL_STATE.communityGrouping);
+  state.accumulationAxis = pickOption(params.get('accumulation'), ['cameras', 'days'], DEFAULT_URL_STATE.accumulationAxis);
+  state.cooccurrenceMetric = pickOption(params.get('cooccurrence'), ['jaccard', 'veech'], DEFAULT_URL_STATE.cooccurrenceMetric);
+  const cooccurrenceWindow = Number(params.get('cooccurrenceWindow'));
+  if (COOCCURRENCE_WINDOWS.includes(cooccurrenceWindow)) state.cooccurrenceWindow = cooccurrenceWindow;
+  state.mapLayer = pickOption(params.get('layer'), ['markers', 'heatmap', 'hexbin'], DEFAULT_URL_STATE.mapLayer);
+  state.basemap = /^[\w-]+$/.test(params.get('basemap') || '') ? params.get('basemap')! : DEFAULT_URL_STATE.basemap;
+  state.clusterMarkers = params.get('cluster') === '1';
+  state.area = params.getAll('area').map(parseShapeParam).filter((shape): shape is SpatialShape => shape !== null);
+  state.countMode = pickOption(params.get('count'), ['raw', 'events'], DEFAULT_URL_STATE.countMode);
+  state.abundanceMetric = pickOption(params.get('metric'), ['count', 'rai'], DEFAULT_URL_STATE.abundanceMetric);
+
+  const threshold = parseInt(params.get('threshold') || '');
+  state.eventThreshold = threshold > 0 ? threshold : DEFAULT_URL_STATE.eventThreshold;
+
+  const [lat, lng, zoom] = (params.get('map') || '').split(',').map(parseFloat);
+  state.mapViewport = !isNaN(lat) && !isNaN(lng) && !isNaN(zoom) ? { lat, lng, zoom } : null;
+
+  return state;
+};
+
+export const readUrlState = (): DashboardUrlState => parseUrlState(window.location.hash);
+
+// Push a history entry for the new state, or replace the current one. No-op
+// when the URL already reflects the state so back/forward doesn't stutter.
+export const writeUrlState = (state: DashboardUrlState, replace = false) => {
+  const hash = serializeUrlState(state);
+  if (hash === window.location.hash.replace(/^#/, '')) return;
+  const url = `${window.location.pathname}${window.location.search}${hash ? `#${hash}` : ''}`;
+  if (replace) {
+    window.history.replaceState(null, '', url);
+  } else {
+    window.history.pushState(null, '', url);
+  }
+};
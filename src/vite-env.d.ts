@@ -1 +1,7 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SEQUENCE_URL_TEMPLATE?: string;
+  readonly VITE_IMAGE_URL_TEMPLATE?: string;
+  readonly VITE_IMAGE_MANIFEST_URL?: string;
+}
@@ -0,0 +1,132 @@
+import { DeploymentEffort, DeploymentRecord, ProcessedDetection, ValidationReport } from '../types';
+import {
+  loadDetectionData,
+  loadDeploymentRecords,
+  getDeploymentEffort,
+  parseCSVFile,
+  readCSVHeaders,
+  processDetectionRecords,
+  mergeDetections,
+  getFilterOptions
+} from '../utils/dataLoader';
+import { getDateDomain } from '../utils/dateRange';
+import { applyColumnMapping } from '../utils/columnMapping';
+import { setBoundaryLayers } from '../utils/boundaries';
+import {
+  DetectionIndex,
+  buildDetectionIndex,
+  summarizeDetections,
+  estimateSpeciesOverlap,
+  summarizeTrends,
+  summarizeAccumulation,
+  summarizeCooccurrence,
+  summarizeSite,
+  summarizeOccupancy,
+  summarizeGallery,
+  selectDetections
+} from '../utils/detectionQuery';
+import { getDataQualityIssues } from '../utils/dataQuality';
+import { DatasetUpdate, WorkerRequest, WorkerResponse } from './detectionWorkerClient';
+
+// Parsing, indexing and aggregation run here so filter changes never block
+// the UI. The worker owns the working dataset; the main thread never holds
+// it, only the summaries it asks for and the rows behind a CSV download.
+// Copying every row over after a load would block the main thread as long
+// as the aggregation it was moved off.
+let bundledData: ProcessedDetection[] = [];
+let bundledReport: ValidationReport | null = null;
+let deploymentRecords: DeploymentRecord[] = [];
+let data: ProcessedDetection[] = [];
+let index: DetectionIndex = buildDetectionIndex([]);
+let deployments: DeploymentEffort[] = [];
+let datasetVersion = 0;
+
+const setDataset = (detections: ProcessedDetection[]) => {
+  data = detections;
+  index = buildDetectionIndex(detections);
+  deployments = getDeploymentEffort(detections, deploymentRecords);
+  datasetVersion++;
+};
+
+const getDatasetUpdate = (reports: ValidationReport[]): DatasetUpdate => ({
+  reports,
+  datasetVersion,
+  dateDomain: getDateDomain(data),
+  options: getFilterOptions(data)
+});
+
+const handleRequest = async (request: WorkerRequest): Promise<WorkerResponse['result']> => {
+  switch (request.type) {
+    case 'load': {
+      const [{ detections, report }, records] = await Promise.all([loadDetectionData(), loadDeploymentRecords()]);
+      bundledData = detections;
+      bundledReport = report;
+      deploymentRecords = records;
+      setDataset(detections);
+      return getDatasetUpdate([report]);
+    }
+    case 'readHeaders':
+      return readCSVHeaders(request.file);
+    case 'importFiles': {
+      let merged = request.mode === 'replace' ? [] : data;
+      const reports: ValidationReport[] = [];
+      for (const file of request.files) {
+        const { rows } = await parseCSVFile(file);
+        const { detections, report } = processDetectionRecords(
+          applyColumnMapping(rows, request.mapping),
+          file.name,
+          !request.mapping.Year
+        );
+        const result = mergeDetections(merged, detections);
+        merged = result.merged;
+        reports.push({ ...report, duplicateRows: result.duplicates });
+      }
+      setDataset(merged);
+      return getDatasetUpdate(reports);
+    }
+    case 'resetDataset':
+      setDataset(bundledData);
+      return getDatasetUpdate(bundledReport ? [bundledReport] : []);
+    case 'query':
+      return summarizeDetections(data, index, deployments, request.query, datasetVersion);
+    case 'activityOverlap':
+      return estimateSpeciesOverlap(data, index, request.query, request.speciesA, request.speciesB, request.iterations);
+    case 'trend':
+      return summarizeTrends(data, index, deployments, request.query, request.period, request.splitByRegion, request.metric);
+    case 'accumulation':
+      return summarizeAccumulation(data, index, deployments, request.query, request.axis, request.permutations);
+    case 'cooccurrence':
+      return summarizeCooccurrence(data, index, request.query, request.topN, request.windowHours);
+    case 'siteDetail':
+      return summarizeSite(data, index, deployments, request.query, request.lat, request.lng);
+    case 'gallery':
+      return summarizeGallery(data, index, request.filters, request.camera);
+    case 'rows':
+      return selectDetections(data, index, request.filters, request.location);
+    case 'occupancy':
+      return summarizeOccupancy(
+        data,
+        index,
+        deployments,
+        request.filters,
+        request.species,
+        request.siteKey,
+        request.occasionDays
+      );
+    case 'dataQuality':
+      return getDataQualityIssues(data, request.reports, deployments);
+    case 'setBoundaryLayers':
+      setBoundaryLayers(request.layers);
+      return null;
+  }
+};
+
+self.onmessage = async (event: MessageEvent<{ id: number; request: WorkerRequest }>) => {
+  const { id, request } = event.data;
+  try {
+    const result = await handleRequest(request);
+    self.postMessage({ id, result });
+  } catch (error) {
+    self.postMessage({ id, error: (error as Error).message });
+  }
+};
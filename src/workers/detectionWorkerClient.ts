@@ -0,0 +1,170 @@
+import {
+  AccumulationAxis,
+  AccumulationCurve,
+  BoundaryLayer,
+  CooccurrenceMatrix,
+  DataQualityIssue,
+  DetectionFilters,
+  DetectionQuery,
+  DetectionSummary,
+  FilterOptions,
+  GallerySequence,
+  OverlapEstimate,
+  ProcessedDetection,
+  SiteDetail,
+  TrendPeriod,
+  TrendResult,
+  ValidationReport
+} from '../types';
+import { ColumnMapping } from '../utils/columnMapping';
+import { OccupancySiteKey, OccupancySummary } from '../utils/occupancy';
+import { DateDomain } from '../utils/dateRange';
+
+export type WorkerRequest =
+  | { type: 'load' }
+  | { type: 'readHeaders'; file: File }
+  | { type: 'importFiles'; files: File[]; mapping: ColumnMapping; mode: 'merge' | 'replace' }
+  | { type: 'resetDataset' }
+  | { type: 'query'; query: DetectionQuery }
+  | { type: 'activityOverlap'; query: DetectionQuery; speciesA: string; speciesB: string; iterations: number }
+  | { type: 'trend'; query: DetectionQuery; period: TrendPeriod; splitByRegion: boolean; metric: 'count' | 'rai' }
+  | { type: 'accumulation'; query: DetectionQuery; axis: AccumulationAxis; permutations: number }
+  | { type: 'cooccurrence'; query: DetectionQuery; topN: number; windowHours: number | null }
+  | { type: 'siteDetail'; query: DetectionQuery; lat: number; lng: number }
+  | { type: 'gallery'; filters: DetectionFilters; camera: { lat: number; lng: number } | null }
+  | { type: 'rows'; filters: DetectionFilters; location: { lat: number; lng: number } | null }
+  | { type: 'occupancy'; filters: DetectionFilters; species: string[]; siteKey: OccupancySiteKey; occasionDays: number }
+  | { type: 'dataQuality'; reports: ValidationReport[] }
+  | { type: 'setBoundaryLayers'; layers: BoundaryLayer[] };
+
+// The worker's dataset after a load, import or reset. The rows themselves
+// stay in the worker.
+export interface DatasetUpdate {
+  reports: ValidationReport[];
+  datasetVersion: number;
+  dateDomain: DateDomain | null;
+  options: FilterOptions;
+}
+
+export interface WorkerResponse {
+  id: number;
+  result?:
+    | DatasetUpdate
+    | DetectionSummary
+    | OverlapEstimate
+    | TrendResult
+    | AccumulationCurve[]
+    | CooccurrenceMatrix
+    | SiteDetail
+    | GallerySequence[]
+    | ProcessedDetection[]
+    | OccupancySummary
+    | DataQualityIssue[]
+    | string[]
+    | null;
+  error?: string;
+}
+
+let worker: Worker | null = null;
+let workerError: Error | null = null;
+let nextRequestId = 0;
+const pending = new Map<number, { resolve: (result: unknown) => void; reject: (error: Error) => void }>();
+const errorListeners = new Set<(error: Error) => void>();
+
+// A worker that failed to load, or threw outside a request, can't answer
+// anything pending or later, so every request is rejected from then on
+const failWorker = (error: Error) => {
+  workerError = error;
+  worker?.terminate();
+  pending.forEach(request => request.reject(error));
+  pending.clear();
+  errorListeners.forEach(listener => listener(error));
+};
+
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL('./detectionWorker.ts', import.meta.url), { type: 'module' });
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      failWorker(new Error(event.message || 'The data worker could not be started'));
+    };
+    worker.onmessageerror = () => failWorker(new Error('A message from the data worker could not be read'));
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const { id, result, error } = event.data;
+      const request = pending.get(id);
+      if (!request) return;
+      pending.delete(id);
+      if (error) {
+        request.reject(new Error(error));
+      } else {
+        request.resolve(result);
+      }
+    };
+  }
+  return worker;
+};
+
+const send = <T>(request: WorkerRequest): Promise<T> => {
+  if (workerError) return Promise.reject(workerError);
+  const id = nextRequestId++;
+  return new Promise<T>((resolve, reject) => {
+    pending.set(id, { resolve: resolve as (result: unknown) => void, reject });
+    getWorker().postMessage({ id, request });
+  });
+};
+
+// Called once if the worker fails; returns a function that unsubscribes
+export const onWorkerError = (listener: (error: Error) => void) => {
+  errorListeners.add(listener);
+  return () => {
+    errorListeners.delete(listener);
+  };
+};
+
+// Fetch and parse the bundled dataset (and optional deployments file)
+export const loadDataset = () => send<DatasetUpdate>({ type: 'load' });
+
+export const readFileHeaders = (file: File) => send<string[]>({ type: 'readHeaders', file });
+
+export const importFiles = (files: File[], mapping: ColumnMapping, mode: 'merge' | 'replace') =>
+  send<DatasetUpdate>({ type: 'importFiles', files, mapping, mode });
+
+export const resetDataset = () => send<DatasetUpdate>({ type: 'resetDataset' });
+
+export const queryDetections = (query: DetectionQuery) => send<DetectionSummary>({ type: 'query', query });
+
+// Overlap coefficient with a bootstrap interval; null when either species has
+// fewer than two detections under the filters
+export const queryActivityOverlap = (query: DetectionQuery, speciesA: string, speciesB: string, iterations = 200) =>
+  send<OverlapEstimate | null>({ type: 'activityOverlap', query, speciesA, speciesB, iterations });
+
+export const queryTrends = (query: DetectionQuery, period: TrendPeriod, splitByRegion: boolean, metric: 'count' | 'rai') =>
+  send<TrendResult>({ type: 'trend', query, period, splitByRegion, metric });
+
+export const queryAccumulation = (query: DetectionQuery, axis: AccumulationAxis, permutations = 100) =>
+  send<AccumulationCurve[]>({ type: 'accumulation', query, axis, permutations });
+
+export const queryCooccurrence = (query: DetectionQuery, topN: number, windowHours: number | null) =>
+  send<CooccurrenceMatrix>({ type: 'cooccurrence', query, topN, windowHours });
+
+export const querySiteDetail = (query: DetectionQuery, lat: number, lng: number) =>
+  send<SiteDetail>({ type: 'siteDetail', query, lat, lng });
+
+export const queryGallery = (filters: DetectionFilters, camera: { lat: number; lng: number } | null) =>
+  send<GallerySequence[]>({ type: 'gallery', filters, camera });
+
+// Filtered rows are only copied over for a CSV download
+export const queryRows = (filters: DetectionFilters, location: { lat: number; lng: number } | null = null) =>
+  send<ProcessedDetection[]>({ type: 'rows', filters, location });
+
+export const queryOccupancy = (filters: DetectionFilters, species: string[], siteKey: OccupancySiteKey, occasionDays: number) =>
+  send<OccupancySummary>({ type: 'occupancy', filters, species, siteKey, occasionDays });
+
+// Issues across the whole working dataset; the reports are the client's, since
+// merged imports keep the earlier ones
+export const queryDataQuality = (reports: ValidationReport[]) =>
+  send<DataQualityIssue[]>({ type: 'dataQuality', reports });
+
+// Boundary layers the filters and community summaries join cameras to
+export const setWorkerBoundaryLayers = (layers: BoundaryLayer[]) =>
+  send<null>({ type: 'setBoundaryLayers', layers });